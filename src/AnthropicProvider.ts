@@ -0,0 +1,202 @@
+import {
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  LLMProvider,
+  ProviderCallOptions,
+  ProviderCapabilities,
+  ProviderConfig,
+  TokenUsage
+} from './types';
+import { ProviderError, parseProviderEvent, postProvider } from './errors';
+import { parseSSE } from './streaming';
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com/v1';
+
+/**
+ * AnthropicProvider - Chat completions through the Anthropic Messages API
+ *
+ * Supports streaming and tool calling. There is no JSON mode, so JSON requests
+ * rely on the prompt asking for JSON.
+ *
+ * @example
+ * ```typescript
+ * const provider = new AnthropicProvider({ apiKey: process.env.ANTHROPIC_API_KEY });
+ *
+ * const { content } = await provider.chat({
+ *   model: 'claude-3-haiku-20240307',
+ *   messages: [{ role: 'user', content: 'Say hello' }],
+ *   maxTokens: 100
+ * });
+ * ```
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'Anthropic';
+  readonly capabilities: ProviderCapabilities = { json: false, streaming: true, tools: true };
+
+  /**
+   * @param config - Provider settings
+   * @param config.apiKey - Anthropic API key
+   * @param config.baseUrl - API base URL, e.g. for a proxy (default: 'https://api.anthropic.com/v1')
+   * @param config.headers - Extra headers sent with every request
+   * @param config.clock - Source of time for Retry-After dates (default: systemClock)
+   */
+  constructor(private config: ProviderConfig = {}) {}
+
+  async chat(request: ChatRequest, options: ProviderCallOptions = {}): Promise<ChatResponse> {
+    const response = await postProvider(this.name, this.url(), this.headers(), this.buildBody(request), options.signal, this.config.clock);
+    const data = await response.json() as any;
+
+    if (!Array.isArray(data.content)) {
+      throw new ProviderError(`${this.name} API error: response has no content`, {
+        provider: this.name,
+        code: 'invalid_response'
+      });
+    }
+
+    const usage = data.usage
+      ? this.toUsage(data.usage.input_tokens, data.usage.output_tokens, data.model || request.model)
+      : undefined;
+    if (usage) options.onUsage?.(usage);
+
+    return {
+      content: data.content
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join(''),
+      toolCalls: data.content
+        .filter((block: any) => block.type === 'tool_use')
+        .map((block: any) => ({ id: block.id, name: block.name, arguments: block.input || {} })),
+      model: data.model,
+      usage
+    };
+  }
+
+  async *stream(request: ChatRequest, options: ProviderCallOptions = {}): AsyncGenerator<string> {
+    const response = await postProvider(
+      this.name,
+      this.url(),
+      this.headers(),
+      { ...this.buildBody(request), stream: true },
+      options.signal,
+      this.config.clock
+    );
+
+    if (!response.body) {
+      throw new ProviderError(`${this.name} API error: response has no body`, {
+        provider: this.name,
+        code: 'invalid_response'
+      });
+    }
+
+    // Input tokens arrive with message_start, the running output count with message_delta
+    let model = request.model;
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    for await (const event of parseSSE(response.body, options.signal)) {
+      const data = parseProviderEvent(this.name, event.data);
+
+      if (data.type === 'error') {
+        // Errors after the stream started arrive as events; overloaded_error is transient
+        throw new ProviderError(`${this.name} API error: ${data.error?.message || 'stream error'}`, {
+          provider: this.name,
+          code: data.error?.type === 'overloaded_error' ? 'server' : 'unknown'
+        });
+      }
+      if (data.type === 'message_start') {
+        model = data.message?.model || model;
+        inputTokens = data.message?.usage?.input_tokens || 0;
+        outputTokens = data.message?.usage?.output_tokens || 0;
+      }
+      if (data.type === 'message_delta' && data.usage) {
+        outputTokens = data.usage.output_tokens ?? outputTokens;
+      }
+      if (data.type === 'message_stop') {
+        options.onUsage?.(this.toUsage(inputTokens, outputTokens, model));
+        return;
+      }
+
+      if (data.type === 'content_block_delta' && data.delta?.type === 'text_delta') {
+        yield data.delta.text;
+      }
+    }
+  }
+
+  private toUsage(inputTokens = 0, outputTokens = 0, model?: string): TokenUsage {
+    return {
+      provider: this.name,
+      model,
+      promptTokens: inputTokens,
+      completionTokens: outputTokens,
+      totalTokens: inputTokens + outputTokens
+    };
+  }
+
+  private url(): string {
+    return `${(this.config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '')}/messages`;
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      'x-api-key': this.config.apiKey || '',
+      'anthropic-version': '2023-06-01',
+      ...this.config.headers
+    };
+  }
+
+  private buildBody(request: ChatRequest): Record<string, any> {
+    return {
+      model: request.model || 'claude-3-sonnet-20240229',
+      system: request.system,
+      messages: toAnthropicMessages(request.messages),
+      temperature: request.temperature,
+      max_tokens: request.maxTokens || 1000,
+      ...(request.tools?.length ? {
+        tools: request.tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: tool.parameters
+        }))
+      } : {})
+    };
+  }
+}
+
+/**
+ * Tool calls become tool_use blocks on the assistant message, and consecutive tool
+ * results are collected into one user message of tool_result blocks.
+ */
+function toAnthropicMessages(messages: ChatMessage[]): Record<string, any>[] {
+  const result: Record<string, any>[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'tool') {
+      const block = {
+        type: 'tool_result',
+        tool_use_id: message.toolCallId,
+        content: message.content,
+        ...(message.isError ? { is_error: true } : {})
+      };
+
+      const previous = result[result.length - 1];
+      if (previous && previous.role === 'user' && Array.isArray(previous.content)) {
+        previous.content.push(block);
+      } else {
+        result.push({ role: 'user', content: [block] });
+      }
+    } else if (message.role === 'assistant' && message.toolCalls?.length) {
+      result.push({
+        role: 'assistant',
+        content: [
+          ...(message.content ? [{ type: 'text', text: message.content }] : []),
+          ...message.toolCalls.map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments }))
+        ]
+      });
+    } else {
+      result.push({ role: message.role, content: message.content });
+    }
+  }
+
+  return result;
+}
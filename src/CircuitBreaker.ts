@@ -0,0 +1,150 @@
+import { Clock, systemClock } from './Clock';
+
+/**
+ * - `closed`: requests flow normally while failures are counted
+ * - `open`: requests are refused until the cooldown has passed
+ * - `half-open`: a single probe request decides whether to close or reopen
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Failure rate over the window that opens the breaker, 0-1 (default: 0.5) */
+  failureThreshold?: number;
+  /** Number of recent requests the failure rate is measured over (default: 10) */
+  windowSize?: number;
+  /** Requests needed in the window before the breaker can open (default: 3) */
+  minimumRequests?: number;
+  /** How long the breaker stays open before probing, in ms (default: 30000) */
+  cooldownMs?: number;
+  /** Source of time for the cooldown (default: systemClock) */
+  clock?: Clock;
+}
+
+/**
+ * CircuitBreaker - Stops sending requests to a provider that keeps failing
+ *
+ * The breaker tracks the outcome of recent requests. When the failure rate crosses
+ * the threshold it opens and refuses requests for a cooldown, after which one probe
+ * request is let through: success closes the breaker, failure opens it again.
+ *
+ * @example
+ * ```typescript
+ * const breaker = new CircuitBreaker({ failureThreshold: 0.5, cooldownMs: 10000 });
+ *
+ * if (breaker.allowRequest()) {
+ *   try {
+ *     await callProvider();
+ *     breaker.recordSuccess();
+ *   } catch (error) {
+ *     breaker.recordFailure();
+ *   }
+ * }
+ * ```
+ */
+export class CircuitBreaker {
+  private outcomes: boolean[] = [];
+  private currentState: CircuitState = 'closed';
+  private openedAt = 0;
+  private probeInFlight = false;
+  private failureThreshold: number;
+  private windowSize: number;
+  private minimumRequests: number;
+  private cooldownMs: number;
+  private clock: Clock;
+
+  /**
+   * @param options - Thresholds and cooldown, see CircuitBreakerOptions
+   */
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 0.5;
+    this.windowSize = Math.max(1, options.windowSize ?? 10);
+    this.minimumRequests = Math.max(1, options.minimumRequests ?? 3);
+    this.cooldownMs = options.cooldownMs ?? 30000;
+    this.clock = options.clock || systemClock;
+  }
+
+  get state(): CircuitState {
+    return this.currentState;
+  }
+
+  /**
+   * Checks whether a request may be sent now. Once the cooldown has passed this
+   * moves an open breaker to half-open and admits the single probe request.
+   *
+   * @param now - Current time in ms (default: the clock's time)
+   */
+  allowRequest(now: number = this.clock.now()): boolean {
+    if (this.currentState === 'open' && now - this.openedAt >= this.cooldownMs) {
+      this.currentState = 'half-open';
+      this.probeInFlight = false;
+    }
+
+    if (this.currentState === 'closed') return true;
+    if (this.currentState === 'open' || this.probeInFlight) return false;
+
+    this.probeInFlight = true;
+    return true;
+  }
+
+  recordSuccess() {
+    if (this.currentState === 'half-open') {
+      this.close();
+      return;
+    }
+    this.record(true);
+  }
+
+  /**
+   * @param now - Current time in ms (default: the clock's time)
+   */
+  recordFailure(now: number = this.clock.now()) {
+    if (this.currentState === 'half-open') {
+      this.open(now);
+      return;
+    }
+
+    this.record(false);
+    const failures = this.outcomes.filter(ok => !ok).length;
+    if (
+      this.currentState === 'closed' &&
+      this.outcomes.length >= this.minimumRequests &&
+      failures / this.outcomes.length >= this.failureThreshold
+    ) {
+      this.open(now);
+    }
+  }
+
+  /**
+   * Records a request that ended without an outcome, e.g. because it was aborted,
+   * so a half-open breaker can send another probe.
+   */
+  recordCancelled() {
+    this.probeInFlight = false;
+  }
+
+  /**
+   * Closes the breaker and forgets past failures.
+   */
+  reset() {
+    this.close();
+  }
+
+  private record(ok: boolean) {
+    this.outcomes.push(ok);
+    if (this.outcomes.length > this.windowSize) {
+      this.outcomes.shift();
+    }
+  }
+
+  private open(now: number) {
+    this.currentState = 'open';
+    this.openedAt = now;
+    this.probeInFlight = false;
+  }
+
+  private close() {
+    this.currentState = 'closed';
+    this.outcomes = [];
+    this.probeInFlight = false;
+  }
+}
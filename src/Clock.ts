@@ -0,0 +1,25 @@
+/**
+ * Handle returned by `Clock.setTimeout`, passed back to `clearTimeout`
+ */
+export type TimerHandle = unknown;
+
+/**
+ * Source of time and timers. Everything the monitor times, from the debounce and polling
+ * to retry backoff and latency metrics, goes through one, so tests can swap in a
+ * VirtualClock and move time forward instead of waiting for it.
+ */
+export interface Clock {
+  /** Current time in ms since the epoch */
+  now(): number;
+  setTimeout(callback: () => void, ms: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+}
+
+/**
+ * Clock backed by `Date.now` and the global timers, used when no clock is configured
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>)
+};
@@ -0,0 +1,308 @@
+import {
+  ChatRequest,
+  ChatResponse,
+  LLMProvider,
+  MonitorConfig,
+  ProviderCallOptions,
+  ProviderCapabilities,
+  TokenUsage,
+  TranscriptSegment
+} from './types';
+import { MONITOR_EVENTS, TranscriptMonitor } from './TranscriptMonitor';
+import { Clock, systemClock } from './Clock';
+
+/**
+ * Version of the fixture format written by ConversationRecorder
+ */
+export const FIXTURE_VERSION = 1;
+
+/**
+ * Which side of the monitor a provider serves
+ */
+export type ProviderRole = 'analysis' | 'generation';
+
+/**
+ * A transcript change fed to the monitor, `at` ms after recording started
+ */
+export type RecordedInput =
+  | { at: number; type: 'transcript'; transcript: string }
+  | { at: number; type: 'segment'; segment: TranscriptSegment }
+  | { at: number; type: 'segmentUpdate'; id: string; update: Partial<Omit<TranscriptSegment, 'id'>> };
+
+/**
+ * A failed provider call, reduced to what is needed to throw it again
+ */
+export interface RecordedError {
+  name: string;
+  message: string;
+  code?: string;
+  status?: number;
+  retryable?: boolean;
+  retryAfterMs?: number;
+}
+
+export interface RecordedProviderCall {
+  role: ProviderRole;
+  /** Start of the call, in ms after recording started */
+  at: number;
+  /** How long the call took */
+  durationMs: number;
+  request: ChatRequest;
+  /** Reply of a `chat` call that succeeded */
+  response?: ChatResponse;
+  /** Text of a `stream` call, with each delta's time since the call started */
+  deltas?: { afterMs: number; text: string }[];
+  /** Usage the provider reported through `onUsage` */
+  usage?: TokenUsage;
+  error?: RecordedError;
+}
+
+export interface RecordedEvent {
+  /** When the event was emitted, in ms after recording started */
+  at: number;
+  name: string;
+  /** Event arguments as JSON; errors are reduced to their name and message */
+  args: unknown[];
+}
+
+/**
+ * Everything needed to replay a conversation through a fresh monitor
+ */
+export interface ConversationFixture {
+  version: number;
+  /** Wall-clock time recording started, in ms since the epoch */
+  startedAt: number;
+  /** Monitor settings that survive JSON; API keys, headers, functions and instances are left out */
+  config: MonitorConfig;
+  /** Name and capabilities of each recorded provider */
+  providers: Partial<Record<ProviderRole, { name: string; capabilities: ProviderCapabilities }>>;
+  inputs: RecordedInput[];
+  providerCalls: RecordedProviderCall[];
+  events: RecordedEvent[];
+}
+
+/**
+ * ConversationRecorder - Captures a live conversation as a replayable JSON fixture
+ *
+ * Records the transcript changes a monitor receives, with timing, every request and reply
+ * of the providers it is given through `recordProvider`, and every event the monitor emits.
+ * Replay the fixture with ConversationReplayer to turn an incident into a regression test.
+ *
+ * @example
+ * ```typescript
+ * const config = { debounceMs: 800, name: 'Ava' };
+ * const recorder = new ConversationRecorder(config);
+ *
+ * const monitor = new TranscriptMonitor({
+ *   ...config,
+ *   analyzer: { provider: recorder.recordProvider('analysis', new OpenAIProvider({ apiKey })) },
+ *   generator: { provider: recorder.recordProvider('generation', new OpenAIProvider({ apiKey })) }
+ * });
+ * recorder.attach(monitor);
+ *
+ * // Later, e.g. when the call ends
+ * await fs.writeFile('fixtures/incident-1234.json', JSON.stringify(recorder.toFixture(), null, 2));
+ * ```
+ */
+export class ConversationRecorder {
+  private clock: Clock;
+  private startedAt: number;
+  private providers: ConversationFixture['providers'] = {};
+  private inputs: RecordedInput[] = [];
+  private providerCalls: RecordedProviderCall[] = [];
+  private events: RecordedEvent[] = [];
+
+  /**
+   * @param config - The monitor's configuration, stored in the fixture without secrets so
+   *   the replay uses the same debounce, name and other settings. Its `clock`, if any, times the recording.
+   */
+  constructor(private config: MonitorConfig = {}) {
+    this.clock = config.clock || systemClock;
+    this.startedAt = this.clock.now();
+  }
+
+  /**
+   * Wraps a provider so its requests and replies are recorded.
+   *
+   * @param role - Whether the provider serves the analyzer or the generator
+   * @param provider - The real provider
+   * @returns A provider with the same name and capabilities
+   */
+  recordProvider(role: ProviderRole, provider: LLMProvider): LLMProvider {
+    this.providers[role] = { name: provider.name, capabilities: { ...provider.capabilities } };
+    const recorder = this;
+
+    const record = (request: ChatRequest, options: ProviderCallOptions) => {
+      const call: RecordedProviderCall = { role, at: this.elapsed(), durationMs: 0, request: toFixtureValue(request) };
+      this.providerCalls.push(call);
+
+      const callOptions: ProviderCallOptions = {
+        ...options,
+        onUsage: usage => {
+          call.usage = toFixtureValue(usage);
+          options.onUsage?.(usage);
+        }
+      };
+      const finish = (error?: unknown) => {
+        call.durationMs = this.elapsed() - call.at;
+        if (error !== undefined) call.error = toRecordedError(error);
+      };
+      return { call, callOptions, finish };
+    };
+
+    return {
+      name: provider.name,
+      capabilities: provider.capabilities,
+
+      async chat(request, options = {}) {
+        const { call, callOptions, finish } = record(request, options);
+        try {
+          const response = await provider.chat(request, callOptions);
+          call.response = toFixtureValue(response);
+          finish();
+          return response;
+        } catch (error) {
+          finish(error);
+          throw error;
+        }
+      },
+
+      ...(provider.stream ? {
+        async *stream(request: ChatRequest, options: ProviderCallOptions = {}) {
+          const { call, callOptions, finish } = record(request, options);
+          call.deltas = [];
+          try {
+            for await (const delta of provider.stream!(request, callOptions)) {
+              call.deltas.push({ afterMs: recorder.elapsed() - call.at, text: delta });
+              yield delta;
+            }
+            finish();
+          } catch (error) {
+            finish(error);
+            throw error;
+          }
+        }
+      } : {})
+    };
+  }
+
+  /**
+   * Starts recording a monitor's transcript changes and events.
+   *
+   * @param monitor - The monitor to record
+   * @returns A function that stops recording
+   */
+  attach(monitor: TranscriptMonitor): () => void {
+    // Segment changes are recorded as segments, so their transcriptChanged is not recorded twice
+    let inSegmentCall = false;
+    const appendSegment = monitor.appendSegment;
+    const updateSegment = monitor.updateSegment;
+
+    monitor.appendSegment = segment => {
+      this.inputs.push({ at: this.elapsed(), type: 'segment', segment: toFixtureValue(segment) });
+      inSegmentCall = true;
+      try {
+        return appendSegment.call(monitor, segment);
+      } finally {
+        inSegmentCall = false;
+      }
+    };
+    monitor.updateSegment = (id, update) => {
+      this.inputs.push({ at: this.elapsed(), type: 'segmentUpdate', id, update: toFixtureValue(update) });
+      inSegmentCall = true;
+      try {
+        return updateSegment.call(monitor, id, update);
+      } finally {
+        inSegmentCall = false;
+      }
+    };
+
+    const onTranscriptChanged = (transcript: string) => {
+      if (!inSegmentCall) this.inputs.push({ at: this.elapsed(), type: 'transcript', transcript });
+    };
+    const listeners = MONITOR_EVENTS.map(name => {
+      const listener = (...args: unknown[]) => {
+        this.events.push({ at: this.elapsed(), name, args: toFixtureValue(args) });
+      };
+      monitor.on(name, listener);
+      return { name, listener };
+    });
+    monitor.on('transcriptChanged', onTranscriptChanged);
+
+    return () => {
+      monitor.appendSegment = appendSegment;
+      monitor.updateSegment = updateSegment;
+      monitor.off('transcriptChanged', onTranscriptChanged);
+      listeners.forEach(({ name, listener }) => monitor.off(name, listener));
+    };
+  }
+
+  /**
+   * Returns everything recorded so far as a JSON-safe fixture.
+   */
+  toFixture(): ConversationFixture {
+    return {
+      version: FIXTURE_VERSION,
+      startedAt: this.startedAt,
+      config: sanitizeConfig(this.config),
+      providers: toFixtureValue(this.providers),
+      inputs: toFixtureValue(this.inputs),
+      providerCalls: toFixtureValue(this.providerCalls),
+      events: toFixtureValue(this.events)
+    };
+  }
+
+  private elapsed(): number {
+    return this.clock.now() - this.startedAt;
+  }
+}
+
+// Settings that may hold credentials are never written to a fixture
+const SECRET_KEYS = ['apiKey', 'headers'];
+// Settings the replay supplies itself
+const REPLAY_KEYS = ['clock'];
+
+/**
+ * Reduces a monitor config to the settings that can be stored as JSON.
+ */
+function sanitizeConfig(config: MonitorConfig): MonitorConfig {
+  return JSON.parse(JSON.stringify(config, (key, value) => {
+    if (SECRET_KEYS.includes(key) || REPLAY_KEYS.includes(key)) return undefined;
+    return isPlainValue(value) ? value : undefined;
+  }) ?? '{}');
+}
+
+/**
+ * Converts a value to what it looks like after a JSON round trip, reducing errors to
+ * their name, message and provider details.
+ */
+export function toFixtureValue<T>(value: T): T {
+  if (value === undefined) return value;
+
+  return JSON.parse(JSON.stringify(value, (_key, inner) => {
+    return inner instanceof Error ? toRecordedError(inner) : inner;
+  }));
+}
+
+function toRecordedError(error: unknown): RecordedError {
+  const { name, message, code, status, retryable, retryAfterMs } = (error || {}) as Record<string, any>;
+  return {
+    name: typeof name === 'string' ? name : 'Error',
+    message: typeof message === 'string' ? message : String(error),
+    ...(code !== undefined ? { code } : {}),
+    ...(status !== undefined ? { status } : {}),
+    ...(typeof retryable === 'boolean' ? { retryable } : {}),
+    ...(retryAfterMs !== undefined ? { retryAfterMs } : {})
+  };
+}
+
+/**
+ * Primitives, arrays and plain objects; class instances such as providers and storage are not.
+ */
+function isPlainValue(value: unknown): boolean {
+  if (value === null || typeof value !== 'object') return typeof value !== 'function';
+  if (Array.isArray(value)) return true;
+
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
@@ -0,0 +1,277 @@
+import {
+  ChatRequest,
+  ChatResponse,
+  LLMProvider,
+  MonitorConfig,
+  ProviderCallOptions,
+  ProviderCapabilities
+} from './types';
+import {
+  ConversationFixture,
+  FIXTURE_VERSION,
+  ProviderRole,
+  RecordedError,
+  RecordedEvent,
+  RecordedProviderCall,
+  toFixtureValue
+} from './ConversationRecorder';
+import { MONITOR_EVENTS, TranscriptMonitor } from './TranscriptMonitor';
+import { ProviderError, ProviderErrorCode } from './errors';
+import { SimpleStorage } from './storage';
+import { VirtualClock } from './VirtualClock';
+import { Clock } from './Clock';
+import { createAbortError, sleep } from './utils';
+
+export interface ReplayOptions {
+  /**
+   * Settings merged over the recorded config, e.g. the custom analyzer or generator the
+   * recording used, or a change whose effect you want to see. Providers are always replaced
+   * by the recorded replies.
+   */
+  config?: MonitorConfig;
+  /** Events left out of the comparison (default: none) */
+  ignoreEvents?: string[];
+  /**
+   * Also compare when events were emitted, allowing this much difference in ms
+   * (default: timing is not compared)
+   */
+  timingToleranceMs?: number;
+}
+
+/**
+ * A position where the replayed events differ from the recorded ones
+ */
+export interface EventDifference {
+  index: number;
+  /** The recorded event, if the recording has one at this position */
+  expected?: RecordedEvent;
+  /** The replayed event, if the replay emitted one at this position */
+  actual?: RecordedEvent;
+}
+
+/**
+ * A provider request that differs from the recorded one, e.g. because the prompt changed.
+ * The recorded reply is still returned.
+ */
+export interface RequestDifference {
+  role: ProviderRole;
+  /** Position of the call among the role's calls */
+  index: number;
+  expected?: ChatRequest;
+  actual: ChatRequest;
+}
+
+export interface ReplayResult {
+  /** True when the compared events are identical */
+  matches: boolean;
+  /** Every event the replay emitted */
+  events: RecordedEvent[];
+  differences: EventDifference[];
+  requestDifferences: RequestDifference[];
+}
+
+/**
+ * ConversationReplayer - Replays a recorded conversation deterministically
+ *
+ * Feeds the fixture's transcript changes to a fresh TranscriptMonitor at their recorded
+ * times on a virtual clock, answers provider requests with the recorded replies after
+ * their recorded latency, and compares the events the monitor emits with the recorded
+ * ones. No timers are waited on and no API is called; a tracer or rate limiter passed in
+ * the config keeps its own clock. For retries to match exactly, record
+ * with `retry: { jitter: 'none' }`.
+ *
+ * @example
+ * ```typescript
+ * const fixture = JSON.parse(await fs.readFile('fixtures/incident-1234.json', 'utf8'));
+ *
+ * test('incident 1234 stays fixed', async () => {
+ *   const result = await new ConversationReplayer(fixture, { ignoreEvents: ['responseDelta'] }).run();
+ *   expect(result.differences).toEqual([]);
+ * });
+ * ```
+ */
+export class ConversationReplayer {
+  /**
+   * @param fixture - A fixture from ConversationRecorder
+   * @param options - Config overrides and what to compare, see ReplayOptions
+   * @throws {Error} If the fixture was written by a newer version of the recorder
+   */
+  constructor(private fixture: ConversationFixture, private options: ReplayOptions = {}) {
+    if (fixture.version > FIXTURE_VERSION) {
+      throw new Error(`Unsupported fixture version: ${fixture.version}`);
+    }
+  }
+
+  /**
+   * Runs the replay on a virtual clock given to the monitor as its `clock`.
+   *
+   * @returns The replayed events and how they differ from the recording
+   */
+  async run(): Promise<ReplayResult> {
+    const { fixture } = this;
+    const clock = new VirtualClock(fixture.startedAt);
+    const requestDifferences: RequestDifference[] = [];
+
+    const monitor = new TranscriptMonitor(this.buildConfig(clock, requestDifferences));
+    const elapsed = () => clock.now() - fixture.startedAt;
+
+    const events: RecordedEvent[] = [];
+    MONITOR_EVENTS.forEach(name => {
+      monitor.on(name, (...args: unknown[]) => events.push({ at: elapsed(), name, args: toFixtureValue(args) }));
+    });
+
+    for (const input of fixture.inputs) {
+      await clock.advance(input.at - elapsed());
+      if (input.type === 'transcript') {
+        await monitor.updateTranscript(input.transcript);
+      } else if (input.type === 'segment') {
+        monitor.appendSegment(input.segment);
+      } else {
+        monitor.updateSegment(input.id, input.update);
+      }
+    }
+
+    // Let the last turn finish, including any timers it is still waiting on
+    const lastEventAt = Math.max(0, ...fixture.events.map(event => event.at));
+    await clock.advance(lastEventAt - elapsed());
+    await clock.runAll();
+    monitor.stop();
+
+    const differences = this.compare(fixture.events, events);
+    return { matches: differences.length === 0, events, differences, requestDifferences };
+  }
+
+  private buildConfig(clock: VirtualClock, requestDifferences: RequestDifference[]): MonitorConfig {
+    const recorded = this.fixture.config;
+    const overrides = this.options.config || {};
+    // A role recorded without a provider used rules or custom functions, so it gets none on replay
+    const provider = (role: ProviderRole) => this.fixture.providers[role]
+      ? new ReplayProvider(
+          role,
+          this.fixture.providers[role]!,
+          this.fixture.providerCalls.filter(call => call.role === role),
+          clock,
+          difference => requestDifferences.push(difference)
+        )
+      : 'custom';
+
+    return {
+      ...recorded,
+      ...overrides,
+      storage: new SimpleStorage(),
+      clock,
+      analyzer: { ...recorded.analyzer, ...overrides.analyzer, providers: undefined, provider: provider('analysis') },
+      generator: { ...recorded.generator, ...overrides.generator, providers: undefined, provider: provider('generation') }
+    };
+  }
+
+  private compare(expected: RecordedEvent[], actual: RecordedEvent[]): EventDifference[] {
+    const ignored = new Set(this.options.ignoreEvents || []);
+    const keep = (event: RecordedEvent) => !ignored.has(event.name);
+    const recorded = expected.filter(keep);
+    const replayed = actual.filter(keep);
+    const differences: EventDifference[] = [];
+
+    for (let index = 0; index < Math.max(recorded.length, replayed.length); index++) {
+      if (!this.sameEvent(recorded[index], replayed[index])) {
+        differences.push({ index, expected: recorded[index], actual: replayed[index] });
+      }
+    }
+    return differences;
+  }
+
+  private sameEvent(expected?: RecordedEvent, actual?: RecordedEvent): boolean {
+    if (!expected || !actual) return false;
+
+    const { timingToleranceMs } = this.options;
+    if (timingToleranceMs !== undefined && Math.abs(expected.at - actual.at) > timingToleranceMs) {
+      return false;
+    }
+    return expected.name === actual.name && JSON.stringify(expected.args) === JSON.stringify(actual.args);
+  }
+}
+
+/**
+ * Answers requests with the recorded replies of one role, in order
+ */
+class ReplayProvider implements LLMProvider {
+  readonly name: string;
+  readonly capabilities: ProviderCapabilities;
+  private index = 0;
+
+  constructor(
+    private role: ProviderRole,
+    recorded: { name: string; capabilities: ProviderCapabilities },
+    private calls: RecordedProviderCall[],
+    private clock: Clock,
+    private onRequestDifference: (difference: RequestDifference) => void
+  ) {
+    this.name = recorded.name;
+    this.capabilities = recorded.capabilities;
+  }
+
+  async chat(request: ChatRequest, options: ProviderCallOptions = {}): Promise<ChatResponse> {
+    const call = this.next(request);
+    await sleep(call.durationMs, options.signal, this.clock);
+    if (call.error) throw toError(call.error, this.name);
+
+    const response = call.response || { content: (call.deltas || []).map(delta => delta.text).join(''), toolCalls: [] };
+    // Usage is only reported if the recorded provider reported it
+    if (call.usage) options.onUsage?.(call.usage);
+    return response;
+  }
+
+  async *stream(request: ChatRequest, options: ProviderCallOptions = {}): AsyncGenerator<string> {
+    const call = this.next(request);
+    const deltas = call.deltas || (call.response ? [{ afterMs: call.durationMs, text: call.response.content }] : []);
+
+    let waited = 0;
+    for (const delta of deltas) {
+      await sleep(delta.afterMs - waited, options.signal, this.clock);
+      waited = delta.afterMs;
+      yield delta.text;
+    }
+    await sleep(call.durationMs - waited, options.signal, this.clock);
+
+    if (call.error) throw toError(call.error, this.name);
+    if (call.usage) options.onUsage?.(call.usage);
+  }
+
+  private next(request: ChatRequest): RecordedProviderCall {
+    const index = this.index++;
+    const call = this.calls[index];
+
+    const actual = toFixtureValue(request);
+    if (JSON.stringify(actual) !== JSON.stringify(call?.request)) {
+      this.onRequestDifference({ role: this.role, index, expected: call?.request, actual });
+    }
+
+    if (!call) {
+      throw new ProviderError(`${this.name} API error: no recorded ${this.role} reply for call ${index + 1}`, {
+        provider: this.name,
+        code: 'unavailable',
+        retryable: false
+      });
+    }
+    return call;
+  }
+}
+
+function toError(recorded: RecordedError, provider: string): Error {
+  if (recorded.name === 'AbortError') return createAbortError(recorded.message);
+
+  if (recorded.name === 'ProviderError') {
+    return new ProviderError(recorded.message, {
+      provider,
+      code: (recorded.code || 'unknown') as ProviderErrorCode,
+      status: recorded.status,
+      retryable: recorded.retryable,
+      retryAfterMs: recorded.retryAfterMs
+    });
+  }
+
+  return Object.assign(new Error(recorded.message), {
+    name: recorded.name,
+    ...(recorded.retryable !== undefined ? { retryable: recorded.retryable } : {})
+  });
+}
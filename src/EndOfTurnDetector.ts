@@ -0,0 +1,237 @@
+import { AnalysisContext, TranscriptSegment } from './types';
+import { LANGUAGE_PACKS, LanguagePack, endsSentence } from './LanguagePack';
+
+/**
+ * How likely it is that the speaker has finished their turn
+ */
+export interface EndOfTurnPrediction {
+  /** Probability between 0 and 1 that the turn is complete */
+  probability: number;
+  /** Silence after which this speaker is considered done, in ms */
+  silenceThresholdMs: number;
+  /** Names of the cues that moved the probability, e.g. 'trailing-conjunction' */
+  signals: string[];
+  /** Short explanation of the strongest cue */
+  reason: string;
+}
+
+/**
+ * Decides whether the speaker has finished their turn. Implement it to plug in a trained
+ * end-of-turn model; `HeuristicEndOfTurnDetector` is the built-in one.
+ */
+export interface EndOfTurnDetector {
+  detect(transcript: string, context: AnalysisContext): EndOfTurnPrediction | Promise<EndOfTurnPrediction>;
+}
+
+export interface HeuristicEndOfTurnOptions {
+  /** Silence that ends the turn of a speaker talking at an average rate, in ms (default: 1000) */
+  baseSilenceMs?: number;
+  /** Shortest silence threshold, reached by fast speakers and short commands (default: 400) */
+  minSilenceMs?: number;
+  /** Longest silence threshold, reached by slow speakers (default: 3000) */
+  maxSilenceMs?: number;
+  /**
+   * Words that suggest the speaker is not done when they end an utterance
+   * (default: those of the analyzed language's pack, TRAILING_WORDS for English)
+   */
+  trailingWords?: string[];
+  /** Hesitation words and phrases (default: those of the analyzed language's pack, FILLERS for English) */
+  fillers?: string[];
+  /** Weight of each new segment in a speaker's learned speech rate, between 0 and 1 (default: 0.2) */
+  learningRate?: number;
+}
+
+/**
+ * Conjunctions, articles, prepositions and auxiliaries that rarely end a finished sentence
+ */
+export const TRAILING_WORDS = LANGUAGE_PACKS.en.trailingWords!;
+
+/**
+ * Hesitations that mean the speaker is still thinking
+ */
+export const FILLERS = LANGUAGE_PACKS.en.fillers;
+
+const CONJUNCTIONS = new Set(['and', 'but', 'or', 'nor', 'so', 'because', 'then', 'plus', 'whereas']);
+
+// Words that open a dependent clause; without a comma the main clause has not been said yet
+const SUBORDINATORS = /^(if|when|because|although|though|while|since|unless|whether|once|until|after|before)\b/i;
+
+/** Average conversational speech rate, in words per second */
+const REFERENCE_WORDS_PER_SECOND = 2.5;
+
+/** Utterances this short with no sign of continuing are treated as commands */
+const SHORT_COMMAND_WORDS = 4;
+
+// Contributions to the log-odds that the turn is complete
+const WEIGHTS = {
+  terminalPunctuation: 1.5,
+  openPunctuation: -2,
+  trailingWord: -2.5,
+  filler: -2.5,
+  dependentClause: -1.5,
+  /** Scale of the silence cue; silence at the threshold contributes nothing */
+  silence: 2.5
+};
+
+const SIGNAL_REASONS: Record<string, string> = {
+  'terminal-punctuation': 'Ends a sentence',
+  'open-punctuation': 'Ends mid-sentence',
+  'trailing-conjunction': 'Ends with a conjunction',
+  'trailing-word': 'Ends on a word that expects more',
+  'trailing-filler': 'Ends with a filler',
+  'dependent-clause': 'Dependent clause without a main clause',
+  'long-silence': 'Long silence',
+  'short-silence': 'Short silence'
+};
+
+/**
+ * HeuristicEndOfTurnDetector - Predicts turn completion from wording, pauses and speech rate
+ *
+ * Combines cues into a completion probability:
+ * - Sentence-final punctuation makes completion more likely
+ * - Trailing conjunctions, articles and prepositions, fillers such as "um", a trailing comma
+ *   or a dependent clause without its main clause make it less likely
+ * - Silence counts relative to a threshold learned per speaker from segment timing, so slow
+ *   speakers get longer pauses and short commands get answered sooner
+ *
+ * @example
+ * ```typescript
+ * const monitor = new TranscriptMonitor({
+ *   analyzer: {
+ *     provider: 'openai',
+ *     apiKey: process.env.OPENAI_API_KEY,
+ *     endOfTurnDetector: new HeuristicEndOfTurnDetector({ baseSilenceMs: 800 })
+ *   }
+ * });
+ * ```
+ */
+export class HeuristicEndOfTurnDetector implements EndOfTurnDetector {
+  private options: Required<Omit<HeuristicEndOfTurnOptions, 'trailingWords' | 'fillers'>>;
+  private customWords: Pick<HeuristicEndOfTurnOptions, 'trailingWords' | 'fillers'>;
+  /** Trailing words and fillers prepared for each language seen */
+  private wordLists = new Map<LanguagePack, { trailingWords: Set<string>; fillers: string[] }>();
+  /** Learned words per second by speaker; '' holds unlabelled speech */
+  private speechRates = new Map<string, number>();
+  /** Segments already learned from, as they are seen again until the turn is answered */
+  private learnedSegments = new Set<string>();
+
+  /**
+   * @param options - Silence thresholds, word lists and learning rate, see HeuristicEndOfTurnOptions
+   */
+  constructor(options: HeuristicEndOfTurnOptions = {}) {
+    this.options = {
+      baseSilenceMs: options.baseSilenceMs ?? 1000,
+      minSilenceMs: options.minSilenceMs ?? 400,
+      maxSilenceMs: options.maxSilenceMs ?? 3000,
+      learningRate: options.learningRate ?? 0.2
+    };
+    this.customWords = { trailingWords: options.trailingWords, fillers: options.fillers };
+  }
+
+  detect(transcript: string, context: AnalysisContext): EndOfTurnPrediction {
+    context.segments?.forEach(segment => this.learn(segment));
+
+    const language = context.language || LANGUAGE_PACKS.en;
+    const { trailingWords, fillers } = this.getWordLists(language);
+    const text = transcript.trim();
+    const words = text.toLowerCase().match(/[\p{L}\p{N}']+/gu) || [];
+    const lastWord = words[words.length - 1] || '';
+    const cues: { signal: string; weight: number }[] = [];
+
+    const punctuated = endsSentence(text, language);
+    if (punctuated) {
+      cues.push({ signal: 'terminal-punctuation', weight: WEIGHTS.terminalPunctuation });
+    } else if (/([,;:\-–—、，]|\.\.\.|…)$/.test(text)) {
+      cues.push({ signal: 'open-punctuation', weight: WEIGHTS.openPunctuation });
+    }
+
+    const unpunctuated = !punctuated;
+    const filler = fillers.find(candidate => words.slice(-candidate.split(' ').length).join(' ') === candidate);
+    if (filler && unpunctuated) {
+      cues.push({ signal: 'trailing-filler', weight: WEIGHTS.filler });
+    } else if (trailingWords.has(lastWord) && unpunctuated) {
+      cues.push({ signal: CONJUNCTIONS.has(lastWord) ? 'trailing-conjunction' : 'trailing-word', weight: WEIGHTS.trailingWord });
+    }
+
+    if (SUBORDINATORS.test(text) && !/[,?]/.test(text)) {
+      cues.push({ signal: 'dependent-clause', weight: WEIGHTS.dependentClause });
+    }
+
+    const incomplete = cues.some(cue => cue.weight < 0);
+    let silenceThresholdMs = this.getSilenceThreshold(context.speaker);
+    if (!incomplete && words.length <= SHORT_COMMAND_WORDS) {
+      silenceThresholdMs = Math.max(this.options.minSilenceMs, silenceThresholdMs * 0.6);
+    }
+
+    const silence = Math.max(-1, Math.min(1, context.silenceDuration / silenceThresholdMs - 1));
+    cues.push({ signal: silence >= 0 ? 'long-silence' : 'short-silence', weight: WEIGHTS.silence * silence });
+
+    const logit = cues.reduce((total, cue) => total + cue.weight, 0);
+    // The reason is the strongest cue pointing the same way as the prediction
+    const strongest = cues
+      .filter(cue => (logit >= 0) === (cue.weight >= 0))
+      .sort((a, b) => Math.abs(b.weight) - Math.abs(a.weight))[0];
+
+    return {
+      probability: Math.round(1000 / (1 + Math.exp(-logit))) / 1000,
+      silenceThresholdMs: Math.round(silenceThresholdMs),
+      signals: cues.filter(cue => cue.weight !== 0).map(cue => cue.signal),
+      reason: SIGNAL_REASONS[strongest.signal]
+    };
+  }
+
+  /**
+   * Returns the silence after which a speaker is considered done, based on their learned speech rate.
+   *
+   * @param speaker - Speaker label; omit for unlabelled speech
+   */
+  getSilenceThreshold(speaker?: string): number {
+    const rate = this.speechRates.get(speaker || '');
+    const { baseSilenceMs, minSilenceMs, maxSilenceMs } = this.options;
+    const scaled = rate ? baseSilenceMs * REFERENCE_WORDS_PER_SECOND / rate : baseSilenceMs;
+    return Math.max(minSilenceMs, Math.min(maxSilenceMs, scaled));
+  }
+
+  /**
+   * Forgets every learned speech rate.
+   */
+  reset() {
+    this.speechRates.clear();
+    this.learnedSegments.clear();
+  }
+
+  private getWordLists(language: LanguagePack): { trailingWords: Set<string>; fillers: string[] } {
+    let lists = this.wordLists.get(language);
+    if (!lists) {
+      const trailingWords = this.customWords.trailingWords || language.trailingWords || [];
+      const fillers = this.customWords.fillers || language.fillers;
+      lists = {
+        trailingWords: new Set(trailingWords.map(word => word.toLowerCase())),
+        // Longest first, so 'umm' is not mistaken for 'um' and phrases win over their last word
+        fillers: fillers.map(filler => filler.toLowerCase()).sort((a, b) => b.length - a.length)
+      };
+      this.wordLists.set(language, lists);
+    }
+    return lists;
+  }
+
+  private learn(segment: TranscriptSegment) {
+    if (!segment.isFinal || this.learnedSegments.has(segment.id)) return;
+
+    const wordCount = segment.words?.length || segment.text.split(/\s+/).filter(word => word).length;
+    const start = segment.words?.[0]?.start ?? segment.start;
+    const end = segment.words?.[segment.words.length - 1]?.end ?? segment.end;
+    // Timing of a word or two says little about how fast someone talks
+    if (start === undefined || end === undefined || end <= start || wordCount < 3) return;
+
+    this.learnedSegments.add(segment.id);
+    if (this.learnedSegments.size > 1000) {
+      this.learnedSegments.delete(this.learnedSegments.values().next().value!);
+    }
+
+    const rate = wordCount / ((end - start) / 1000);
+    const key = segment.speaker || '';
+    const previous = this.speechRates.get(key);
+    this.speechRates.set(key, previous === undefined ? rate : previous + (rate - previous) * this.options.learningRate);
+  }
+}
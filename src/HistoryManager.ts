@@ -0,0 +1,164 @@
+import { HistoryConfig, Message } from './types';
+
+/**
+ * Folds messages that no longer fit the budget into the running summary
+ */
+export type Summarizer = (messages: Message[], previousSummary: string, signal?: AbortSignal) => Promise<string>;
+
+/**
+ * Token budgets for conversation history, matched by model name prefix (longest prefix wins).
+ * These are deliberately well below each model's context window to leave room for the
+ * system prompt, the current turn and the response.
+ */
+export const HISTORY_TOKEN_BUDGETS: Record<string, number> = {
+  'gpt-4o-mini': 16000,
+  'gpt-4o': 16000,
+  'gpt-4-turbo': 16000,
+  'gpt-4': 4000,
+  'gpt-3.5-turbo': 4000,
+  'claude-3': 16000,
+  'claude-3-5': 32000
+};
+
+const DEFAULT_HISTORY_TOKEN_BUDGET = 4000;
+
+/**
+ * Rough token estimate of about four characters per token, which is close enough
+ * for budgeting English text without shipping a tokenizer.
+ *
+ * @param text - The text to measure
+ * @returns Estimated number of tokens
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Returns the history token budget for a model.
+ *
+ * @param model - Model name, e.g. 'gpt-4o' (optional)
+ * @returns The budget from HISTORY_TOKEN_BUDGETS, or 4000 for unknown models
+ */
+export function getHistoryTokenBudget(model?: string): number {
+  if (!model) return DEFAULT_HISTORY_TOKEN_BUDGET;
+
+  const prefix = Object.keys(HISTORY_TOKEN_BUDGETS)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? HISTORY_TOKEN_BUDGETS[prefix] : DEFAULT_HISTORY_TOKEN_BUDGET;
+}
+
+/**
+ * Result of fitting the history into its budget
+ */
+export interface FitResult {
+  /** The messages that fit the budget */
+  history: Message[];
+  /** The running summary, including any newly folded messages */
+  summary: string;
+  /** Messages removed from the history on this call */
+  folded: Message[];
+  /** Why summarizing the folded messages failed; they are dropped and the previous summary kept */
+  error?: unknown;
+}
+
+// Per-message overhead for role and formatting tokens
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * HistoryManager - Keeps conversation history within a token budget
+ *
+ * When the history grows past the budget, the oldest messages are removed and folded
+ * into a running summary so older facts are condensed rather than silently dropped.
+ *
+ * @example
+ * ```typescript
+ * const manager = new HistoryManager(
+ *   { maxTokens: 2000 },
+ *   async (messages, previousSummary) => summarizeWithMyModel(messages, previousSummary)
+ * );
+ *
+ * const { history, summary } = await manager.fit(conversationHistory);
+ * ```
+ */
+export class HistoryManager {
+  private maxTokens: number;
+  private tokenizer: (text: string) => number;
+  private summary: string = '';
+
+  /**
+   * @param config - History budget configuration
+   * @param config.maxTokens - Token budget for the history (default: based on `model`)
+   * @param config.tokenizer - Token counting function (default: `estimateTokens`)
+   * @param summarizer - Function that folds removed messages into the summary; without one they are dropped
+   * @param model - Generator model used to pick the default budget
+   */
+  constructor(config: HistoryConfig = {}, private summarizer?: Summarizer, model?: string) {
+    this.maxTokens = config.maxTokens ?? getHistoryTokenBudget(model);
+    this.tokenizer = config.tokenizer || estimateTokens;
+  }
+
+  /**
+   * Returns the running summary of messages that no longer fit the budget.
+   */
+  getSummary(): string {
+    return this.summary;
+  }
+
+  /**
+   * Replaces the running summary, e.g. when restoring a saved conversation.
+   *
+   * @param summary - The summary text
+   */
+  setSummary(summary: string) {
+    this.summary = summary;
+  }
+
+  /**
+   * Counts the tokens used by a list of messages.
+   *
+   * @param messages - The messages to measure
+   * @returns Total tokens including per-message overhead
+   */
+  countTokens(messages: Message[]): number {
+    return messages.reduce((total, message) => total + this.tokenizer(message.content) + MESSAGE_OVERHEAD_TOKENS, 0);
+  }
+
+  /**
+   * Removes the oldest messages until the history fits the budget and folds them into the summary.
+   * If summarization fails, the previous summary is kept, the removed messages are dropped
+   * and the failure is returned as `error`.
+   *
+   * @param history - The full conversation history
+   * @param signal - Optional AbortSignal passed to the summarizer
+   * @returns The fitted history, the updated summary and the removed messages
+   */
+  async fit(history: Message[], signal?: AbortSignal): Promise<FitResult> {
+    let start = 0;
+    let tokens = this.countTokens(history);
+
+    while (start < history.length && tokens > this.maxTokens) {
+      tokens -= this.countTokens([history[start]]);
+      start++;
+    }
+
+    // Never leave an assistant reply without the user turn it answered
+    while (start < history.length && history[start].role !== 'user') {
+      start++;
+    }
+
+    const folded = history.slice(0, start);
+    let error: unknown;
+
+    if (folded.length > 0 && this.summarizer) {
+      try {
+        this.summary = await this.summarizer(folded, this.summary, signal);
+      } catch (summaryError) {
+        error = summaryError;
+      }
+    }
+
+    return { history: history.slice(start), summary: this.summary, folded, error };
+  }
+}
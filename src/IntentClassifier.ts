@@ -0,0 +1,149 @@
+import { QuestionClassification } from './QuestionClassifier';
+import { keywordPattern } from './RuleEngine';
+
+/**
+ * One kind of turn an application routes differently, e.g. a handoff to a human
+ */
+export interface IntentDefinition {
+  label: string;
+  /** What the intent means, shown to the AI analyzer */
+  description?: string;
+  /** Words or phrases that signal the intent in rule-based mode, as whole words ignoring case */
+  keywords?: string[];
+  /** Patterns that signal the intent in rule-based mode */
+  patterns?: RegExp[];
+  /** Also matches text the question classifier recognizes as one of these kinds */
+  questionKinds?: ('question' | 'request')[];
+}
+
+/**
+ * What kind of response a turn needs
+ */
+export interface AnalysisIntent {
+  /** Label of the matching IntentDefinition */
+  label: string;
+  /** Confidence between 0 and 1 */
+  confidence: number;
+  /** Whether the AI analyzer chose the intent or keywords and patterns matched it */
+  source: 'ai' | 'keywords';
+}
+
+/**
+ * A question, command, small talk, complaint or request to speak to a person.
+ * Listed from most to least specific, as the first match wins in rule-based mode.
+ */
+export const DEFAULT_INTENTS: IntentDefinition[] = [
+  {
+    label: 'handoff',
+    description: 'Asks to speak to a human instead of the assistant',
+    keywords: [
+      'human', 'real person', 'a person', 'someone real', 'agent', 'representative', 'operator',
+      'customer service', 'your manager', 'speak to someone', 'talk to someone'
+    ]
+  },
+  {
+    label: 'complaint',
+    description: 'Expresses frustration or dissatisfaction',
+    keywords: [
+      'not working', "doesn't work", "isn't working", 'broken', 'terrible', 'awful', 'frustrated', 'frustrating',
+      'annoyed', 'annoying', 'unacceptable', 'disappointed', 'complaint', 'ridiculous', 'fed up'
+    ]
+  },
+  {
+    label: 'small-talk',
+    description: 'Chit-chat that needs a friendly reply rather than an action or information',
+    keywords: [
+      'how are you', "how's it going", 'how is it going', "what's up", 'nice to meet you', 'good to see you',
+      'how was your day', 'how was your weekend', 'have a good one', 'have a nice day'
+    ]
+  },
+  {
+    label: 'command',
+    description: 'Tells the assistant to do something',
+    patterns: [
+      /^(please\s+)?(turn|set|start|stop|open|close|send|call|book|schedule|add|remove|delete|play|pause|cancel|create|move|update|mute|unmute|record)\b/i
+    ]
+  },
+  {
+    label: 'question',
+    description: 'Asks for information or help',
+    questionKinds: ['question', 'request']
+  }
+];
+
+const KEYWORD_CONFIDENCE = 0.6;
+const EXTRA_MATCH_CONFIDENCE = 0.1;
+const MAX_KEYWORD_CONFIDENCE = 0.9;
+
+/**
+ * IntentClassifier - Labels a turn with the first matching intent
+ *
+ * The keyword fallback behind the analyzer's `intent` when no AI provider chooses one.
+ * Each intent matches on its keywords and patterns, with more matches giving more
+ * confidence, or on the question classifier's verdict.
+ *
+ * @example
+ * ```typescript
+ * const classifier = new IntentClassifier([
+ *   { label: 'billing', keywords: ['invoice', 'refund', 'charged'] },
+ *   ...DEFAULT_INTENTS
+ * ]);
+ *
+ * classifier.classify('I was charged twice for my invoice');
+ * // { label: 'billing', confidence: 0.7, source: 'keywords' }
+ * ```
+ */
+export class IntentClassifier {
+  private intents: { definition: IntentDefinition; keywords?: RegExp }[];
+
+  /**
+   * @param intents - Intents in priority order (default: DEFAULT_INTENTS)
+   * @throws {Error} If two intents share a label
+   */
+  constructor(intents: IntentDefinition[] = DEFAULT_INTENTS) {
+    const labels = new Set<string>();
+    intents.forEach(intent => {
+      if (labels.has(intent.label)) throw new Error(`Duplicate intent label: ${intent.label}`);
+      labels.add(intent.label);
+    });
+
+    this.intents = intents.map(definition => ({
+      definition,
+      keywords: definition.keywords?.length
+        ? new RegExp(keywordPattern(definition.keywords).source, 'giu')
+        : undefined
+    }));
+  }
+
+  /**
+   * Labels of the intents, in priority order.
+   */
+  get labels(): string[] {
+    return this.intents.map(intent => intent.definition.label);
+  }
+
+  /**
+   * Finds the first intent that matches the text.
+   *
+   * @param text - Text of the turn
+   * @param question - How the question classifier scored the text, for intents with `questionKinds`
+   * @returns The intent, or undefined if none matches
+   */
+  classify(text: string, question?: QuestionClassification): AnalysisIntent | undefined {
+    const normalized = text.replace(/’/g, "'");
+
+    for (const { definition, keywords } of this.intents) {
+      const matches = (keywords ? normalized.match(keywords)?.length || 0 : 0) +
+        (definition.patterns || []).filter(pattern => new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, '')).test(normalized)).length;
+      if (matches > 0) {
+        const confidence = Math.min(MAX_KEYWORD_CONFIDENCE, KEYWORD_CONFIDENCE + (matches - 1) * EXTRA_MATCH_CONFIDENCE);
+        return { label: definition.label, confidence: Math.round(confidence * 100) / 100, source: 'keywords' };
+      }
+
+      if (question?.isQuestion && question.kind && definition.questionKinds?.includes(question.kind)) {
+        return { label: definition.label, confidence: question.confidence, source: 'keywords' };
+      }
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,264 @@
+/**
+ * The words and punctuation the analyzer looks for in one language
+ */
+export interface LanguagePack {
+  /** ISO 639-1 code, e.g. 'en' */
+  code: string;
+  name: string;
+  /** Characters that mark a question anywhere in the text, e.g. '?' or Spanish '¿' */
+  questionMarks: string[];
+  /**
+   * Words or phrases that open a question, for speech-to-text that drops the question mark.
+   * Packs for languages written without spaces match them anywhere in the last sentence.
+   */
+  questionWords: string[];
+  /** Particles that end a question, e.g. Japanese 'か' (default: none) */
+  questionEndings?: string[];
+  /** Words or phrases that open a greeting */
+  greetings: string[];
+  /** Hesitations that mean the speaker is still thinking */
+  fillers: string[];
+  /** Words that rarely end a finished sentence (default: none) */
+  trailingWords?: string[];
+  /** Characters that end a sentence */
+  sentenceEnders: string[];
+  /** Frequent words that identify the language, used by `detectLanguage` */
+  commonWords: string[];
+  /** Characters only this language is written in, e.g. Japanese kana, used by `detectLanguage` */
+  script?: RegExp;
+  /** Written without spaces between words, so each letter counts as a word */
+  unspaced?: boolean;
+}
+
+const en: LanguagePack = {
+  code: 'en',
+  name: 'English',
+  questionMarks: ['?'],
+  questionWords: [
+    'what', 'when', 'where', 'who', 'whom', 'whose', 'why', 'how', 'which',
+    'can you', 'could you', 'would you', 'will you', 'do you', 'did you', 'have you', 'are you',
+    'is it', 'is there', 'are there', 'should i', 'should we', 'may i', 'shall we'
+  ],
+  greetings: ['hi', 'hello', 'hey', 'hiya', 'heya', 'howdy', 'good morning', 'good afternoon', 'good evening'],
+  fillers: ['um', 'umm', 'uh', 'uhh', 'uhm', 'er', 'erm', 'hmm', 'mm', 'like', 'you know', 'i mean', 'kind of', 'sort of'],
+  trailingWords: [
+    'and', 'but', 'or', 'nor', 'so', 'because', 'then', 'plus', 'if', 'that', 'which', 'who', 'whereas',
+    'the', 'a', 'an', 'my', 'your', 'our', 'their', 'his', 'this',
+    'to', 'of', 'for', 'with', 'from', 'about', 'into', 'at', 'by', 'on', 'in',
+    'is', 'are', 'was', 'were', 'am', 'be', 'will', 'would', 'can', 'could', 'should', 'must',
+    'i', 'we', 'they', 'he', 'she', 'very', 'really'
+  ],
+  sentenceEnders: ['.', '!', '?'],
+  commonWords: [
+    'the', 'and', 'is', 'are', 'you', 'i', 'it', 'to', 'of', 'that', 'this', 'what', 'with',
+    'for', 'have', 'can', 'do', 'not', 'be', 'we', 'hello', 'thanks', 'yes', 'please'
+  ]
+};
+
+const es: LanguagePack = {
+  code: 'es',
+  name: 'Spanish',
+  questionMarks: ['?', '¿'],
+  questionWords: [
+    'qué', 'quién', 'quiénes', 'cuál', 'cuáles', 'cuándo', 'dónde', 'adónde', 'cómo', 'por qué',
+    'cuánto', 'cuánta', 'cuántos', 'cuántas', 'puedes', 'podrías', 'puede', 'podría', 'sabes', 'tienes'
+  ],
+  greetings: ['hola', 'buenos días', 'buenas tardes', 'buenas noches', 'buenas', 'qué tal'],
+  fillers: ['eh', 'em', 'mmm', 'este', 'pues', 'bueno', 'o sea', 'es que'],
+  trailingWords: [
+    'y', 'o', 'pero', 'porque', 'que', 'si', 'el', 'la', 'los', 'las', 'un', 'una',
+    'de', 'del', 'con', 'para', 'en', 'por', 'a', 'mi', 'tu', 'su', 'muy'
+  ],
+  sentenceEnders: ['.', '!', '?'],
+  commonWords: [
+    'el', 'la', 'los', 'las', 'de', 'que', 'y', 'en', 'es', 'por', 'para', 'con', 'una', 'está',
+    'pero', 'muy', 'yo', 'qué', 'cómo', 'hola', 'gracias', 'sí', 'puedes', 'tengo'
+  ]
+};
+
+const fr: LanguagePack = {
+  code: 'fr',
+  name: 'French',
+  questionMarks: ['?'],
+  questionWords: [
+    'quoi', 'qui', 'quand', 'où', 'comment', 'pourquoi', 'combien', 'quel', 'quelle', 'quels', 'quelles',
+    'est-ce que', "qu'est-ce que", 'peux-tu', 'pouvez-vous', 'as-tu', 'avez-vous', 'sais-tu', 'savez-vous'
+  ],
+  greetings: ['bonjour', 'salut', 'bonsoir', 'coucou', 'allô'],
+  fillers: ['euh', 'ben', 'bah', 'hum', 'genre', 'tu sais', 'en fait'],
+  trailingWords: [
+    'et', 'ou', 'mais', 'donc', 'parce', 'que', 'si', 'le', 'la', 'les', 'un', 'une',
+    'de', 'du', 'des', 'à', 'pour', 'avec', 'dans', 'mon', 'ton', 'son', 'très'
+  ],
+  sentenceEnders: ['.', '!', '?'],
+  commonWords: [
+    'le', 'la', 'les', 'de', 'des', 'est', 'et', 'je', 'tu', 'vous', 'nous', 'pas', 'que', 'qui',
+    'une', 'pour', 'avec', 'dans', "c'est", 'bonjour', 'merci', 'oui', 'très', 'peux'
+  ]
+};
+
+const de: LanguagePack = {
+  code: 'de',
+  name: 'German',
+  questionMarks: ['?'],
+  questionWords: [
+    'was', 'wer', 'wann', 'wo', 'wie', 'warum', 'wieso', 'weshalb', 'welche', 'welcher', 'welches',
+    'woher', 'wohin', 'kannst du', 'können sie', 'hast du', 'haben sie', 'bist du', 'sind sie', 'gibt es', 'weißt du'
+  ],
+  greetings: ['hallo', 'guten morgen', 'guten tag', 'guten abend', 'moin', 'servus', 'grüß gott'],
+  fillers: ['äh', 'ähm', 'öh', 'hm', 'halt', 'sozusagen', 'naja'],
+  trailingWords: [
+    'und', 'oder', 'aber', 'weil', 'dass', 'wenn', 'der', 'die', 'das', 'ein', 'eine', 'einen',
+    'mit', 'für', 'zu', 'von', 'in', 'auf', 'mein', 'dein', 'sehr'
+  ],
+  sentenceEnders: ['.', '!', '?'],
+  commonWords: [
+    'der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'du', 'sie', 'wir', 'ein', 'eine', 'zu', 'mit',
+    'auf', 'für', 'es', 'auch', 'wie', 'hallo', 'danke', 'ja', 'bitte', 'kannst'
+  ]
+};
+
+const ja: LanguagePack = {
+  code: 'ja',
+  name: 'Japanese',
+  questionMarks: ['？', '?'],
+  questionWords: ['どこ', 'いつ', 'だれ', '誰', 'なぜ', 'どうして', 'どれ', 'いくら', '何時'],
+  questionEndings: ['か', 'かな', 'かしら'],
+  greetings: ['こんにちは', 'おはよう', 'こんばんは', 'もしもし', 'やあ'],
+  fillers: ['えーと', 'えっと', 'あの', 'あのー', 'まあ', 'うーん'],
+  sentenceEnders: ['。', '！', '？', '.', '!', '?'],
+  commonWords: [],
+  script: /[\u3040-\u30ff]/,
+  unspaced: true
+};
+
+const zh: LanguagePack = {
+  code: 'zh',
+  name: 'Chinese',
+  questionMarks: ['？', '?'],
+  questionWords: ['什么', '为什么', '怎么', '哪里', '哪儿', '谁', '几点', '多少'],
+  questionEndings: ['吗', '呢'],
+  greetings: ['你好', '您好', '早上好', '晚上好', '嗨', '喂'],
+  fillers: ['那个', '就是', '嗯', '呃', '然后'],
+  sentenceEnders: ['。', '！', '？', '.', '!', '?'],
+  commonWords: [],
+  script: /[\u4e00-\u9fff]/,
+  unspaced: true
+};
+
+/**
+ * Built-in language packs. Japanese comes before Chinese so that text with kana and kanji
+ * is detected as Japanese.
+ */
+export const LANGUAGE_PACKS: Record<string, LanguagePack> = { en, es, fr, de, ja, zh };
+
+// Closing quotes and brackets that may follow the end of a sentence
+const CLOSERS = /["'”’)\]」』]+$/;
+
+function words(text: string): string[] {
+  return text.toLowerCase().replace(/’/g, "'").match(/[\p{L}\p{N}']+/gu) || [];
+}
+
+function startsWithPhrase(text: string, phrases: string[], pack: LanguagePack): boolean {
+  if (pack.unspaced) {
+    const start = text.replace(/^[^\p{L}\p{N}]+/u, '');
+    return phrases.some(phrase => start.startsWith(phrase));
+  }
+
+  const opening = words(text);
+  return phrases.some(phrase => {
+    const phraseWords = words(phrase);
+    return phraseWords.length > 0 && phraseWords.every((word, index) => opening[index] === word);
+  });
+}
+
+function lastSentence(text: string, pack: LanguagePack): string {
+  const enders = pack.sentenceEnders.map(ender => ender.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|');
+  const sentences = text.trim().split(new RegExp(`(?:${enders})+`)).filter(sentence => sentence.trim());
+  return sentences[sentences.length - 1] || '';
+}
+
+/**
+ * Counts words, or letters for languages written without spaces.
+ *
+ * @param text - Text to count
+ * @param pack - Language of the text
+ */
+export function countWords(text: string, pack: LanguagePack): number {
+  return pack.unspaced
+    ? (text.match(/[\p{L}\p{N}]/gu) || []).length
+    : text.split(/\s+/).filter(word => word.length > 0).length;
+}
+
+/**
+ * Whether the text ends a sentence, ignoring closing quotes and brackets. A trailing
+ * ellipsis means the speaker trailed off.
+ *
+ * @param text - Text to check
+ * @param pack - Language of the text
+ */
+export function endsSentence(text: string, pack: LanguagePack): boolean {
+  const trimmed = text.trim().replace(CLOSERS, '');
+  if (/(\.\.\.|…)$/.test(trimmed)) return false;
+  return pack.sentenceEnders.some(ender => trimmed.endsWith(ender));
+}
+
+/**
+ * Whether the text asks a question: it contains a question mark, or its last sentence has
+ * no ending punctuation and opens with a question word or ends with a question particle.
+ *
+ * @param text - Text to check
+ * @param pack - Language of the text
+ */
+export function isQuestion(text: string, pack: LanguagePack): boolean {
+  if (pack.questionMarks.some(mark => text.includes(mark))) return true;
+  // A sentence that was punctuated as a statement is one
+  if (endsSentence(text, pack)) return false;
+
+  const sentence = lastSentence(text, pack).trim().replace(/[^\p{L}\p{N}]+$/u, '');
+  if (pack.unspaced) {
+    if (pack.questionWords.some(word => sentence.includes(word))) return true;
+  } else if (startsWithPhrase(sentence, pack.questionWords, pack)) {
+    return true;
+  }
+
+  const last = words(sentence).pop() || '';
+  return (pack.questionEndings || []).some(ending => pack.unspaced ? sentence.endsWith(ending) : last === ending);
+}
+
+/**
+ * Whether the text opens with a greeting.
+ *
+ * @param text - Text to check
+ * @param pack - Language of the text
+ */
+export function isGreeting(text: string, pack: LanguagePack): boolean {
+  return startsWithPhrase(text.replace(/^[¡¿]/, ''), pack.greetings, pack);
+}
+
+/**
+ * Guesses the language of a text. A pack whose script appears wins, the first one if
+ * several do; otherwise the pack with the most common words in the text.
+ *
+ * @param text - Text to check
+ * @param packs - Candidate languages (default: the built-in packs)
+ * @returns The best pack, or undefined if no pack's script or common words appear
+ */
+export function detectLanguage(text: string, packs: LanguagePack[] = Object.values(LANGUAGE_PACKS)): LanguagePack | undefined {
+  const byScript = packs.find(pack => pack.script?.test(text));
+  if (byScript) return byScript;
+
+  const textWords = words(text);
+  let best: LanguagePack | undefined;
+  let bestScore = 0;
+  for (const pack of packs) {
+    const common = new Set(pack.commonWords.map(word => word.toLowerCase()));
+    let score = textWords.filter(word => common.has(word)).length;
+    if (pack.questionMarks.some(mark => mark !== '?' && text.includes(mark))) score += 2;
+    if (score > bestScore) {
+      best = pack;
+      bestScore = score;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,266 @@
+/**
+ * Default histogram bucket upper bounds in milliseconds
+ */
+export const DEFAULT_LATENCY_BUCKETS = [50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000];
+
+export interface MetricsOptions {
+  /** Histogram bucket upper bounds in milliseconds (default: DEFAULT_LATENCY_BUCKETS) */
+  buckets?: number[];
+  /** Number of recent samples percentiles are computed over (default: 1000) */
+  windowSize?: number;
+}
+
+/**
+ * Timed pipeline stages
+ * - `debounceWait`: from the first transcript change of a burst until the debounce fires
+ * - `analysis`: deciding whether to respond, including retries
+ * - `generation`: producing the full response, including retries and tool calls
+ * - `timeToFirstToken`: from the start of generation to the first streamed delta (streaming only)
+ */
+export type LatencyMetric = 'debounceWait' | 'analysis' | 'generation' | 'timeToFirstToken';
+
+/**
+ * How a turn ended
+ * - `responded`: a response was generated
+ * - `skipped`: the analysis decided not to respond
+ * - `errored`: analysis or generation failed
+ * - `cancelled`: the turn was aborted, e.g. by a barge-in
+ */
+export type TurnOutcome = 'responded' | 'skipped' | 'errored' | 'cancelled';
+
+export interface HistogramSnapshot {
+  /** Samples observed since the collector was created or reset */
+  count: number;
+  /** Sum of all samples, in ms */
+  sum: number;
+  /** Cumulative sample count per bucket upper bound, in ms; the last bound is Infinity */
+  buckets: { le: number; count: number }[];
+  /** Statistics over the most recent samples (0 when there are none) */
+  min: number;
+  max: number;
+  mean: number;
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+export interface MetricsSnapshot {
+  latency: Record<LatencyMetric, HistogramSnapshot>;
+  /** Failed attempts that were retried, by stage */
+  retries: Record<'analysis' | 'generation', number>;
+  turns: Record<TurnOutcome, number>;
+}
+
+/**
+ * Histogram - Cumulative bucket counts plus a rolling window of recent samples
+ *
+ * Bucket counts only grow, as Prometheus expects; percentiles come from the window so
+ * they follow recent behaviour rather than the whole lifetime of the process.
+ */
+export class Histogram {
+  private bounds: number[];
+  private counts: number[];
+  private count = 0;
+  private sum = 0;
+  private window: number[] = [];
+
+  /**
+   * @param buckets - Bucket upper bounds in milliseconds
+   * @param windowSize - Number of recent samples kept for percentiles
+   */
+  constructor(buckets: number[] = DEFAULT_LATENCY_BUCKETS, private windowSize: number = 1000) {
+    this.bounds = [...buckets].sort((a, b) => a - b).concat(Infinity);
+    this.counts = this.bounds.map(() => 0);
+  }
+
+  observe(value: number) {
+    this.count++;
+    this.sum += value;
+    this.bounds.forEach((bound, index) => {
+      if (value <= bound) this.counts[index]++;
+    });
+
+    this.window.push(value);
+    if (this.window.length > this.windowSize) {
+      this.window.shift();
+    }
+  }
+
+  snapshot(): HistogramSnapshot {
+    const sorted = [...this.window].sort((a, b) => a - b);
+    const percentile = (p: number) => sorted.length > 0
+      ? sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)]
+      : 0;
+
+    return {
+      count: this.count,
+      sum: this.sum,
+      buckets: this.bounds.map((le, index) => ({ le, count: this.counts[index] })),
+      min: sorted[0] ?? 0,
+      max: sorted[sorted.length - 1] ?? 0,
+      mean: sorted.length > 0 ? sorted.reduce((total, value) => total + value, 0) / sorted.length : 0,
+      p50: percentile(0.5),
+      p90: percentile(0.9),
+      p99: percentile(0.99)
+    };
+  }
+}
+
+const LATENCY_METRICS: LatencyMetric[] = ['debounceWait', 'analysis', 'generation', 'timeToFirstToken'];
+
+/**
+ * MetricsCollector - Latency histograms and turn counters for a monitor
+ *
+ * @example
+ * ```typescript
+ * const metrics = new MetricsCollector();
+ *
+ * const startedAt = Date.now();
+ * await analyzer.analyze(transcript, context);
+ * metrics.observe('analysis', Date.now() - startedAt);
+ * metrics.recordOutcome('skipped');
+ *
+ * console.log(metrics.snapshot().latency.analysis.p90);
+ * ```
+ */
+export class MetricsCollector {
+  private histograms: Record<LatencyMetric, Histogram>;
+  private retries = { analysis: 0, generation: 0 };
+  private turns: Record<TurnOutcome, number> = { responded: 0, skipped: 0, errored: 0, cancelled: 0 };
+
+  /**
+   * @param options - Histogram buckets and percentile window, see MetricsOptions
+   */
+  constructor(private options: MetricsOptions = {}) {
+    this.histograms = this.createHistograms();
+  }
+
+  /**
+   * Records how long a stage took.
+   *
+   * @param metric - The stage
+   * @param ms - Duration in milliseconds
+   */
+  observe(metric: LatencyMetric, ms: number) {
+    this.histograms[metric].observe(Math.max(0, ms));
+  }
+
+  recordRetry(stage: 'analysis' | 'generation') {
+    this.retries[stage]++;
+  }
+
+  recordOutcome(outcome: TurnOutcome) {
+    this.turns[outcome]++;
+  }
+
+  /**
+   * Returns a copy of the current histograms and counters.
+   */
+  snapshot(): MetricsSnapshot {
+    const latency = {} as Record<LatencyMetric, HistogramSnapshot>;
+    LATENCY_METRICS.forEach(metric => {
+      latency[metric] = this.histograms[metric].snapshot();
+    });
+
+    return { latency, retries: { ...this.retries }, turns: { ...this.turns } };
+  }
+
+  /**
+   * Clears every histogram and counter.
+   */
+  reset() {
+    this.histograms = this.createHistograms();
+    this.retries = { analysis: 0, generation: 0 };
+    this.turns = { responded: 0, skipped: 0, errored: 0, cancelled: 0 };
+  }
+
+  private createHistograms(): Record<LatencyMetric, Histogram> {
+    const histograms = {} as Record<LatencyMetric, Histogram>;
+    LATENCY_METRICS.forEach(metric => {
+      histograms[metric] = new Histogram(this.options.buckets, this.options.windowSize);
+    });
+    return histograms;
+  }
+}
+
+const METRIC_NAMES: Record<LatencyMetric, { name: string; help: string }> = {
+  debounceWait: { name: 'debounce_wait_seconds', help: 'Time from the first transcript change until the debounce fired' },
+  analysis: { name: 'analysis_duration_seconds', help: 'Time spent deciding whether to respond' },
+  generation: { name: 'generation_duration_seconds', help: 'Time spent generating a response' },
+  timeToFirstToken: { name: 'time_to_first_token_seconds', help: 'Time from the start of generation to the first streamed delta' }
+};
+
+/**
+ * A snapshot with the labels that identify its source, e.g. a session ID
+ */
+export interface LabeledMetricsSnapshot {
+  labels: Record<string, string>;
+  snapshot: MetricsSnapshot;
+}
+
+/**
+ * Formats metrics in the Prometheus text exposition format. Latencies are exported
+ * in seconds as histograms; retries and turn outcomes as counters.
+ *
+ * @param snapshots - One snapshot, or several labelled snapshots such as one per session
+ * @param prefix - Prefix for every metric name (default: 'transcript_monitor')
+ * @returns The exposition text, ending in a newline
+ *
+ * @example
+ * ```typescript
+ * http.createServer((req, res) => {
+ *   if (req.url === '/metrics') {
+ *     res.setHeader('Content-Type', 'text/plain; version=0.0.4');
+ *     res.end(formatPrometheus(monitor.getMetrics()));
+ *   }
+ * }).listen(9464);
+ * ```
+ */
+export function formatPrometheus(
+  snapshots: MetricsSnapshot | LabeledMetricsSnapshot[],
+  prefix: string = 'transcript_monitor'
+): string {
+  const labeled = Array.isArray(snapshots) ? snapshots : [{ labels: {}, snapshot: snapshots }];
+  const lines: string[] = [];
+
+  LATENCY_METRICS.forEach(metric => {
+    const name = `${prefix}_${METRIC_NAMES[metric].name}`;
+    lines.push(`# HELP ${name} ${METRIC_NAMES[metric].help}`, `# TYPE ${name} histogram`);
+
+    labeled.forEach(({ labels, snapshot }) => {
+      const histogram = snapshot.latency[metric];
+      histogram.buckets.forEach(bucket => {
+        const le = bucket.le === Infinity ? '+Inf' : String(bucket.le / 1000);
+        lines.push(`${name}_bucket${formatLabels({ ...labels, le })} ${bucket.count}`);
+      });
+      lines.push(`${name}_sum${formatLabels(labels)} ${histogram.sum / 1000}`);
+      lines.push(`${name}_count${formatLabels(labels)} ${histogram.count}`);
+    });
+  });
+
+  const retries = `${prefix}_retries_total`;
+  lines.push(`# HELP ${retries} Failed attempts that were retried`, `# TYPE ${retries} counter`);
+  labeled.forEach(({ labels, snapshot }) => {
+    Object.entries(snapshot.retries).forEach(([stage, count]) => {
+      lines.push(`${retries}${formatLabels({ ...labels, stage })} ${count}`);
+    });
+  });
+
+  const turns = `${prefix}_turns_total`;
+  lines.push(`# HELP ${turns} Turns by outcome`, `# TYPE ${turns} counter`);
+  labeled.forEach(({ labels, snapshot }) => {
+    Object.entries(snapshot.turns).forEach(([outcome, count]) => {
+      lines.push(`${turns}${formatLabels({ ...labels, outcome })} ${count}`);
+    });
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+
+  const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+  return `{${entries.map(([key, value]) => `${key}="${escape(value)}"`).join(',')}}`;
+}
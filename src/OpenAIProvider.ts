@@ -0,0 +1,176 @@
+import {
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  LLMProvider,
+  ProviderCallOptions,
+  ProviderCapabilities,
+  ProviderConfig,
+  TokenUsage
+} from './types';
+import { ProviderError, parseProviderEvent, postProvider } from './errors';
+import { parseSSE } from './streaming';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+/**
+ * OpenAIProvider - Chat completions through the OpenAI API
+ *
+ * Supports JSON mode, streaming and tool calling. With a `baseUrl` it also talks to
+ * OpenAI-compatible servers such as Ollama, llama.cpp and vLLM, which usually need no API key.
+ *
+ * @example
+ * ```typescript
+ * const provider = new OpenAIProvider({ apiKey: process.env.OPENAI_API_KEY });
+ *
+ * const { content } = await provider.chat({
+ *   model: 'gpt-4o-mini',
+ *   messages: [{ role: 'user', content: 'Say hello' }]
+ * });
+ *
+ * // A local Ollama server
+ * const local = new OpenAIProvider({ baseUrl: 'http://localhost:11434/v1' }, 'Ollama');
+ * ```
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly capabilities: ProviderCapabilities = { json: true, streaming: true, tools: true };
+
+  /**
+   * @param config - Provider settings
+   * @param config.apiKey - API key, sent as a bearer token when set
+   * @param config.baseUrl - API base URL (default: 'https://api.openai.com/v1')
+   * @param config.headers - Extra headers sent with every request
+   * @param config.clock - Source of time for Retry-After dates (default: systemClock)
+   * @param name - Name used in errors (default: 'OpenAI')
+   */
+  constructor(private config: ProviderConfig = {}, readonly name: string = 'OpenAI') {}
+
+  async chat(request: ChatRequest, options: ProviderCallOptions = {}): Promise<ChatResponse> {
+    const response = await postProvider(this.name, this.url(), this.headers(), this.buildBody(request), options.signal, this.config.clock);
+    const data = await response.json() as any;
+
+    const message = data.choices?.[0]?.message;
+    if (!message) {
+      throw new ProviderError(`${this.name} API error: response has no message`, {
+        provider: this.name,
+        code: 'invalid_response'
+      });
+    }
+
+    const usage = this.toUsage(data.usage, data.model || request.model);
+    if (usage) options.onUsage?.(usage);
+
+    return {
+      content: message.content || '',
+      toolCalls: (message.tool_calls || []).map((toolCall: any) => ({
+        id: toolCall.id,
+        name: toolCall.function.name,
+        arguments: parseArguments(toolCall.function.arguments)
+      })),
+      model: data.model,
+      usage
+    };
+  }
+
+  async *stream(request: ChatRequest, options: ProviderCallOptions = {}): AsyncGenerator<string> {
+    const response = await postProvider(
+      this.name,
+      this.url(),
+      this.headers(),
+      { ...this.buildBody(request), stream: true, stream_options: { include_usage: true } },
+      options.signal,
+      this.config.clock
+    );
+
+    if (!response.body) {
+      throw new ProviderError(`${this.name} API error: response has no body`, {
+        provider: this.name,
+        code: 'invalid_response'
+      });
+    }
+
+    for await (const event of parseSSE(response.body, options.signal)) {
+      if (event.data === '[DONE]') return;
+
+      const data = parseProviderEvent(this.name, event.data);
+      const delta = data.choices?.[0]?.delta?.content;
+      if (delta) yield delta;
+
+      // With include_usage the last chunk before [DONE] carries the usage and no choices
+      const usage = this.toUsage(data.usage, data.model || request.model);
+      if (usage) options.onUsage?.(usage);
+    }
+  }
+
+  private toUsage(usage: any, model?: string): TokenUsage | undefined {
+    if (!usage) return undefined;
+
+    const promptTokens = usage.prompt_tokens || 0;
+    const completionTokens = usage.completion_tokens || 0;
+    return {
+      provider: this.name,
+      model,
+      promptTokens,
+      completionTokens,
+      totalTokens: usage.total_tokens ?? promptTokens + completionTokens
+    };
+  }
+
+  private url(): string {
+    return `${(this.config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '')}/chat/completions`;
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      ...(this.config.apiKey ? { 'Authorization': `Bearer ${this.config.apiKey}` } : {}),
+      ...this.config.headers
+    };
+  }
+
+  private buildBody(request: ChatRequest): Record<string, any> {
+    return {
+      model: request.model || 'gpt-4o',
+      messages: [
+        ...(request.system ? [{ role: 'system', content: request.system }] : []),
+        ...request.messages.map(toOpenAIMessage)
+      ],
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+      ...(request.tools?.length ? {
+        tools: request.tools.map(tool => ({
+          type: 'function',
+          function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+        }))
+      } : {})
+    };
+  }
+}
+
+function toOpenAIMessage(message: ChatMessage): Record<string, any> {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+  }
+
+  if (message.role === 'assistant' && message.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: message.content || null,
+      tool_calls: message.toolCalls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+      }))
+    };
+  }
+
+  return { role: message.role, content: message.content };
+}
+
+function parseArguments(raw: string): Record<string, any> {
+  try {
+    return raw ? JSON.parse(raw) : {};
+  } catch (error) {
+    return {};
+  }
+}
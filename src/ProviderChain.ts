@@ -0,0 +1,217 @@
+import {
+  ChatRequest,
+  ChatResponse,
+  CircuitStateChange,
+  LLMProvider,
+  ProviderCallOptions,
+  ProviderCapabilities,
+  ProviderChainEntry
+} from './types';
+import { CircuitBreaker, CircuitBreakerOptions } from './CircuitBreaker';
+import { ProviderError } from './errors';
+import { ProviderRegistry, resolveProvider } from './ProviderRegistry';
+import { RateLimiter, withRateLimit } from './RateLimiter';
+import { isRetryableError } from './RetryPolicy';
+import { isAbortError } from './utils';
+
+/**
+ * A provider in the chain together with the model it serves and its breaker
+ */
+export interface ChainLink {
+  provider: LLMProvider;
+  model?: string;
+  breaker: CircuitBreaker;
+}
+
+/**
+ * ProviderChain - Tries providers in order, skipping those whose circuit breaker is open
+ *
+ * Each provider has its own breaker. A request goes to the first provider whose
+ * breaker admits it; on failure the next one is tried. Only retryable errors (server,
+ * timeout, rate limit and network failures) count against a breaker; aborts are rethrown
+ * immediately. The chain is itself an LLMProvider, so the analyzer and generator use it
+ * like any single provider.
+ *
+ * @example
+ * ```typescript
+ * const chain = new ProviderChain([
+ *   { provider: new OpenAIProvider({ apiKey: openaiKey }), model: 'gpt-4o' },
+ *   { provider: new AnthropicProvider({ apiKey: anthropicKey }), model: 'claude-3-haiku-20240307' }
+ * ], { failureThreshold: 0.5, cooldownMs: 30000 });
+ *
+ * const { content } = await chain.chat(request, {
+ *   onCircuitStateChange: change => console.log(`${change.provider}: ${change.from} -> ${change.to}`)
+ * });
+ * ```
+ */
+export class ProviderChain implements LLMProvider {
+  readonly name: string;
+  readonly capabilities: ProviderCapabilities;
+  private links: ChainLink[];
+
+  /**
+   * @param entries - Providers in order of preference, each with the model to request from it.
+   *   The link's model replaces the request's model.
+   * @param breakerOptions - Settings for every provider's circuit breaker
+   */
+  constructor(entries: { provider: LLMProvider; model?: string }[], breakerOptions: CircuitBreakerOptions = {}) {
+    this.links = entries.map(entry => ({ ...entry, breaker: new CircuitBreaker(breakerOptions) }));
+    this.name = this.links.map(link => link.provider.name).join(' > ');
+    this.capabilities = {
+      json: this.links.some(link => link.provider.capabilities.json),
+      streaming: this.links.some(link => link.provider.capabilities.streaming),
+      tools: this.links.some(link => link.provider.capabilities.tools)
+    };
+  }
+
+  /**
+   * Returns the breaker state of every provider, in chain order.
+   */
+  getStates(): { provider: string; model?: string; state: CircuitBreaker['state'] }[] {
+    return this.links.map(link => ({ provider: link.provider.name, model: link.model, state: link.breaker.state }));
+  }
+
+  async chat(request: ChatRequest, options: ProviderCallOptions = {}): Promise<ChatResponse> {
+    let lastError: unknown;
+
+    for (const link of this.links) {
+      if (!this.admit(link, options)) continue;
+
+      try {
+        const response = await link.provider.chat({ ...request, model: link.model }, options);
+        this.record(link, options, true);
+        return response;
+      } catch (error) {
+        if (isAbortError(error)) {
+          link.breaker.recordCancelled();
+          throw error;
+        }
+        this.recordError(link, options, error);
+        lastError = error;
+      }
+    }
+
+    throw this.exhausted(lastError);
+  }
+
+  /**
+   * Streams from the first available provider. A provider that fails before its first
+   * delta is skipped; once text has been yielded, failures are thrown to the caller.
+   */
+  async *stream(request: ChatRequest, options: ProviderCallOptions = {}): AsyncGenerator<string> {
+    let lastError: unknown;
+
+    for (const link of this.links) {
+      if (!this.admit(link, options)) continue;
+
+      const linkRequest = { ...request, model: link.model };
+      let started = false;
+      try {
+        if (link.provider.capabilities.streaming && link.provider.stream) {
+          for await (const delta of link.provider.stream(linkRequest, options)) {
+            started = true;
+            yield delta;
+          }
+        } else {
+          const response = await link.provider.chat(linkRequest, options);
+          started = true;
+          yield response.content;
+        }
+        this.record(link, options, true);
+        return;
+      } catch (error) {
+        if (isAbortError(error)) {
+          link.breaker.recordCancelled();
+          throw error;
+        }
+        this.recordError(link, options, error);
+        if (started) throw error;
+        lastError = error;
+      }
+    }
+
+    throw this.exhausted(lastError);
+  }
+
+  private admit(link: ChainLink, options: ProviderCallOptions): boolean {
+    const before = link.breaker.state;
+    const allowed = link.breaker.allowRequest();
+    this.notify(link, options, before);
+    return allowed;
+  }
+
+  private record(link: ChainLink, options: ProviderCallOptions, ok: boolean) {
+    const before = link.breaker.state;
+    if (ok) {
+      link.breaker.recordSuccess();
+    } else {
+      link.breaker.recordFailure();
+    }
+    this.notify(link, options, before);
+  }
+
+  /**
+   * Counts a failure against the breaker only when the provider may be unhealthy; fatal
+   * errors such as a bad request or a rejected API key are the caller's to fix.
+   */
+  private recordError(link: ChainLink, options: ProviderCallOptions, error: unknown) {
+    if (isRetryableError(error)) {
+      this.record(link, options, false);
+    } else {
+      link.breaker.recordCancelled();
+    }
+  }
+
+  private notify(link: ChainLink, options: ProviderCallOptions, before: CircuitStateChange['from']) {
+    const after = link.breaker.state;
+    if (after !== before) {
+      options.onCircuitStateChange?.({ provider: link.provider.name, model: link.model, from: before, to: after });
+    }
+  }
+
+  private exhausted(lastError: unknown): Error {
+    // Report the last real failure; if every breaker was open nothing was attempted
+    if (lastError) return lastError as Error;
+
+    return new ProviderError('All providers are unavailable', {
+      provider: this.name,
+      code: 'unavailable',
+      retryable: false
+    });
+  }
+}
+
+/**
+ * Builds a chain from analyzer or generator `providers` settings. Entries whose API key is
+ * missing are left out.
+ *
+ * @param entries - The configured providers, in order
+ * @param defaultModels - Model per built-in provider name for entries without a model
+ * @param breakerOptions - Circuit breaker settings
+ * @param registry - Registry to look names up in (default: defaultProviderRegistry)
+ * @param rateLimiter - Limiter every provider in the chain waits for (optional)
+ * @returns The chain, or undefined if no entry is usable
+ * @throws {Error} If an entry names an unregistered provider
+ */
+export function createProviderChain(
+  entries: ProviderChainEntry[],
+  defaultModels: Record<string, string>,
+  breakerOptions?: CircuitBreakerOptions,
+  registry?: ProviderRegistry,
+  rateLimiter?: RateLimiter
+): ProviderChain | undefined {
+  const links: { provider: LLMProvider; model?: string }[] = [];
+
+  for (const entry of entries) {
+    const { provider: name, model, ...config } = entry;
+    const provider = resolveProvider(name, config, registry);
+    if (!provider) continue;
+
+    links.push({
+      provider: rateLimiter ? withRateLimit(provider, rateLimiter) : provider,
+      model: model || (typeof name === 'string' ? defaultModels[name] : undefined)
+    });
+  }
+
+  return links.length > 0 ? new ProviderChain(links, breakerOptions) : undefined;
+}
@@ -0,0 +1,130 @@
+import { LLMProvider, ProviderConfig } from './types';
+import { OpenAIProvider } from './OpenAIProvider';
+import { AnthropicProvider } from './AnthropicProvider';
+
+/**
+ * Creates a provider from the analyzer or generator settings
+ */
+export type ProviderFactory = (config: ProviderConfig) => LLMProvider;
+
+export interface ProviderRegistration {
+  factory: ProviderFactory;
+  /** Without an API key the provider is treated as unavailable (default: true) */
+  requiresApiKey: boolean;
+}
+
+/**
+ * ProviderRegistry - Maps provider names to factories
+ *
+ * The analyzer and generator look up their `provider` setting here, so new
+ * backends can be added without changing either class. 'openai', 'anthropic' and
+ * 'openai-compatible' (any server speaking the OpenAI chat API at `baseUrl`, no API key
+ * needed) are registered in every new registry.
+ *
+ * @example
+ * ```typescript
+ * import { defaultProviderRegistry, TranscriptMonitor } from 'transcript-monitor-agent';
+ *
+ * defaultProviderRegistry.register('my-llm', config => new MyLLMProvider(config));
+ *
+ * const monitor = new TranscriptMonitor({
+ *   generator: { provider: 'my-llm', apiKey: process.env.MY_LLM_KEY }
+ * });
+ * ```
+ */
+export class ProviderRegistry {
+  private providers = new Map<string, ProviderRegistration>();
+
+  constructor() {
+    this.register('openai', config => new OpenAIProvider(config));
+    this.register('anthropic', config => new AnthropicProvider(config));
+    this.register('openai-compatible', config => {
+      if (!config.baseUrl) {
+        throw new Error('The openai-compatible provider requires baseUrl');
+      }
+      return new OpenAIProvider(config, 'OpenAI-compatible');
+    }, { requiresApiKey: false });
+  }
+
+  /**
+   * Registers a provider factory. Registering an existing name replaces it.
+   *
+   * @param name - Name used in `AnalyzerConfig.provider` and `GeneratorConfig.provider`
+   * @param factory - Creates the provider from the analyzer or generator settings
+   * @param options.requiresApiKey - Whether the provider needs `apiKey` to be usable (default: true)
+   * @throws {Error} If the name is 'custom', which is reserved for custom analyzers and generators
+   */
+  register(name: string, factory: ProviderFactory, options: { requiresApiKey?: boolean } = {}) {
+    if (name === 'custom') {
+      throw new Error('Provider name "custom" is reserved');
+    }
+
+    this.providers.set(name, { factory, requiresApiKey: options.requiresApiKey ?? true });
+  }
+
+  /**
+   * Removes a provider.
+   *
+   * @param name - The provider name
+   * @returns True if the provider was registered
+   */
+  unregister(name: string): boolean {
+    return this.providers.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.providers.has(name);
+  }
+
+  /**
+   * Returns the names of all registered providers.
+   */
+  list(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  /**
+   * Creates a provider, or returns undefined when it needs an API key and none is configured.
+   *
+   * @param name - The provider name
+   * @param config - Settings passed to the factory
+   * @throws {Error} If no provider is registered under the name
+   */
+  create(name: string, config: ProviderConfig = {}): LLMProvider | undefined {
+    const registration = this.providers.get(name);
+    if (!registration) {
+      throw new Error(`Unknown provider: ${name}`);
+    }
+
+    if (registration.requiresApiKey && !config.apiKey) {
+      return undefined;
+    }
+
+    return registration.factory(config);
+  }
+}
+
+/**
+ * Registry used by analyzers and generators that are not given one
+ */
+export const defaultProviderRegistry = new ProviderRegistry();
+
+/**
+ * Resolves an analyzer or generator `provider` setting to a provider instance.
+ *
+ * @param provider - Provider name or instance; 'custom' and undefined resolve to nothing
+ * @param config - Settings passed to the factory
+ * @param registry - Registry to look the name up in (default: defaultProviderRegistry)
+ * @returns The provider, or undefined when none is configured or its API key is missing
+ * @throws {Error} If the name is not registered
+ */
+export function resolveProvider(
+  provider: string | LLMProvider | undefined,
+  config: ProviderConfig,
+  registry: ProviderRegistry = defaultProviderRegistry
+): LLMProvider | undefined {
+  if (!provider || provider === 'custom') return undefined;
+  if (typeof provider !== 'string') return provider;
+
+  return registry.create(provider, config);
+}
@@ -0,0 +1,180 @@
+import { LANGUAGE_PACKS, LanguagePack, endsSentence, isQuestion } from './LanguagePack';
+
+/**
+ * Whether a text asks something, and how sure the classifier is
+ */
+export interface QuestionClassification {
+  /** True when the confidence reaches the classifier's `minConfidence` */
+  isQuestion: boolean;
+  /** Likelihood between 0 and 1 that the text asks a question or makes a request */
+  confidence: number;
+  /**
+   * - `question`: asks for information, e.g. "what time is it"
+   * - `request`: asks for help or an answer without a question, e.g. "tell me about the plan"
+   */
+  kind?: 'question' | 'request';
+  /** Cues that moved the confidence, e.g. 'wh-opener' or 'inversion' */
+  cues: string[];
+}
+
+export interface QuestionClassifierOptions {
+  /** Confidence at which a text counts as a question (default: 0.6) */
+  minConfidence?: number;
+  /** English phrases that open a request (default: REQUEST_PHRASES) */
+  requestPhrases?: string[];
+}
+
+/**
+ * English phrases that ask for something without being phrased as a question
+ */
+export const REQUEST_PHRASES = [
+  'tell me', 'show me', 'help me', 'give me', 'remind me', 'let me know', 'explain', 'describe',
+  // First-person phrasings only when they ask for something, not for "I need to leave early"
+  'i need you', 'i need help', 'i need to know', "i'd like you", "i'd like to know", 'i would like you',
+  'i would like to know', 'i want to know', 'i was wondering', 'i wonder', 'any idea', 'any ideas'
+];
+
+const WH_WORDS = /^(what|when|where|who|whom|whose|why|how|which)\b/;
+// "what a day", "how nice": exclamations, not questions
+const EXCLAMATIONS = /^(what an?|how (nice|great|cool|lovely|awesome|funny|sad|weird|strange|interesting))\b/;
+const PRONOUNS = '(i|we|you|they|he|she|it)';
+const AUXILIARIES = "(am|is|are|was|were|do|does|did|have|has|had|can|could|will|would|shall|should|may|might|must|isn't|aren't|wasn't|weren't|don't|doesn't|didn't|haven't|hasn't|can't|couldn't|won't|wouldn't|shouldn't)";
+// An auxiliary before its subject: "can you", "is it", "did the build pass"
+const INVERSION = new RegExp(
+  `^${AUXILIARIES}\\s+(i|we|you|they|he|she|it|there|this|that|these|those|the|a|an|my|your|our|their|his|her|anyone|anybody|someone|somebody|everyone)\\b`
+);
+// "what you said", "when we get there": a wh-word opening a clause inside a statement
+const WH_CLAUSE = new RegExp(`^(what|when|where|who|why|how|which)\\s+${PRONOUNS}\\s+(?!${AUXILIARIES}\\b)`);
+// "..., right", "..., isn't it", "..., don't you"
+const TAG_QUESTION = new RegExp(
+  `(,\\s*(right|correct|yeah|no|ok|okay|eh)|\\b(is|are|do|does|did|was|were|have|has|can|could|would|should)n't\\s+${PRONOUNS}|\\bwon't\\s+you|\\bisn't\\s+that\\s+right)$`
+);
+// Discourse markers skipped before looking for an opener: "so what's next", "ok can you"
+const LEAD_INS = /^((so|and|but|ok|okay|well|um|uh|hey|also|then|now|alright|actually|sorry|please)\b[\s,]*)+/;
+
+const CONFIDENCE = {
+  questionMark: 0.9,
+  whOpener: 0.8,
+  inversion: 0.8,
+  tagQuestion: 0.7,
+  questionParticle: 0.8,
+  questionWord: 0.75,
+  request: 0.65,
+  whClause: 0.35,
+  /** Each cue after the strongest adds this, up to the confidence of a question mark */
+  extraCue: 0.05
+};
+
+/**
+ * QuestionClassifier - Recognizes questions in speech-to-text output that has no punctuation
+ *
+ * English text is scored on a question mark, wh-word openers ("what", "how"), auxiliary
+ * inversion ("can you", "is it"), tag questions ("..., right") and request phrasings
+ * ("tell me", "I need help"); a wh-word opening a clause, as in "what you said was", counts
+ * against it. Other languages use their pack's question marks, words and particles. Text
+ * that ends mid-sentence, e.g. on "the", is not finished asking yet.
+ *
+ * @example
+ * ```typescript
+ * const classifier = new QuestionClassifier();
+ *
+ * classifier.classify('can you move the meeting to friday');
+ * // { isQuestion: true, confidence: 0.8, kind: 'question', cues: ['inversion'] }
+ *
+ * classifier.classify('what you said was right');
+ * // { isQuestion: false, confidence: 0.35, kind: 'question', cues: ['wh-clause'] }
+ * ```
+ */
+export class QuestionClassifier {
+  private minConfidence: number;
+  private requestPhrases: RegExp;
+
+  /**
+   * @param options - Threshold and request phrases, see QuestionClassifierOptions
+   */
+  constructor(options: QuestionClassifierOptions = {}) {
+    this.minConfidence = options.minConfidence ?? 0.6;
+    const phrases = (options.requestPhrases || REQUEST_PHRASES).map(phrase => phrase.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    this.requestPhrases = new RegExp(`^(${phrases.join('|')})\\b`);
+  }
+
+  /**
+   * Scores how likely the text is to ask something.
+   *
+   * @param text - Text to classify, ideally without the monitor's name
+   * @param language - Language of the text (default: English)
+   */
+  classify(text: string, language: LanguagePack = LANGUAGE_PACKS.en): QuestionClassification {
+    const cues: { cue: string; confidence: number; kind: 'question' | 'request' }[] = [];
+    const trimmed = text.trim();
+
+    if (language.questionMarks.some(mark => trimmed.includes(mark))) {
+      cues.push({ cue: 'question-mark', confidence: CONFIDENCE.questionMark, kind: 'question' });
+    }
+
+    if (language.code === 'en') {
+      cues.push(...this.englishCues(trimmed));
+    } else if (!cues.length && isQuestion(trimmed, language)) {
+      const particle = (language.questionEndings || []).some(ending => trimmed.replace(/[^\p{L}\p{N}]+$/u, '').endsWith(ending));
+      cues.push(particle
+        ? { cue: 'question-particle', confidence: CONFIDENCE.questionParticle, kind: 'question' }
+        : { cue: 'question-word', confidence: CONFIDENCE.questionWord, kind: 'question' });
+    }
+
+    if (!cues.length) {
+      return { isQuestion: false, confidence: 0, cues: [] };
+    }
+
+    const [strongest, ...others] = [...cues].sort((a, b) => b.confidence - a.confidence);
+    let confidence = strongest.confidence;
+    if (strongest.cue !== 'question-mark' && strongest.cue !== 'wh-clause') {
+      confidence = Math.min(CONFIDENCE.questionMark, confidence + others.length * CONFIDENCE.extraCue);
+
+      // Without a question mark, a sentence that ends on "the" or "and" is still being asked
+      const lastWord = (trimmed.toLowerCase().match(/[\p{L}\p{N}']+/gu) || []).pop() || '';
+      if (!endsSentence(trimmed, language) && (language.trailingWords || []).includes(lastWord)) {
+        confidence /= 2;
+        cues.push({ cue: 'trailing-word', confidence: 0, kind: strongest.kind });
+      }
+    }
+
+    confidence = Math.round(confidence * 100) / 100;
+    return {
+      isQuestion: confidence >= this.minConfidence,
+      confidence,
+      kind: strongest.kind,
+      cues: cues.map(cue => cue.cue)
+    };
+  }
+
+  private englishCues(text: string): { cue: string; confidence: number; kind: 'question' | 'request' }[] {
+    const cues: { cue: string; confidence: number; kind: 'question' | 'request' }[] = [];
+    // Only the last sentence counts; "Thanks. What is next" asks, "What a day. I am done" does not
+    const sentences = text.split(/[.!?]+/).filter(sentence => sentence.trim());
+    const sentence = (sentences[sentences.length - 1] || '')
+      .toLowerCase()
+      .replace(/’/g, "'")
+      .replace(/[^\p{L}\p{N}'\s,]/gu, ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .replace(LEAD_INS, '');
+    // A question punctuated as a statement is more likely a statement
+    const statement = /[.!]["')\]]*$/.test(text);
+
+    if (WH_CLAUSE.test(sentence)) {
+      cues.push({ cue: 'wh-clause', confidence: CONFIDENCE.whClause, kind: 'question' });
+    } else if (WH_WORDS.test(sentence) && !EXCLAMATIONS.test(sentence) && !statement) {
+      cues.push({ cue: 'wh-opener', confidence: CONFIDENCE.whOpener, kind: 'question' });
+    }
+    if (INVERSION.test(sentence) && !statement) {
+      cues.push({ cue: 'inversion', confidence: CONFIDENCE.inversion, kind: 'question' });
+    }
+    if (TAG_QUESTION.test(sentence.replace(/,$/, ''))) {
+      cues.push({ cue: 'tag-question', confidence: CONFIDENCE.tagQuestion, kind: 'question' });
+    }
+    if (this.requestPhrases.test(sentence)) {
+      cues.push({ cue: 'request', confidence: CONFIDENCE.request, kind: 'request' });
+    }
+    return cues;
+  }
+}
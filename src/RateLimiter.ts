@@ -0,0 +1,318 @@
+import { ChatRequest, LLMProvider, ProviderCallOptions, RequestPriority } from './types';
+import { estimateTokens } from './HistoryManager';
+import { createAbortError, isAbortError } from './utils';
+import { Clock, TimerHandle, systemClock } from './Clock';
+
+export interface RateLimit {
+  /** Requests allowed per minute */
+  requestsPerMinute?: number;
+  /** Prompt plus completion tokens allowed per minute (estimated before the request) */
+  tokensPerMinute?: number;
+  /** Requests allowed in flight at once */
+  maxConcurrent?: number;
+}
+
+export interface RateLimiterOptions {
+  /** Limit for every provider and model without a more specific entry */
+  default?: RateLimit;
+  /**
+   * Limits by provider ('openai') or provider and model ('openai:gpt-4o').
+   * The most specific entry wins; names are matched case-insensitively.
+   */
+  limits?: Record<string, RateLimit>;
+  /** Clock for refilling buckets and waking queued requests, for tests (default: systemClock) */
+  clock?: Clock;
+}
+
+/**
+ * Queue and bucket state for one provider and model
+ */
+export interface RateLimiterStats {
+  /** 'provider:model', lowercase */
+  key: string;
+  /** Requests waiting for capacity */
+  queued: number;
+  queuedByPriority: Record<RequestPriority, number>;
+  inFlight: number;
+  /** Requests that could start now (Infinity when unlimited) */
+  availableRequests: number;
+  /** Tokens that could be spent now (Infinity when unlimited) */
+  availableTokens: number;
+}
+
+const PRIORITY_ORDER: Record<RequestPriority, number> = { generation: 0, analysis: 1, background: 2 };
+
+interface Waiter {
+  tokens: number;
+  priority: RequestPriority;
+  sequence: number;
+  resolve: (release: () => void) => void;
+  reject: (error: Error) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+class Bucket {
+  requests: number;
+  tokens: number;
+  inFlight = 0;
+  queue: Waiter[] = [];
+  timer: TimerHandle | null = null;
+
+  constructor(readonly limit: RateLimit, private refilledAt: number) {
+    this.requests = limit.requestsPerMinute ?? Infinity;
+    this.tokens = limit.tokensPerMinute ?? Infinity;
+  }
+
+  refill(now: number) {
+    const elapsed = now - this.refilledAt;
+    this.refilledAt = now;
+    if (this.limit.requestsPerMinute !== undefined) {
+      this.requests = Math.min(this.limit.requestsPerMinute, this.requests + elapsed * this.limit.requestsPerMinute / 60000);
+    }
+    if (this.limit.tokensPerMinute !== undefined) {
+      this.tokens = Math.min(this.limit.tokensPerMinute, this.tokens + elapsed * this.limit.tokensPerMinute / 60000);
+    }
+  }
+
+  /**
+   * A request larger than the whole per-minute budget waits for a full bucket rather than forever
+   */
+  tokensNeeded(tokens: number): number {
+    return Math.min(tokens, this.limit.tokensPerMinute ?? Infinity);
+  }
+
+  /**
+   * Milliseconds until the request fits, 0 if it fits now, or Infinity if it waits for a release
+   */
+  waitFor(tokens: number): number {
+    if (this.limit.maxConcurrent !== undefined && this.inFlight >= this.limit.maxConcurrent) {
+      return Infinity;
+    }
+
+    const requestWait = this.requests >= 1 ? 0 : (1 - this.requests) * 60000 / this.limit.requestsPerMinute!;
+    const needed = this.tokensNeeded(tokens);
+    const tokenWait = this.tokens >= needed ? 0 : (needed - this.tokens) * 60000 / this.limit.tokensPerMinute!;
+    return Math.ceil(Math.max(requestWait, tokenWait));
+  }
+}
+
+/**
+ * RateLimiter - Coordinates provider calls from many analyzers and generators
+ *
+ * Each provider and model has a token bucket for requests and tokens per minute,
+ * plus an optional concurrency cap. Calls that do not fit wait in a priority queue:
+ * generation first, then analysis, then background work such as summaries. Share one
+ * limiter between every analyzer and generator that uses the same API key.
+ *
+ * @example
+ * ```typescript
+ * const rateLimiter = new RateLimiter({
+ *   default: { requestsPerMinute: 60 },
+ *   limits: {
+ *     'openai:gpt-4o': { requestsPerMinute: 500, tokensPerMinute: 30000, maxConcurrent: 10 }
+ *   }
+ * });
+ *
+ * const sessions = new SessionManager({
+ *   rateLimiter,
+ *   analyzer: { provider: 'openai', apiKey },
+ *   generator: { provider: 'openai', apiKey }
+ * });
+ *
+ * setInterval(() => console.log(rateLimiter.getStats()), 10000);
+ * ```
+ */
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+  private sequence = 0;
+  private clock: Clock;
+
+  /**
+   * @param options - Default and per-provider limits, see RateLimiterOptions
+   */
+  constructor(private options: RateLimiterOptions = {}) {
+    this.clock = options.clock || systemClock;
+  }
+
+  /**
+   * Waits until a request fits the limits for its provider and model, then reserves capacity.
+   *
+   * @param provider - Provider name
+   * @param model - Model name (optional)
+   * @param options.tokens - Estimated tokens for the request (default: 0)
+   * @param options.priority - Queue priority (default: 'analysis')
+   * @param options.signal - Aborting removes the request from the queue and rejects with an AbortError
+   * @returns A function to call when the request has finished, freeing its concurrency slot
+   */
+  acquire(
+    provider: string,
+    model?: string,
+    options: { tokens?: number; priority?: RequestPriority; signal?: AbortSignal } = {}
+  ): Promise<() => void> {
+    const bucket = this.bucketFor(provider, model);
+
+    return new Promise((resolve, reject) => {
+      const { signal } = options;
+      if (signal?.aborted) {
+        reject(isAbortError(signal.reason) ? signal.reason : createAbortError());
+        return;
+      }
+
+      const waiter: Waiter = {
+        tokens: options.tokens ?? 0,
+        priority: options.priority || 'analysis',
+        sequence: this.sequence++,
+        resolve,
+        reject,
+        signal
+      };
+
+      if (signal) {
+        waiter.onAbort = () => {
+          bucket.queue = bucket.queue.filter(queued => queued !== waiter);
+          reject(isAbortError(signal.reason) ? signal.reason : createAbortError());
+          this.drain(bucket);
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+
+      bucket.queue.push(waiter);
+      bucket.queue.sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || a.sequence - b.sequence);
+      this.drain(bucket);
+    });
+  }
+
+  /**
+   * Returns queue depth and remaining capacity for every provider and model used so far.
+   */
+  getStats(): RateLimiterStats[] {
+    const now = this.clock.now();
+
+    return [...this.buckets.entries()].map(([key, bucket]) => {
+      bucket.refill(now);
+      const queuedByPriority: Record<RequestPriority, number> = { generation: 0, analysis: 0, background: 0 };
+      bucket.queue.forEach(waiter => queuedByPriority[waiter.priority]++);
+
+      return {
+        key,
+        queued: bucket.queue.length,
+        queuedByPriority,
+        inFlight: bucket.inFlight,
+        availableRequests: Math.floor(bucket.requests),
+        availableTokens: Math.floor(bucket.tokens)
+      };
+    });
+  }
+
+  private bucketFor(provider: string, model?: string): Bucket {
+    const providerKey = provider.toLowerCase();
+    const key = model ? `${providerKey}:${model.toLowerCase()}` : providerKey;
+
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = new Bucket(this.limitFor(key, providerKey), this.clock.now());
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  private limitFor(key: string, providerKey: string): RateLimit {
+    const limits: Record<string, RateLimit> = {};
+    Object.entries(this.options.limits || {}).forEach(([name, limit]) => {
+      limits[name.toLowerCase()] = limit;
+    });
+
+    return limits[key] || limits[providerKey] || this.options.default || {};
+  }
+
+  /**
+   * Starts queued requests in priority order while they fit, then sleeps until the head fits.
+   */
+  private drain(bucket: Bucket) {
+    if (bucket.timer !== null) {
+      this.clock.clearTimeout(bucket.timer);
+      bucket.timer = null;
+    }
+
+    bucket.refill(this.clock.now());
+
+    while (bucket.queue.length > 0) {
+      const waiter = bucket.queue[0];
+      const wait = bucket.waitFor(waiter.tokens);
+
+      if (wait === Infinity) return; // drained again when a request is released
+      if (wait > 0) {
+        bucket.timer = this.clock.setTimeout(() => this.drain(bucket), wait);
+        return;
+      }
+
+      bucket.queue.shift();
+      bucket.requests -= 1;
+      bucket.tokens -= bucket.tokensNeeded(waiter.tokens);
+      bucket.inFlight++;
+      if (waiter.signal && waiter.onAbort) {
+        waiter.signal.removeEventListener('abort', waiter.onAbort);
+      }
+
+      let released = false;
+      waiter.resolve(() => {
+        if (released) return;
+        released = true;
+        bucket.inFlight--;
+        this.drain(bucket);
+      });
+    }
+  }
+}
+
+/**
+ * Estimates the tokens a chat request will use: the prompt plus the completion limit.
+ *
+ * @param request - The request to measure
+ * @returns Estimated tokens
+ */
+export function estimateRequestTokens(request: ChatRequest): number {
+  const prompt = [request.system || '', ...request.messages.map(message => message.content)].join('\n');
+  return estimateTokens(prompt) + (request.maxTokens || 0);
+}
+
+/**
+ * Wraps a provider so every request first waits for the rate limiter.
+ *
+ * @param provider - The provider to limit
+ * @param limiter - The shared limiter
+ * @returns A provider with the same name and capabilities
+ */
+export function withRateLimit(provider: LLMProvider, limiter: RateLimiter): LLMProvider {
+  const acquire = (request: ChatRequest, options: ProviderCallOptions) => limiter.acquire(provider.name, request.model, {
+    tokens: estimateRequestTokens(request),
+    priority: options.priority,
+    signal: options.signal
+  });
+
+  return {
+    name: provider.name,
+    capabilities: provider.capabilities,
+
+    async chat(request, options = {}) {
+      const release = await acquire(request, options);
+      try {
+        return await provider.chat(request, options);
+      } finally {
+        release();
+      }
+    },
+
+    ...(provider.stream ? {
+      async *stream(request: ChatRequest, options: ProviderCallOptions = {}) {
+        const release = await acquire(request, options);
+        try {
+          yield* provider.stream!(request, options);
+        } finally {
+          release();
+        }
+      }
+    } : {})
+  };
+}
@@ -1,12 +1,38 @@
-import { GeneratorConfig, Message } from './types';
+import {
+  ChatMessage,
+  ChatRequest,
+  GeneratorConfig,
+  GenerationOptions,
+  LLMProvider,
+  Message,
+  ProviderCallOptions,
+  TokenUsage,
+  ToolCall,
+  ToolDefinition,
+  ToolResult
+} from './types';
+import { resolveProvider } from './ProviderRegistry';
+import { createProviderChain } from './ProviderChain';
+import { withRateLimit } from './RateLimiter';
+import { isAbortError, throwIfAborted } from './utils';
 import * as fs from 'fs/promises';
 
+/**
+ * Default response models for the built-in providers; other providers use their own default
+ */
+const DEFAULT_GENERATION_MODELS: Record<string, string> = {
+  openai: 'gpt-4o',
+  anthropic: 'claude-3-sonnet-20240229'
+};
+
 /**
  * ResponseGenerator - Generates contextually appropriate responses to transcript content
  * 
  * Features:
- * - Multiple AI provider support (OpenAI, Anthropic, or custom implementation)
+ * - Pluggable AI providers (OpenAI, Anthropic, anything in the provider registry, or a custom implementation)
  * - Conversation history integration for context-aware responses
+ * - Streaming output for low-latency text-to-speech pipelines
+ * - Tool calling with JSON-schema parameters for both providers
  * - Temperature and token control for response generation
  * - Support for name, role, and context file parameters to personalize responses
  * - Graceful error handling with fallback responses
@@ -35,18 +61,31 @@ import * as fs from 'fs/promises';
  */
 export class ResponseGenerator {
   private config: GeneratorConfig;
+  private tools = new Map<string, ToolDefinition>();
+  private provider?: LLMProvider | null;
 
   /**
    * Creates a new ResponseGenerator instance with the specified configuration.
    * 
    * @param config - Configuration object for the generator (optional)
-   * @param config.provider - AI provider ('openai', 'anthropic', or 'custom')
+   * @param config.provider - Registered provider name ('openai', 'anthropic', ...), a provider instance, or 'custom'
    * @param config.apiKey - API key for AI providers
+   * @param config.baseUrl - API base URL, e.g. a local OpenAI-compatible server
+   * @param config.headers - Extra headers sent with every provider request
    * @param config.model - Model name (provider-specific)
    * @param config.systemPrompt - System prompt for AI
    * @param config.temperature - Response creativity 0-1 (default: 0.7)
    * @param config.maxTokens - Maximum response length (default: 150)
    * @param config.customGenerator - Custom generator function
+   * @param config.customStreamGenerator - Custom streaming generator function
+   * @param config.tools - Tools the model may call while generating
+   * @param config.maxToolIterations - Maximum call/result round trips per response (default: 5)
+   * @param config.registry - Registry used to look up the provider name (default: defaultProviderRegistry)
+   * @param config.providers - Providers to try in order behind circuit breakers, replacing `provider`
+   * @param config.circuitBreaker - Circuit breaker settings for `providers`
+   * @param config.fallbackResponse - Canned response returned when every provider fails
+   * @param config.rateLimiter - Rate limiter shared with other analyzers and generators
+   * @param config.clock - Source of time for circuit breaker cooldowns and Retry-After dates (default: systemClock)
    * 
    * @example
    * ```typescript
@@ -67,6 +106,45 @@ export class ResponseGenerator {
       maxTokens: 150,
       ...config
     };
+    
+    (config.tools || []).forEach(tool => this.registerTool(tool));
+  }
+
+  /**
+   * Registers a tool the model can call while generating a response.
+   * A tool registered with an existing name replaces it.
+   * 
+   * @param tool - The tool definition with its JSON-schema parameters and handler
+   * 
+   * @example
+   * ```typescript
+   * generator.registerTool({
+   *   name: 'set_timer',
+   *   description: 'Starts a countdown timer',
+   *   parameters: {
+   *     type: 'object',
+   *     properties: { minutes: { type: 'number' } },
+   *     required: ['minutes']
+   *   },
+   *   handler: async ({ minutes }) => {
+   *     timers.start(minutes);
+   *     return { ok: true };
+   *   }
+   * });
+   * ```
+   */
+  registerTool(tool: ToolDefinition) {
+    this.tools.set(tool.name, tool);
+  }
+
+  /**
+   * Removes a registered tool.
+   * 
+   * @param name - The tool name
+   * @returns True if the tool was registered
+   */
+  unregisterTool(name: string): boolean {
+    return this.tools.delete(name);
   }
 
   /**
@@ -79,8 +157,14 @@ export class ResponseGenerator {
    * @param options.name - Optional name of the assistant being addressed
    * @param options.role - Optional role to adopt when generating responses (e.g. "teacher", "support agent")
    * @param options.contextFile - Optional path to file with additional context or direct content
+   * @param options.signal - Optional AbortSignal that cancels the provider request
+   * @param options.onToolCall - Called before each tool handler runs
+   * @param options.onToolResult - Called with each tool handler's result
+   * @param options.onCircuitStateChange - Called when a provider's circuit breaker changes state
+   * @param options.onUsage - Called with the token usage of each provider call, including every tool-calling round
+   * @param options.span - Span that receives `generation.method` and, for providers, the provider and model
    * @returns Promise resolving to the generated response text
-   * @throws {Error} If generation fails and API key is missing or invalid
+   * @throws {Error} If generation fails and API key is missing or invalid, or an AbortError if cancelled
    * 
    * @example
    * ```typescript
@@ -100,17 +184,154 @@ export class ResponseGenerator {
    * console.log('AI Response:', response);
    * ```
    */
-  async generate(transcript: string, history: Message[], options?: { name?: string; role?: string; contextFile?: string }): Promise<string> {
+  async generate(transcript: string, history: Message[], options?: GenerationOptions): Promise<string> {
     // Use custom generator if provided
     if (this.config.customGenerator) {
-      return this.config.customGenerator(transcript, history);
+      options?.span?.setAttribute('generation.method', 'custom');
+      return this.config.customGenerator(transcript, history, options);
     }
     
-    // Use AI provider
-    if (!this.config.apiKey) {
-      throw new Error('API key required for response generation');
+    const provider = this.requireProvider();
+    const request = await this.buildRequest(transcript, history, options);
+    this.annotate(provider, request, options);
+    
+    try {
+      return await this.completeWithTools(provider, request, options || {});
+    } catch (error) {
+      return this.fallbackFor(error, options);
+    }
+  }
+
+  /**
+   * Generates a response and yields the text as it arrives from the provider.
+   * Concatenating the yielded deltas gives the full response.
+   * 
+   * Custom generators without a `customStreamGenerator` yield their whole result as a single delta,
+   * as do providers while tools are registered, since tool calls must complete before the reply is known.
+   * 
+   * @param transcript - The current transcript text to respond to
+   * @param history - Array of previous messages in the conversation for context
+   * @param options - Additional response configuration options, as for {@link generate}
+   * @returns Async generator yielding response text deltas
+   * @throws {Error} If the provider request fails or the API key is missing, or an AbortError if cancelled
+   * 
+   * @example
+   * ```typescript
+   * let response = '';
+   * for await (const delta of generator.generateStream('Tell me a story', history)) {
+   *   response += delta;
+   *   process.stdout.write(delta);
+   * }
+   * ```
+   */
+  async *generateStream(transcript: string, history: Message[], options?: GenerationOptions): AsyncGenerator<string> {
+    if (this.config.customStreamGenerator) {
+      options?.span?.setAttribute('generation.method', 'custom');
+      for await (const delta of this.config.customStreamGenerator(transcript, history, options)) {
+        throwIfAborted(options?.signal);
+        yield delta;
+      }
+      return;
     }
     
+    if (this.config.customGenerator || this.tools.size > 0) {
+      yield await this.generate(transcript, history, options);
+      return;
+    }
+    
+    const provider = this.requireProvider();
+    const request = await this.buildRequest(transcript, history, options);
+    this.annotate(provider, request, options);
+    
+    let started = false;
+    try {
+      // Providers without streaming still work, just with one delta
+      if (!provider.capabilities.streaming || !provider.stream) {
+        yield (await provider.chat(request, this.callOptions(options))).content;
+        return;
+      }
+      
+      for await (const delta of provider.stream(request, this.callOptions(options))) {
+        started = true;
+        yield delta;
+      }
+    } catch (error) {
+      // Part of a response has already been spoken, so a canned one would not fit
+      if (started) throw error;
+      yield this.fallbackFor(error, options);
+    }
+  }
+
+  private annotate(provider: LLMProvider, request: ChatRequest, options?: GenerationOptions) {
+    options?.span?.setAttributes({
+      'generation.method': 'provider',
+      'gen_ai.system': provider.name,
+      ...(request.model ? { 'gen_ai.request.model': request.model } : {})
+    });
+  }
+
+  private callOptions(options?: GenerationOptions): ProviderCallOptions {
+    return {
+      signal: options?.signal,
+      onCircuitStateChange: options?.onCircuitStateChange,
+      onUsage: options?.onUsage,
+      priority: 'generation'
+    };
+  }
+
+  /**
+   * Returns the canned response for a failed provider request, or rethrows when none is configured.
+   */
+  private fallbackFor(error: unknown, options?: GenerationOptions): string {
+    if (isAbortError(error) || this.config.fallbackResponse === undefined) {
+      throw error;
+    }
+    
+    options?.span?.setAttribute('generation.fallback', true);
+    options?.span?.addEvent('exception', { 'exception.message': (error as Error)?.message || String(error) });
+    return this.config.fallbackResponse;
+  }
+
+  /**
+   * Resolves the configured provider, or the fallback chain when `providers` is set, once.
+   * A missing API key resolves to null.
+   */
+  private getProvider(): LLMProvider | null {
+    if (this.provider === undefined) {
+      this.provider = (this.config.providers?.length
+        ? createProviderChain(
+            this.config.providers.map(entry => ({ clock: this.config.clock, ...entry })),
+            DEFAULT_GENERATION_MODELS,
+            { clock: this.config.clock, ...this.config.circuitBreaker },
+            this.config.registry,
+            this.config.rateLimiter
+          )
+        : this.limit(resolveProvider(
+            this.config.provider,
+            { apiKey: this.config.apiKey, baseUrl: this.config.baseUrl, headers: this.config.headers, clock: this.config.clock },
+            this.config.registry
+          ))) || null;
+    }
+    return this.provider;
+  }
+
+  private limit(provider: LLMProvider | undefined): LLMProvider | undefined {
+    return provider && this.config.rateLimiter ? withRateLimit(provider, this.config.rateLimiter) : provider;
+  }
+
+  private requireProvider(): LLMProvider {
+    if (this.config.provider === 'custom' && !this.config.providers?.length) {
+      throw new Error('Custom provider requires customGenerator');
+    }
+    
+    const provider = this.getProvider();
+    if (!provider) {
+      throw new Error('API key required for response generation');
+    }
+    return provider;
+  }
+
+  private async buildRequest(transcript: string, history: Message[], options?: GenerationOptions): Promise<ChatRequest> {
     // Build system prompt with additional context if available
     let systemPrompt = this.config.systemPrompt || '';
     
@@ -124,6 +345,13 @@ export class ResponseGenerator {
       systemPrompt += `\n\nYou should respond when directly addressed as "${options.name}".`;
     }
     
+    // Tell the model how to read speaker labels in group conversations
+    const isGroup = (options?.speakers?.length || 0) > 1;
+    if (isGroup) {
+      systemPrompt += `\n\nThis is a group conversation between ${options!.speakers!.join(', ')}. ` +
+        'User messages are prefixed with the name of the speaker.';
+    }
+    
     // Load and add context file content if provided
     if (options?.contextFile) {
       try {
@@ -147,76 +375,186 @@ export class ResponseGenerator {
       }
     }
     
-    const messages = [
-      ...(systemPrompt ? [{
-        role: 'system' as const,
-        content: systemPrompt
-      }] : []),
-      ...history.map(msg => ({
-        role: msg.role,
-        content: msg.content
-      })),
-      { role: 'user' as const, content: transcript }
-    ];
-    
-    if (this.config.provider === 'openai') {
-      return this.generateOpenAI(messages);
-    } else if (this.config.provider === 'anthropic') {
-      return this.generateAnthropic(messages);
-    }
-    
-    throw new Error(`Unknown provider: ${this.config.provider}`);
-  }
-
-  private async generateOpenAI(messages: any[]): Promise<string> {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.config.apiKey}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: this.config.model || 'gpt-4o',
-        messages,
-        temperature: this.config.temperature,
-        max_tokens: this.config.maxTokens
-      })
-    });
+    // Older turns that were folded out of the history
+    if (options?.summary) {
+      systemPrompt += `\n\nSummary of the earlier conversation: ${options.summary}`;
+    }
     
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.statusText}`);
-    }
-    
-    const data = await response.json() as any;
-    return data.choices[0].message.content;
-  }
-
-  private async generateAnthropic(messages: any[]): Promise<string> {
-    // Extract system prompt
-    const systemMessage = messages.find(m => m.role === 'system');
-    const userMessages = messages.filter(m => m.role !== 'system');
-    
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'x-api-key': this.config.apiKey!,
-        'anthropic-version': '2023-06-01',
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: this.config.model || 'claude-3-sonnet-20240229',
-        system: systemMessage?.content,
-        messages: userMessages,
-        temperature: this.config.temperature,
-        max_tokens: this.config.maxTokens || 1000
-      })
-    });
+    return {
+      model: this.getModel(),
+      system: systemPrompt || undefined,
+      messages: [
+        ...this.formatHistory(history, isGroup),
+        { role: 'user', content: transcript }
+      ],
+      temperature: this.config.temperature,
+      maxTokens: this.config.maxTokens
+    };
+  }
+
+  /**
+   * Returns the model requests are sent with: the configured model, or the named provider's default.
+   * 
+   * @returns The model, or undefined for provider instances and chains without a configured model
+   */
+  getModel(): string | undefined {
+    const provider = this.config.provider;
+    return this.config.model || (typeof provider === 'string' ? DEFAULT_GENERATION_MODELS[provider] : undefined);
+  }
+
+  /**
+   * Checks whether this generator can summarize history with its provider.
+   * 
+   * @returns True if a provider is configured and usable
+   */
+  canSummarize(): boolean {
+    try {
+      return !!this.getProvider();
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Folds older messages into a running conversation summary using the configured provider.
+   * 
+   * @param messages - Messages being removed from the history
+   * @param previousSummary - The current running summary (may be empty)
+   * @param signal - Optional AbortSignal that cancels the provider request
+   * @param onUsage - Called with the token usage of the provider call
+   * @returns Promise resolving to the updated summary
+   * @throws {Error} If no provider is configured or the request fails
+   * 
+   * @example
+   * ```typescript
+   * const summary = await generator.summarize(oldMessages, 'The user is planning a trip to Japan.');
+   * ```
+   */
+  async summarize(
+    messages: Message[],
+    previousSummary: string,
+    signal?: AbortSignal,
+    onUsage?: (usage: TokenUsage) => void
+  ): Promise<string> {
+    if (!this.canSummarize()) {
+      throw new Error('API key required for summarization');
+    }
+    
+    const conversation = messages
+      .map(msg => `${msg.role === 'assistant' ? 'Assistant' : msg.speaker || 'User'}: ${msg.content}`)
+      .join('\n');
+    
+    const prompt = [
+      previousSummary ? `Summary so far: ${previousSummary}\n` : '',
+      `Conversation:\n${conversation}\n`,
+      'Update the summary so it covers the whole conversation. Keep names, facts, decisions and open questions. ',
+      'Reply with the summary only, in under 150 words.'
+    ].join('\n');
+    
+    const { content } = await this.requireProvider().chat({
+      model: this.getModel(),
+      system: 'You maintain a concise running summary of a conversation.',
+      messages: [{ role: 'user', content: prompt }],
+      temperature: this.config.temperature,
+      maxTokens: 300
+    }, { signal, onUsage, priority: 'background' });
+    
+    return content.trim();
+  }
+
+  private formatHistory(history: Message[], isGroup: boolean): ChatMessage[] {
+    const messages: { role: 'user' | 'assistant'; content: string }[] = [];
     
-    if (!response.ok) {
-      throw new Error(`Anthropic API error: ${response.statusText}`);
+    for (const msg of history) {
+      let content = msg.interrupted
+        ? `${msg.content} [interrupted by the user]`.trim()
+        : msg.content;
+      if (isGroup && msg.speaker) {
+        content = `${msg.speaker}: ${content}`;
+      }
+      
+      // Past tool calls are replayed as notes on the assistant's side; provider-specific
+      // call IDs only need to line up within a single request
+      const role = msg.role === 'tool' ? 'assistant' : msg.role;
+      if (msg.role === 'tool' && msg.tool) {
+        content = `[Called ${msg.tool.name}(${JSON.stringify(msg.tool.arguments)}) -> ${msg.content}]`;
+      }
+      
+      // Consecutive messages with the same role are merged so roles keep alternating
+      const previous = messages[messages.length - 1];
+      if (previous && previous.role === role) {
+        previous.content += `\n${content}`;
+      } else {
+        messages.push({ role, content });
+      }
+    }
+    
+    return messages;
+  }
+
+  /**
+   * Sends the request, running any tool calls the model makes and sending their
+   * results back until it replies with text.
+   */
+  private async completeWithTools(provider: LLMProvider, request: ChatRequest, options: GenerationOptions): Promise<string> {
+    const tools = provider.capabilities.tools && this.tools.size > 0
+      ? [...this.tools.values()].map(({ name, description, parameters }) => ({ name, description, parameters }))
+      : undefined;
+    const messages = [...request.messages];
+    
+    for (let iteration = 0; iteration < this.maxToolIterations(); iteration++) {
+      const response = await provider.chat({ ...request, messages, tools }, this.callOptions(options));
+      if (response.toolCalls.length === 0) {
+        return response.content;
+      }
+      
+      // Echo the tool calls back, followed by one result per call
+      messages.push({ role: 'assistant', content: response.content, toolCalls: response.toolCalls });
+      for (const call of response.toolCalls) {
+        const result = await this.executeTool(call, options);
+        messages.push({
+          role: 'tool',
+          toolCallId: call.id,
+          name: call.name,
+          content: result.content,
+          isError: result.isError
+        });
+      }
+    }
+    
+    throw new Error(`Tool call limit reached after ${this.maxToolIterations()} iterations`);
+  }
+
+  private maxToolIterations(): number {
+    return Math.max(1, this.config.maxToolIterations ?? 5);
+  }
+
+  private async executeTool(call: ToolCall, options: GenerationOptions): Promise<ToolResult> {
+    throwIfAborted(options.signal);
+    options.onToolCall?.(call);
+    
+    const tool = this.tools.get(call.name);
+    let result: ToolResult;
+    
+    if (!tool) {
+      result = { callId: call.id, name: call.name, content: `Error: unknown tool "${call.name}"`, isError: true };
+    } else {
+      try {
+        const output = await tool.handler(call.arguments, { signal: options.signal });
+        result = {
+          callId: call.id,
+          name: call.name,
+          content: typeof output === 'string' ? output : JSON.stringify(output ?? null)
+        };
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        
+        // Report handler failures to the model so it can recover in its reply
+        result = { callId: call.id, name: call.name, content: `Error: ${(error as Error).message}`, isError: true };
+      }
     }
     
-    const data = await response.json() as any;
-    return data.content[0].text;
+    options.onToolResult?.(result);
+    return result;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,166 @@
+import { isAbortError, sleep, throwIfAborted } from './utils';
+import { Clock, systemClock } from './Clock';
+
+export interface RetryPolicyOptions {
+  /** Maximum number of attempts, including the first (default: 3) */
+  maxAttempts?: number;
+  /** Backoff base; attempt n waits up to `baseDelayMs * 2^(n-1)` (default: 1000) */
+  baseDelayMs?: number;
+  /** Upper bound for a single wait (default: 30000) */
+  maxDelayMs?: number;
+  /** Give up rather than wait past this much total time since the first attempt (default: 30000) */
+  maxElapsedMs?: number;
+  /**
+   * - 'full': wait a random time between 0 and the backoff, so clients do not retry in lockstep (default)
+   * - 'none': wait the full backoff
+   */
+  jitter?: 'full' | 'none';
+  /** Decides whether an error is worth retrying (default: `isRetryableError`) */
+  isRetryable?: (error: unknown) => boolean;
+  /** Random number source in [0, 1), for tests (default: Math.random) */
+  random?: () => number;
+  /** Clock for the waits and the elapsed-time cap, for tests (default: systemClock) */
+  clock?: Clock;
+}
+
+/**
+ * A failed attempt, reported before the policy waits for the next one
+ */
+export interface RetryAttempt {
+  /** 1-based attempt number */
+  attempt: number;
+  maxAttempts: number;
+  error: unknown;
+  /** Whether the error is retryable at all */
+  retryable: boolean;
+  /** Whether another attempt follows */
+  willRetry: boolean;
+  /** Wait before the next attempt, when there is one */
+  delayMs?: number;
+}
+
+export interface RetryExecuteOptions {
+  /** Aborting stops waiting and further attempts, rejecting with an AbortError */
+  signal?: AbortSignal;
+  /** Called after every failed attempt, including the last */
+  onAttempt?: (attempt: RetryAttempt) => void;
+}
+
+/**
+ * Classifies an error for retrying. Aborts are never retried; errors with a boolean
+ * `retryable` property, such as ProviderError, decide for themselves; anything else
+ * is assumed to be transient.
+ *
+ * @param error - The error to classify
+ * @returns True if the operation may succeed when tried again
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (isAbortError(error)) return false;
+
+  const retryable = (error as { retryable?: unknown } | null)?.retryable;
+  return typeof retryable === 'boolean' ? retryable : true;
+}
+
+/**
+ * RetryPolicy - Retries failed operations with exponential backoff
+ *
+ * - Exponential backoff with full jitter, capped per wait and in total
+ * - Waits as long as the provider asked for when an error carries `retryAfterMs`
+ *   (ProviderError reads it from the Retry-After header)
+ * - Fatal errors, such as authentication failures and bad requests, fail immediately
+ * - Aborting the signal cancels the wait and any further attempts
+ *
+ * @example
+ * ```typescript
+ * const policy = new RetryPolicy({ maxAttempts: 4, baseDelayMs: 500, maxElapsedMs: 10000 });
+ *
+ * const response = await policy.execute(() => generator.generate(transcript, history), {
+ *   signal,
+ *   onAttempt: ({ attempt, willRetry, delayMs }) => {
+ *     if (willRetry) console.log(`Attempt ${attempt} failed, retrying in ${delayMs}ms`);
+ *   }
+ * });
+ * ```
+ */
+export class RetryPolicy {
+  private maxAttempts: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private maxElapsedMs: number;
+  private jitter: 'full' | 'none';
+  private isRetryable: (error: unknown) => boolean;
+  private random: () => number;
+  private clock: Clock;
+
+  /**
+   * @param options - Attempts, delays and classification, see RetryPolicyOptions
+   */
+  constructor(options: RetryPolicyOptions = {}) {
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? 3);
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+    this.maxDelayMs = options.maxDelayMs ?? 30000;
+    this.maxElapsedMs = options.maxElapsedMs ?? 30000;
+    this.jitter = options.jitter || 'full';
+    this.isRetryable = options.isRetryable || isRetryableError;
+    this.random = options.random || Math.random;
+    this.clock = options.clock || systemClock;
+  }
+
+  /**
+   * Runs the operation, retrying retryable failures until it succeeds or the policy gives up.
+   *
+   * @param fn - The operation; receives the 1-based attempt number
+   * @param options - Abort signal and per-attempt callback
+   * @returns The operation's result
+   * @throws The last error when the policy gives up, or an AbortError if aborted
+   */
+  async execute<T>(fn: (attempt: number) => Promise<T>, options: RetryExecuteOptions = {}): Promise<T> {
+    const { signal, onAttempt } = options;
+    const startedAt = this.clock.now();
+
+    for (let attempt = 1; ; attempt++) {
+      throwIfAborted(signal);
+
+      try {
+        return await fn(attempt);
+      } catch (error) {
+        // Cancellation is final - never retry an aborted operation
+        if (isAbortError(error) || signal?.aborted) throw error;
+
+        const retryable = this.isRetryable(error);
+        const delayMs = this.getDelay(attempt, error);
+        const willRetry = retryable &&
+          attempt < this.maxAttempts &&
+          this.clock.now() - startedAt + delayMs <= this.maxElapsedMs;
+
+        onAttempt?.({
+          attempt,
+          maxAttempts: this.maxAttempts,
+          error,
+          retryable,
+          willRetry,
+          delayMs: willRetry ? delayMs : undefined
+        });
+
+        if (!willRetry) throw error;
+        await sleep(delayMs, signal, this.clock);
+      }
+    }
+  }
+
+  /**
+   * Returns how long to wait after a failed attempt.
+   *
+   * @param attempt - The 1-based number of the attempt that failed
+   * @param error - The error it failed with; its `retryAfterMs` takes precedence over backoff
+   */
+  getDelay(attempt: number, error?: unknown): number {
+    const retryAfterMs = (error as { retryAfterMs?: unknown } | null)?.retryAfterMs;
+    if (typeof retryAfterMs === 'number' && retryAfterMs >= 0) {
+      return retryAfterMs;
+    }
+
+    const backoff = Math.min(this.maxDelayMs, this.baseDelayMs * Math.pow(2, attempt - 1));
+    return this.jitter === 'full' ? Math.floor(this.random() * backoff) : backoff;
+  }
+}
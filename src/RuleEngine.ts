@@ -0,0 +1,335 @@
+import { AnalysisContext } from './types';
+import { EndOfTurnPrediction } from './EndOfTurnDetector';
+import { WakeNameMatch } from './WakeNameMatcher';
+import { LanguagePack, endsSentence } from './LanguagePack';
+import { QuestionClassification } from './QuestionClassifier';
+
+/**
+ * What a rule sees: the analysis context plus features the analyzer has already worked out
+ */
+export interface RuleContext extends AnalysisContext {
+  /** The text being analyzed: `newText` when set, otherwise the transcript */
+  text: string;
+  wordCount: number;
+  /** Language the text was analyzed as */
+  language: LanguagePack;
+  /** Whether the text asks a question or makes a request, with or without a question mark */
+  question: boolean;
+  /** How the question classifier scored the text */
+  questionClassification: QuestionClassification;
+  /** Whether the text opens with a greeting in its language */
+  greeting: boolean;
+  /** Whether the monitor's name was found in the text */
+  addressed: boolean;
+  wakeName?: WakeNameMatch;
+  /** More than one human speaker */
+  isGroup: boolean;
+  /**
+   * Whether the speaker seems to have finished: the end-of-turn detector's verdict if one
+   * is configured, otherwise a sentence ending or more than ten words after 2s of silence
+   */
+  complete: boolean;
+  endOfTurn?: EndOfTurnPrediction;
+}
+
+export type RulePredicate = (text: string, context: RuleContext) => boolean;
+
+/**
+ * One weighted cue in a rule set
+ */
+export interface AnalysisRule {
+  /** Identifier shown in the explanation trace and referenced by `unless` */
+  id: string;
+  /**
+   * What the text must contain: a regex, a list of keywords or phrases (any of them, as
+   * whole words, ignoring case), or a predicate. Without one the rule matches any text.
+   */
+  match?: RegExp | string[] | RulePredicate;
+  /** Confidence added when the rule fires; negative weights count against responding */
+  weight: number;
+  /** Label added to the result's reason when the rule fires */
+  reason?: string | ((context: RuleContext) => string);
+  /**
+   * Whether firing makes the analyzer respond regardless of confidence
+   * - `true`: always
+   * - `'if-addressed-in-group'`: in one-on-one conversations, and in groups only when addressed
+   * - `false`: only adds weight (default)
+   */
+  respond?: boolean | 'if-addressed-in-group';
+  /**
+   * Also evaluate before the analyzer waits out the silence, so a rule that fires and
+   * responds answers straight away (default: false)
+   */
+  immediate?: boolean;
+  /** Only fire after at least this much silence, in ms */
+  minSilenceMs?: number;
+  /** Only fire before this much silence, in ms */
+  maxSilenceMs?: number;
+  /** Only fire with at least this many messages in the conversation history */
+  minHistory?: number;
+  /** Only fire with at most this many messages in the conversation history */
+  maxHistory?: number;
+  /** Only fire in this kind of conversation */
+  conversation?: 'group' | 'one-on-one';
+  /** Do not fire if any of these rules fired; rules are evaluated in order */
+  unless?: string[];
+}
+
+export interface RuleSet {
+  /** Rules in evaluation order */
+  rules: AnalysisRule[];
+  /** Also respond when the summed confidence reaches this (default: only rules with `respond` trigger a response) */
+  respondThreshold?: number;
+  /** Lowest confidence reported (default: 0.1) */
+  minConfidence?: number;
+  /** Highest confidence reported (default: 0.95) */
+  maxConfidence?: number;
+  /** Reason when no rule with a reason fires (default: 'Incomplete or unclear') */
+  defaultReason?: string;
+}
+
+/**
+ * How one rule was evaluated
+ */
+export interface RuleTraceEntry {
+  id: string;
+  fired: boolean;
+  /** Confidence the rule added; 0 when it did not fire */
+  weight: number;
+  reason?: string;
+  /** Why the rule did not fire, e.g. 'no match' or 'silence under 2000ms' */
+  skipped?: string;
+}
+
+export interface RuleEvaluation {
+  shouldRespond: boolean;
+  confidence: number;
+  reason: string;
+  trace: RuleTraceEntry[];
+}
+
+const questionRule: AnalysisRule = {
+  id: 'question',
+  match: (_text, context) => context.question,
+  weight: 0.5,
+  reason: context => context.questionClassification.kind === 'request' ? 'Request detected' : 'Question detected',
+  respond: true,
+  immediate: true
+};
+
+const greetingRule: AnalysisRule = {
+  id: 'greeting',
+  match: (_text, context) => context.greeting,
+  weight: 0.4,
+  reason: 'Greeting detected',
+  respond: 'if-addressed-in-group',
+  immediate: true,
+  unless: ['question']
+};
+
+const addressedRule: AnalysisRule = {
+  id: 'addressed',
+  match: (_text, context) => context.addressed,
+  weight: 0.3,
+  reason: context => `Directly addressed as ${context.name}`,
+  respond: true
+};
+
+const roleRule: AnalysisRule = {
+  id: 'role',
+  match: (_text, context) => !!context.role?.trim(),
+  weight: 0.1
+};
+
+const completeRule: AnalysisRule = {
+  id: 'complete',
+  match: (_text, context) => context.complete,
+  weight: 0.2,
+  reason: 'Complete statement',
+  respond: 'if-addressed-in-group'
+};
+
+/**
+ * Built-in rule sets
+ * - `default`: responds to questions, being addressed, and greetings or complete statements
+ *   unless they are meant for others in a group
+ * - `addressed-only`: responds only when addressed by name, e.g. in meetings
+ * - `responsive`: also responds to statements after a shorter pause and to any greeting
+ */
+export const RULE_PRESETS: Record<'default' | 'addressed-only' | 'responsive', RuleSet> = {
+  default: {
+    rules: [addressedRule, questionRule, greetingRule, roleRule, completeRule]
+  },
+  'addressed-only': {
+    rules: [
+      addressedRule,
+      { ...questionRule, respond: false },
+      { ...greetingRule, respond: false },
+      roleRule
+    ]
+  },
+  responsive: {
+    rules: [
+      addressedRule,
+      questionRule,
+      { ...greetingRule, respond: true },
+      roleRule,
+      completeRule,
+      {
+        id: 'statement',
+        match: (text, context) => !context.question && endsSentence(text, context.language),
+        minSilenceMs: 1000,
+        weight: 0.2,
+        reason: 'Statement after a pause',
+        respond: 'if-addressed-in-group',
+        unless: ['complete']
+      }
+    ]
+  }
+};
+
+export type RulePresetName = keyof typeof RULE_PRESETS;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Builds a pattern that finds any of the keywords or phrases as whole words, ignoring case.
+ */
+export function keywordPattern(keywords: string[]): RegExp {
+  return new RegExp(`(^|[^\\p{L}\\p{N}])(${keywords.map(escapeRegExp).join('|')})(?=$|[^\\p{L}\\p{N}])`, 'iu');
+}
+
+/**
+ * RuleEngine - Scores a transcript against a declarative rule set
+ *
+ * Rules fire in order when their matcher and conditions hold. Confidence is the sum of the
+ * fired weights, clamped; the reasons of fired rules are joined; and every rule's outcome is
+ * kept in a trace that explains the decision.
+ *
+ * @example
+ * ```typescript
+ * const analyzer = new TranscriptAnalyzer({
+ *   provider: 'custom',
+ *   rules: {
+ *     ...RULE_PRESETS.default,
+ *     rules: [
+ *       ...RULE_PRESETS.default.rules,
+ *       { id: 'urgent', match: ['urgent', 'asap', 'right now'], weight: 0.4, reason: 'Urgent request', respond: true },
+ *       { id: 'thanks', match: /^(thanks|thank you)\b/i, weight: -0.5, maxHistory: 0 }
+ *     ]
+ *   }
+ * });
+ * ```
+ */
+export class RuleEngine {
+  private ruleSet: RuleSet;
+  private matchers: RulePredicate[];
+
+  /**
+   * @param ruleSet - A preset name or a rule set (default: 'default')
+   * @throws {Error} If the preset is unknown or two rules share an ID
+   */
+  constructor(ruleSet: RulePresetName | RuleSet = 'default') {
+    if (typeof ruleSet === 'string') {
+      if (!RULE_PRESETS[ruleSet]) {
+        throw new Error(`Unknown rule preset: ${ruleSet}`);
+      }
+      ruleSet = RULE_PRESETS[ruleSet];
+    }
+
+    const ids = new Set<string>();
+    ruleSet.rules.forEach(rule => {
+      if (ids.has(rule.id)) throw new Error(`Duplicate rule ID: ${rule.id}`);
+      ids.add(rule.id);
+    });
+
+    this.ruleSet = ruleSet;
+    this.matchers = ruleSet.rules.map(rule => this.createMatcher(rule.match));
+  }
+
+  /**
+   * Evaluates every rule against the text.
+   *
+   * @param context - The text and the features rules can test
+   * @param options.immediateOnly - Evaluate only rules marked `immediate`, e.g. before the silence wait
+   * @returns The decision, its confidence and reason, and the trace of every rule evaluated
+   */
+  evaluate(context: RuleContext, options: { immediateOnly?: boolean } = {}): RuleEvaluation {
+    const { respondThreshold, minConfidence = 0.1, maxConfidence = 0.95 } = this.ruleSet;
+    const fired = new Set<string>();
+    const reasons: string[] = [];
+    const trace: RuleTraceEntry[] = [];
+    let confidence = 0;
+    let shouldRespond = false;
+
+    this.ruleSet.rules.forEach((rule, index) => {
+      if (options.immediateOnly && !rule.immediate) return;
+
+      const skipped = this.checkConditions(rule, context, fired) ||
+        (this.matchers[index](context.text, context) ? undefined : 'no match');
+      if (skipped) {
+        trace.push({ id: rule.id, fired: false, weight: 0, skipped });
+        return;
+      }
+
+      const reason = typeof rule.reason === 'function' ? rule.reason(context) : rule.reason;
+      fired.add(rule.id);
+      confidence += rule.weight;
+      if (reason) reasons.push(reason);
+      if (rule.respond === true || (rule.respond === 'if-addressed-in-group' && (!context.isGroup || context.addressed))) {
+        shouldRespond = true;
+      }
+      trace.push({ id: rule.id, fired: true, weight: rule.weight, ...(reason ? { reason } : {}) });
+    });
+
+    confidence = Math.min(maxConfidence, Math.max(minConfidence, confidence));
+    if (respondThreshold !== undefined && confidence >= respondThreshold) {
+      shouldRespond = true;
+    }
+
+    let reason = reasons
+      .map((label, index) => index === 0 ? label : label.charAt(0).toLowerCase() + label.slice(1))
+      .join(', ');
+    if (context.isGroup && !shouldRespond && reason) {
+      reason = `${reason} in group conversation, not addressed`;
+    }
+
+    return { shouldRespond, confidence, reason: reason || this.ruleSet.defaultReason || 'Incomplete or unclear', trace };
+  }
+
+  private checkConditions(rule: AnalysisRule, context: RuleContext, fired: Set<string>): string | undefined {
+    const history = context.conversationHistory.length;
+
+    const after = rule.unless?.find(id => fired.has(id));
+    if (after) return `after ${after}`;
+    if (rule.minSilenceMs !== undefined && context.silenceDuration < rule.minSilenceMs) {
+      return `silence under ${rule.minSilenceMs}ms`;
+    }
+    if (rule.maxSilenceMs !== undefined && context.silenceDuration >= rule.maxSilenceMs) {
+      return `silence over ${rule.maxSilenceMs}ms`;
+    }
+    if (rule.minHistory !== undefined && history < rule.minHistory) {
+      return `fewer than ${rule.minHistory} history messages`;
+    }
+    if (rule.maxHistory !== undefined && history > rule.maxHistory) {
+      return `more than ${rule.maxHistory} history messages`;
+    }
+    if (rule.conversation === 'group' && !context.isGroup) return 'not a group conversation';
+    if (rule.conversation === 'one-on-one' && context.isGroup) return 'group conversation';
+    return undefined;
+  }
+
+  private createMatcher(match: AnalysisRule['match']): RulePredicate {
+    if (!match) return () => true;
+    if (typeof match === 'function') return match;
+    if (match instanceof RegExp) {
+      // Global and sticky regexes keep state between tests, so match with a fresh copy
+      return text => new RegExp(match.source, match.flags.replace(/[gy]/g, '')).test(text);
+    }
+
+    const pattern = keywordPattern(match);
+    return text => match.length > 0 && pattern.test(text);
+  }
+}
@@ -0,0 +1,190 @@
+import { EventEmitter } from 'events';
+import { MONITOR_EVENTS, TranscriptMonitor, withSharedRateLimiter } from './TranscriptMonitor';
+import { TranscriptAnalyzer } from './TranscriptAnalyzer';
+import { ResponseGenerator } from './ResponseGenerator';
+import { SimpleStorage } from './storage';
+import { LabeledMetricsSnapshot } from './MetricsCollector';
+import { MonitorConfig, StorageInterface } from './types';
+import { systemClock } from './Clock';
+
+/**
+ * SessionManager - Runs many independent conversations in one process
+ *
+ * Each session gets its own TranscriptMonitor with its own history and turn state,
+ * while the manager takes care of the shared parts:
+ * - One analyzer and one generator instance shared by every session, so provider
+ *   clients and their limits are shared too
+ * - One storage, with keys namespaced by session ID
+ * - Monitor events re-emitted with the session ID as the first argument
+ *
+ * @example
+ * ```typescript
+ * import { SessionManager } from 'transcript-monitor-agent';
+ *
+ * const sessions = new SessionManager({
+ *   analyzer: { provider: 'openai', apiKey: process.env.OPENAI_API_KEY },
+ *   generator: { provider: 'openai', apiKey: process.env.OPENAI_API_KEY }
+ * });
+ *
+ * sessions.on('responseGenerated', (sessionId, response) => {
+ *   sendToCall(sessionId, response);
+ * });
+ *
+ * const monitor = await sessions.create(callId);
+ * monitor.updateTranscript('Hello, can you hear me?');
+ *
+ * // When the call ends
+ * sessions.dispose(callId);
+ * ```
+ *
+ * @fires SessionManager#sessionCreated
+ * @fires SessionManager#sessionDisposed
+ */
+export class SessionManager extends EventEmitter {
+  private config: MonitorConfig;
+  private storage: StorageInterface;
+  private analyzer: TranscriptAnalyzer;
+  private generator: ResponseGenerator;
+  private sessions = new Map<string, TranscriptMonitor>();
+
+  /**
+   * Creates a new SessionManager.
+   *
+   * @param config - Monitor configuration applied to every session (optional)
+   * @param config.storage - Storage shared by all sessions (default: a new SimpleStorage)
+   * @param config.analyzer - Analyzer configuration; one analyzer instance is shared by all sessions
+   * @param config.generator - Generator configuration; one generator instance is shared by all sessions
+   * @param config.rateLimiter - Rate limiter shared by every session's provider calls
+   * @param config.clock - Source of time for every session, including the shared analyzer's and generator's
+   *   circuit breakers (default: systemClock)
+   */
+  constructor(config: MonitorConfig = {}) {
+    super();
+
+    const clock = config.clock || systemClock;
+    this.config = config;
+    this.storage = config.storage || new SimpleStorage();
+    this.analyzer = new TranscriptAnalyzer({ clock, ...withSharedRateLimiter(config.analyzer, config.rateLimiter) });
+    this.generator = new ResponseGenerator({ clock, ...withSharedRateLimiter(config.generator, config.rateLimiter) });
+  }
+
+  /**
+   * Creates and starts a monitor for a new session.
+   *
+   * @param sessionId - Unique ID for the session, also used as its storage namespace
+   * @param overrides - Per-session configuration merged over the manager's defaults.
+   *   Sessions that override `analyzer`, `generator`, `rateLimiter` or `clock` get their own
+   *   analyzer and generator instead of the shared ones.
+   * @returns Promise resolving to the started monitor
+   * @throws {Error} If a session with the same ID already exists
+   * @throws {Error} If the monitor fails to start; the session is removed again
+   *
+   * @fires SessionManager#sessionCreated Once the monitor has started
+   */
+  async create(sessionId: string, overrides: Omit<MonitorConfig, 'storage' | 'namespace'> = {}): Promise<TranscriptMonitor> {
+    if (this.sessions.has(sessionId)) {
+      throw new Error(`Session already exists: ${sessionId}`);
+    }
+
+    // The shared instances were built with the manager's limiter and clock
+    const ownServices = !!(overrides.rateLimiter || overrides.clock);
+    const monitor = new TranscriptMonitor(
+      {
+        ...this.config,
+        ...overrides,
+        storage: this.storage,
+        namespace: sessionId
+      },
+      {
+        analyzer: overrides.analyzer || ownServices ? undefined : this.analyzer,
+        generator: overrides.generator || ownServices ? undefined : this.generator
+      }
+    );
+
+    this.sessions.set(sessionId, monitor);
+    this.forwardEvents(sessionId, monitor);
+
+    try {
+      await monitor.start();
+    } catch (error) {
+      // Free the ID so the session can be created again; stopping also ends event forwarding
+      this.sessions.delete(sessionId);
+      monitor.stop();
+      throw error;
+    }
+
+    this.emit('sessionCreated', sessionId);
+    return monitor;
+  }
+
+  /**
+   * Returns the monitor for a session, or undefined if there is none.
+   *
+   * @param sessionId - The session ID
+   */
+  get(sessionId: string): TranscriptMonitor | undefined {
+    return this.sessions.get(sessionId);
+  }
+
+  /**
+   * Checks whether a session exists.
+   *
+   * @param sessionId - The session ID
+   */
+  has(sessionId: string): boolean {
+    return this.sessions.has(sessionId);
+  }
+
+  /**
+   * Returns the IDs of all active sessions.
+   */
+  list(): string[] {
+    return [...this.sessions.keys()];
+  }
+
+  /**
+   * Returns every session's metrics, labelled with its session ID, ready for `formatPrometheus`.
+   *
+   * @example
+   * ```typescript
+   * res.end(formatPrometheus(sessions.getMetrics()));
+   * ```
+   */
+  getMetrics(): LabeledMetricsSnapshot[] {
+    return [...this.sessions.entries()].map(([session, monitor]) => ({
+      labels: { session },
+      snapshot: monitor.getMetrics()
+    }));
+  }
+
+  /**
+   * Stops a session's monitor and removes the session.
+   *
+   * @param sessionId - The session ID
+   * @returns True if the session existed
+   *
+   * @fires SessionManager#sessionDisposed
+   */
+  dispose(sessionId: string): boolean {
+    const monitor = this.sessions.get(sessionId);
+    if (!monitor) return false;
+
+    this.sessions.delete(sessionId);
+    monitor.stop();
+    this.emit('sessionDisposed', sessionId);
+    return true;
+  }
+
+  /**
+   * Stops and removes every session.
+   */
+  disposeAll() {
+    this.list().forEach(sessionId => this.dispose(sessionId));
+  }
+
+  private forwardEvents(sessionId: string, monitor: TranscriptMonitor) {
+    MONITOR_EVENTS.forEach(event => {
+      monitor.on(event, (...args: any[]) => this.emit(event, sessionId, ...args));
+    });
+  }
+}
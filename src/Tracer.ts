@@ -0,0 +1,255 @@
+import { isAbortError } from './utils';
+import { Clock, systemClock } from './Clock';
+
+export type SpanAttributeValue = string | number | boolean;
+export type SpanAttributes = Record<string, SpanAttributeValue>;
+
+/**
+ * - `unset`: the operation finished without a verdict (also used for cancelled work)
+ * - `ok`: the operation succeeded
+ * - `error`: the operation failed
+ */
+export type SpanStatusCode = 'unset' | 'ok' | 'error';
+
+/**
+ * A timed operation within a trace. Spans started with a parent share its trace ID.
+ */
+export interface Span {
+  readonly name: string;
+  readonly traceId: string;
+  readonly spanId: string;
+  readonly parentSpanId?: string;
+  setAttribute(key: string, value: SpanAttributeValue): this;
+  setAttributes(attributes: SpanAttributes): this;
+  /** Records something that happened at a point in time during the span */
+  addEvent(name: string, attributes?: SpanAttributes): this;
+  setStatus(code: SpanStatusCode, message?: string): this;
+  /** Records an error as an `exception` event and marks the span as failed */
+  recordException(error: unknown): this;
+  /**
+   * @param endTime - End time in ms (default: the tracer's clock)
+   */
+  end(endTime?: number): void;
+}
+
+export interface SpanOptions {
+  /** Span to nest under; without one the span starts a new trace */
+  parent?: Span;
+  attributes?: SpanAttributes;
+  /** Start time in ms, for work that began before the span was created (default: the tracer's clock) */
+  startTime?: number;
+}
+
+/**
+ * Creates spans. Implement it to bridge to OpenTelemetry or another tracing backend.
+ */
+export interface Tracer {
+  startSpan(name: string, options?: SpanOptions): Span;
+}
+
+/**
+ * A finished span as handed to exporters
+ */
+export interface ReadableSpan {
+  name: string;
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  /** Start and end times in ms */
+  startTime: number;
+  endTime: number;
+  /** endTime - startTime, in ms */
+  duration: number;
+  attributes: SpanAttributes;
+  events: { name: string; time: number; attributes: SpanAttributes }[];
+  status: { code: SpanStatusCode; message?: string };
+}
+
+/**
+ * Receives spans as they end
+ */
+export interface SpanExporter {
+  export(spans: ReadableSpan[]): void;
+}
+
+function randomHex(length: number): string {
+  let hex = '';
+  while (hex.length < length) {
+    hex += Math.floor(Math.random() * 0x100000000).toString(16).padStart(8, '0');
+  }
+  return hex.slice(0, length);
+}
+
+class RecordingSpan implements Span {
+  readonly traceId: string;
+  readonly spanId = randomHex(16);
+  readonly parentSpanId?: string;
+  private startTime: number;
+  private attributes: SpanAttributes;
+  private events: ReadableSpan['events'] = [];
+  private status: ReadableSpan['status'] = { code: 'unset' };
+  private ended = false;
+
+  constructor(
+    readonly name: string,
+    options: SpanOptions,
+    private exporter: SpanExporter,
+    private clock: Clock
+  ) {
+    this.traceId = options.parent?.traceId || randomHex(32);
+    this.parentSpanId = options.parent?.spanId;
+    this.startTime = options.startTime ?? clock.now();
+    this.attributes = { ...options.attributes };
+  }
+
+  setAttribute(key: string, value: SpanAttributeValue): this {
+    this.attributes[key] = value;
+    return this;
+  }
+
+  setAttributes(attributes: SpanAttributes): this {
+    Object.assign(this.attributes, attributes);
+    return this;
+  }
+
+  addEvent(name: string, attributes: SpanAttributes = {}): this {
+    this.events.push({ name, time: this.clock.now(), attributes });
+    return this;
+  }
+
+  setStatus(code: SpanStatusCode, message?: string): this {
+    this.status = { code, message };
+    return this;
+  }
+
+  recordException(error: unknown): this {
+    const message = (error as Error)?.message || String(error);
+    this.addEvent('exception', { 'exception.type': (error as Error)?.name || 'Error', 'exception.message': message });
+    return this.setStatus('error', message);
+  }
+
+  end(endTime: number = this.clock.now()) {
+    // Ending twice is a no-op, as in OpenTelemetry
+    if (this.ended) return;
+    this.ended = true;
+
+    this.exporter.export([{
+      name: this.name,
+      traceId: this.traceId,
+      spanId: this.spanId,
+      parentSpanId: this.parentSpanId,
+      startTime: this.startTime,
+      endTime,
+      duration: endTime - this.startTime,
+      attributes: { ...this.attributes },
+      events: [...this.events],
+      status: { ...this.status }
+    }]);
+  }
+}
+
+/**
+ * BasicTracer - Records spans and hands each one to an exporter when it ends
+ *
+ * @example
+ * ```typescript
+ * const exporter = new InMemorySpanExporter();
+ * const monitor = new TranscriptMonitor({ tracer: new BasicTracer(exporter), ...config });
+ *
+ * monitor.on('responseGenerated', () => {
+ *   for (const span of exporter.getFinishedSpans()) {
+ *     console.log(`${span.name} ${span.duration}ms`, span.attributes);
+ *   }
+ * });
+ * ```
+ */
+export class BasicTracer implements Tracer {
+  /**
+   * @param exporter - Receives every span when it ends
+   * @param clock - Clock for span and event times; use the monitor's clock (default: systemClock)
+   */
+  constructor(private exporter: SpanExporter, private clock: Clock = systemClock) {}
+
+  startSpan(name: string, options: SpanOptions = {}): Span {
+    return new RecordingSpan(name, options, this.exporter, this.clock);
+  }
+}
+
+/**
+ * InMemorySpanExporter - Keeps finished spans in memory for tests and local tools
+ */
+export class InMemorySpanExporter implements SpanExporter {
+  private spans: ReadableSpan[] = [];
+
+  export(spans: ReadableSpan[]) {
+    this.spans.push(...spans);
+  }
+
+  /**
+   * Returns finished spans in the order they ended.
+   *
+   * @param traceId - Only return spans from this trace (optional)
+   */
+  getFinishedSpans(traceId?: string): ReadableSpan[] {
+    return traceId ? this.spans.filter(span => span.traceId === traceId) : [...this.spans];
+  }
+
+  /**
+   * Clears the recorded spans.
+   */
+  reset() {
+    this.spans = [];
+  }
+}
+
+const noopSpan: Span = {
+  name: '',
+  traceId: '',
+  spanId: '',
+  setAttribute() { return this; },
+  setAttributes() { return this; },
+  addEvent() { return this; },
+  setStatus() { return this; },
+  recordException() { return this; },
+  end() {}
+};
+
+/**
+ * Tracer that records nothing, used when no tracer is configured
+ */
+export const noopTracer: Tracer = {
+  startSpan: () => noopSpan
+};
+
+/**
+ * Runs an operation inside a new span. The span ends when the operation settles; failures
+ * are recorded as exceptions, while aborts only set `cancelled` so they do not count as errors.
+ *
+ * @param tracer - Tracer to start the span with
+ * @param name - Span name
+ * @param options - Parent, attributes and start time
+ * @param fn - The operation; receives the span so it can add attributes
+ * @returns The operation's result
+ */
+export async function withSpan<T>(
+  tracer: Tracer,
+  name: string,
+  options: SpanOptions,
+  fn: (span: Span) => Promise<T>
+): Promise<T> {
+  const span = tracer.startSpan(name, options);
+  try {
+    const result = await fn(span);
+    span.setStatus('ok');
+    return result;
+  } catch (error) {
+    if (isAbortError(error)) {
+      span.setAttribute('cancelled', true);
+    } else {
+      span.recordException(error);
+    }
+    throw error;
+  } finally {
+    span.end();
+  }
+}
@@ -1,16 +1,44 @@
-import { AnalyzerConfig, AnalysisContext, AnalysisResult } from './types';
+import { AnalyzerConfig, AnalysisContext, AnalysisResult, AnalyzeOptions, LLMProvider } from './types';
+import { resolveProvider } from './ProviderRegistry';
+import { createProviderChain } from './ProviderChain';
+import { withRateLimit } from './RateLimiter';
+import { isAbortError, throwIfAborted } from './utils';
+import { EndOfTurnPrediction } from './EndOfTurnDetector';
+import { WakeNameMatch, WakeNameMatcher, stripWakeName } from './WakeNameMatcher';
+import { RuleContext, RuleEngine } from './RuleEngine';
+import { LANGUAGE_PACKS, LanguagePack, countWords, detectLanguage, endsSentence, isGreeting } from './LanguagePack';
+import { QuestionClassification, QuestionClassifier } from './QuestionClassifier';
+import { IntentClassifier } from './IntentClassifier';
+
+/**
+ * Default analysis models for the built-in providers; other providers use their own default
+ */
+const DEFAULT_ANALYSIS_MODELS: Record<string, string> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-haiku-20240307'
+};
+
+/**
+ * What the analyzer learned about a turn before deciding, worked out once per analysis
+ */
+interface TurnSignals {
+  wakeName?: WakeNameMatch;
+  question: QuestionClassification;
+  endOfTurn?: EndOfTurnPrediction;
+}
 
 /**
  * TranscriptAnalyzer - Analyzes transcript content to determine if and when a response is needed
  * 
  * The analyzer evaluates transcripts based on multiple factors including:
  * - Content relevance and question detection
- * - Named addressing (when a name parameter is provided)
- * - Silence duration thresholds
+ * - Named addressing (when a name parameter is provided), tolerant of misheard names
+ * - Group conversations, where only direct addressing or questions warrant a response
+ * - Silence duration thresholds, or a pluggable end-of-turn detector
  * - Word count minimums
  * - Context-specific rules based on role or additional context
  * 
- * The analyzer supports multiple AI providers and can be extended with custom analysis logic.
+ * The analyzer works with any provider in the provider registry and can be extended with custom analysis logic.
  * 
  * @example
  * ```typescript
@@ -38,17 +66,38 @@ import { AnalyzerConfig, AnalysisContext, AnalysisResult } from './types';
  */
 export class TranscriptAnalyzer {
   private config: AnalyzerConfig;
+  private provider?: LLMProvider | null;
+  private wakeNameMatcher?: { name: string; matcher: WakeNameMatcher };
+  private ruleEngine?: RuleEngine;
+  private language: LanguagePack | 'auto';
+  private questionClassifier: QuestionClassifier;
+  private intentClassifier?: IntentClassifier;
 
   /**
    * Creates a new TranscriptAnalyzer instance with the specified configuration.
    * 
    * @param config - Configuration object for the analyzer (optional)
-   * @param config.provider - AI provider ('openai', 'anthropic', or 'custom')
+   * @param config.provider - Registered provider name ('openai', 'anthropic', ...), a provider instance, or 'custom'
    * @param config.apiKey - API key for AI providers
+   * @param config.baseUrl - API base URL, e.g. a local OpenAI-compatible server
+   * @param config.headers - Extra headers sent with every provider request
    * @param config.model - Model name (provider-specific)
    * @param config.minWords - Minimum word count before analysis (default: 5)
    * @param config.maxSilenceMs - Maximum silence duration in ms (default: 1500)
+   * @param config.endOfTurnDetector - Predicts whether the speaker is done, replacing the `maxSilenceMs` check
+   * @param config.minEndOfTurnProbability - Completion probability needed before responding (default: 0.5)
+   * @param config.wakeName - Aliases and matching thresholds for recognizing the monitor's name
+   * @param config.rules - Rule preset or rule set used by rule-based analysis (default: 'default')
+   * @param config.language - Language code, language pack or 'auto' (default: 'en')
+   * @param config.languagePacks - Packs to detect the language among (default: LANGUAGE_PACKS)
+   * @param config.questionClassifier - Threshold and request phrases for recognizing unpunctuated questions
+   * @param config.intents - Intents to label each result with, e.g. DEFAULT_INTENTS (default: none)
    * @param config.customAnalyzer - Custom analyzer function
+   * @param config.registry - Registry used to look up the provider name (default: defaultProviderRegistry)
+   * @param config.providers - Providers to try in order behind circuit breakers, replacing `provider`
+   * @param config.circuitBreaker - Circuit breaker settings for `providers`
+   * @param config.rateLimiter - Rate limiter shared with other analyzers and generators
+   * @param config.clock - Source of time for circuit breaker cooldowns and Retry-After dates (default: systemClock)
    * 
    * @example
    * ```typescript
@@ -68,6 +117,11 @@ export class TranscriptAnalyzer {
       maxSilenceMs: 1500,
       ...config
     };
+    this.language = this.resolveLanguage();
+    this.questionClassifier = new QuestionClassifier(config.questionClassifier);
+    if (config.intents) {
+      this.intentClassifier = new IntentClassifier(config.intents);
+    }
   }
 
   /**
@@ -81,11 +135,20 @@ export class TranscriptAnalyzer {
    * @param context.previousTranscript - Previous transcript text
    * @param context.silenceDuration - Duration of silence in milliseconds
    * @param context.conversationHistory - Array of previous conversation messages
+   * @param context.newText - Finalized text since the last turn; analyzed in place of `transcript` when present
+   * @param context.speaker - Optional speaker of the most recent segment
+   * @param context.speakers - Optional list of human speakers; more than one marks a group conversation
    * @param context.name - Optional monitor name for direct addressing
    * @param context.role - Optional monitor role for contextual behavior
    * @param context.contextFile - Optional context file path or content
+   * @param options - Optional per-call settings
+   * @param options.signal - AbortSignal that cancels the analysis, including any provider request
+   * @param options.onCircuitStateChange - Called when a provider's circuit breaker changes state
+   * @param options.onUsage - Called with the token usage of each provider call
+   * @param options.skipProvider - Use the rule-based analysis instead of the provider, e.g. once a budget is spent
+   * @param options.span - Span that receives `analysis.method` and, for AI analysis, the provider and model
    * @returns Promise resolving to an AnalysisResult with response recommendation
-   * @throws {Error} If analysis fails and no fallback is available
+   * @throws {Error} If analysis fails and no fallback is available, or an AbortError if cancelled
    * 
    * @example
    * ```typescript
@@ -103,9 +166,21 @@ export class TranscriptAnalyzer {
    * }
    * ```
    */
-  async analyze(transcript: string, context: AnalysisContext): Promise<AnalysisResult> {
+  async analyze(transcript: string, context: AnalysisContext, options: AnalyzeOptions = {}): Promise<AnalysisResult> {
+    throwIfAborted(options.signal);
+    
+    // Only judge what was said since the last turn, not the whole accumulated transcript
+    if (context.newText) {
+      transcript = context.newText;
+    }
+    
+    options.span?.setAttribute('analysis.method', 'rules');
+    
+    const language = this.selectLanguage(transcript);
+    context = { ...context, language };
+    
     // Basic checks
-    const wordCount = transcript.split(/\s+/).filter(w => w.length > 0).length;
+    const wordCount = countWords(transcript, language);
     
     if (wordCount < (this.config.minWords || 5)) {
       return {
@@ -115,20 +190,96 @@ export class TranscriptAnalyzer {
       };
     }
     
-    // Check for immediate response triggers BEFORE silence duration
-    const hasQuestion = transcript.includes('?');
-    const hasGreeting = /^(hi|hello|hey)/i.test(transcript);
+    const endOfTurn = await this.detectEndOfTurn(transcript, context, options);
+    const wakeName = this.findWakeName(transcript, context);
+    const question = this.classifyQuestion(transcript, context, wakeName);
+    const result = await this.decide(transcript, context, options, { wakeName, question, endOfTurn });
+    // The AI analyzer chooses an intent itself; everything else falls back to keywords
+    const intent = result.intent || this.intentClassifier?.classify(transcript, question);
+    if (intent) {
+      options.span?.setAttribute('analysis.intent', intent.label);
+    }
+    return {
+      ...result,
+      ...(endOfTurn ? { endOfTurn } : {}),
+      ...(wakeName ? { wakeName } : {}),
+      ...(question.isQuestion ? { question } : {}),
+      ...(intent ? { intent } : {}),
+      ...(this.language === 'auto' ? { language: language.code } : {})
+    };
+  }
+
+  private resolveLanguage(): LanguagePack | 'auto' {
+    const { language = 'en', languagePacks = [] } = this.config;
+    if (typeof language !== 'string' || language === 'auto') return language;
+    
+    const pack = languagePacks.find(candidate => candidate.code === language) || LANGUAGE_PACKS[language];
+    if (!pack) {
+      throw new Error(`Unknown language: ${language}`);
+    }
+    return pack;
+  }
+
+  private selectLanguage(transcript: string): LanguagePack {
+    if (this.language !== 'auto') return this.language;
+    
+    const candidates = this.config.languagePacks?.length ? this.config.languagePacks : Object.values(LANGUAGE_PACKS);
+    return detectLanguage(transcript, candidates) || candidates[0];
+  }
+
+  private async detectEndOfTurn(
+    transcript: string,
+    context: AnalysisContext,
+    options: AnalyzeOptions
+  ): Promise<EndOfTurnPrediction | undefined> {
+    if (!this.config.endOfTurnDetector) return undefined;
     
-    if (hasQuestion || hasGreeting) {
+    const prediction = await this.config.endOfTurnDetector.detect(transcript, context);
+    throwIfAborted(options.signal);
+    options.span?.setAttribute('analysis.end_of_turn_probability', prediction.probability);
+    return prediction;
+  }
+
+  private async decide(
+    transcript: string,
+    context: AnalysisContext,
+    options: AnalyzeOptions,
+    signals: TurnSignals
+  ): Promise<AnalysisResult> {
+    const { question, endOfTurn } = signals;
+    // A speaker who is not done gets to finish, even mid-question
+    if (endOfTurn && endOfTurn.probability < this.minEndOfTurnProbability()) {
+      return {
+        shouldRespond: false,
+        confidence: Math.max(0.5, 1 - endOfTurn.probability),
+        reason: `User may still be speaking (${endOfTurn.reason.toLowerCase()})`
+      };
+    }
+    
+    if (question.cues.length) {
+      options.span?.setAttribute('analysis.question_confidence', question.confidence);
+    }
+    
+    // Check for immediate response triggers BEFORE silence duration
+    // Requests phrased as statements are weaker cues, so they wait for the silence check
+    const hasQuestion = question.isQuestion && question.kind === 'question';
+    const immediate = this.getRuleEngine().evaluate(
+      { ...this.buildRuleContext(transcript, context, signals), question: hasQuestion },
+      { immediateOnly: true }
+    );
+    if (immediate.shouldRespond) {
+      const fired = immediate.trace.filter(entry => entry.fired).map(entry => entry.id);
+      options.span?.setAttribute('analysis.rules_fired', fired.join(','));
       return {
         shouldRespond: true,
-        confidence: 0.9,
-        reason: hasQuestion ? 'Question detected' : 'Greeting detected'
+        confidence: hasQuestion ? question.confidence : 0.9,
+        reason: immediate.reason,
+        ruleTrace: immediate.trace
       };
     }
     
-    // Only check silence duration for non-obvious cases
-    if (context.silenceDuration < (this.config.maxSilenceMs || 1500)) {
+    // Only check silence duration for non-obvious cases; a detector has already judged the pause
+    if (!endOfTurn && context.silenceDuration < (this.config.maxSilenceMs || 1500)) {
       return {
         shouldRespond: false,
         confidence: 0.5,
@@ -138,30 +289,88 @@ export class TranscriptAnalyzer {
     
     // Use custom analyzer if provided
     if (this.config.customAnalyzer) {
-      return this.config.customAnalyzer(transcript, context);
+      options.span?.setAttribute('analysis.method', 'custom');
+      return this.config.customAnalyzer(transcript, context, options);
     }
     
     // AI-based analysis
-    if (this.config.provider !== 'custom' && this.config.apiKey) {
-      return this.aiAnalysis(transcript, context);
+    const provider = options.skipProvider ? null : this.getProvider(options);
+    if (provider) {
+      return this.aiAnalysis(provider, transcript, context, options, signals);
     }
     
     // Simple rule-based fallback
-    return this.ruleBasedAnalysis(transcript, context);
+    return this.ruleBasedAnalysis(transcript, context, options, signals);
   }
 
-  private async aiAnalysis(transcript: string, context: AnalysisContext): Promise<AnalysisResult> {
+  private minEndOfTurnProbability(): number {
+    return this.config.minEndOfTurnProbability ?? 0.5;
+  }
+
+  /**
+   * Resolves the configured provider, or the fallback chain when `providers` is set, once.
+   * Unknown names and missing API keys resolve to null, leaving the rule-based analysis.
+   */
+  private getProvider(options: AnalyzeOptions): LLMProvider | null {
+    if (this.provider === undefined) {
+      try {
+        this.provider = (this.config.providers?.length
+          ? createProviderChain(
+              this.config.providers.map(entry => ({ clock: this.config.clock, ...entry })),
+              DEFAULT_ANALYSIS_MODELS,
+              { clock: this.config.clock, ...this.config.circuitBreaker },
+              this.config.registry,
+              this.config.rateLimiter
+            )
+          : this.limit(resolveProvider(
+              this.config.provider,
+              { apiKey: this.config.apiKey, baseUrl: this.config.baseUrl, headers: this.config.headers, clock: this.config.clock },
+              this.config.registry
+            ))) || null;
+      } catch (error) {
+        options.span?.setAttribute('analysis.fallback', true);
+        options.span?.addEvent('exception', { 'exception.message': (error as Error)?.message || String(error) });
+        this.provider = null;
+      }
+    }
+    return this.provider;
+  }
+
+  private limit(provider: LLMProvider | undefined): LLMProvider | undefined {
+    return provider && this.config.rateLimiter ? withRateLimit(provider, this.config.rateLimiter) : provider;
+  }
+
+  private async aiAnalysis(
+    provider: LLMProvider,
+    transcript: string,
+    context: AnalysisContext,
+    options: AnalyzeOptions,
+    signals: TurnSignals
+  ): Promise<AnalysisResult> {
+    const { question, endOfTurn } = signals;
     // Build detailed context for analysis
     let analysisContext = `${context.silenceDuration}ms of silence, ${context.conversationHistory.length} previous messages`;
     
+    if (endOfTurn) {
+      analysisContext += `\nProbability the speaker has finished: ${endOfTurn.probability} (${endOfTurn.reason.toLowerCase()})`;
+    }
+    
+    // Speech-to-text often drops question marks, so say how likely a question is
+    if (question.cues.length) {
+      analysisContext += `\nProbability this asks something: ${question.confidence} (${question.cues.join(', ')})`;
+    }
+    
     // Add name-based context - check if monitor is being directly addressed
     if (context.name && context.name.trim() !== '') {
-      const nameLower = context.name.toLowerCase().trim();
-      const transcriptLower = transcript.toLowerCase();
-      
-      // Check if name is mentioned in transcript
-      const isAddressed = transcriptLower.includes(nameLower);
-      analysisContext += `\nMonitor name: "${context.name}", directly addressed: ${isAddressed}`;
+      analysisContext += `\nMonitor name: "${context.name}", directly addressed: ${!!signals.wakeName}`;
+    }
+    
+    // Add speaker context so group conversations are not treated as one-on-one
+    if (this.isGroupConversation(context)) {
+      analysisContext += `\nGroup conversation between: ${context.speakers!.join(', ')}`;
+    }
+    if (context.speaker) {
+      analysisContext += `\nCurrent speaker: ${context.speaker}`;
     }
     
     // Add role-based context to influence analysis
@@ -177,36 +386,95 @@ export class TranscriptAnalyzer {
       analysisContext += `\nAdditional context available: ${contextPreview}`;
     }
     
+    const schema = this.intentClassifier
+      ? '{ "shouldRespond": boolean, "confidence": 0-1, "reason": "brief explanation", "intent": "one of the intents or null", "intentConfidence": 0-1 }'
+      : '{ "shouldRespond": boolean, "confidence": 0-1, "reason": "brief explanation" }';
     const prompt = `
 Analyze if this transcript needs a response:
-"${transcript}"
+"${this.formatTranscript(transcript, context)}"
 
 Context: ${analysisContext}
 
 ${this.buildAnalysisInstructions(context)}
-
-Return JSON: { "shouldRespond": boolean, "confidence": 0-1, "reason": "brief explanation" }
+${this.buildIntentInstructions()}
+Return JSON: ${schema}
 `;
 
+    const name = this.config.provider;
+    const model = this.config.model || (typeof name === 'string' ? DEFAULT_ANALYSIS_MODELS[name] : undefined);
+    options.span?.setAttributes({
+      'analysis.method': 'ai',
+      'gen_ai.system': provider.name,
+      ...(model ? { 'gen_ai.request.model': model } : {})
+    });
+    
     try {
-      let response: string;
-      
-      if (this.config.provider === 'openai') {
-        response = await this.callOpenAI(prompt);
-      } else if (this.config.provider === 'anthropic') {
-        response = await this.callAnthropic(prompt);
-      } else {
-        throw new Error(`Unknown provider: ${this.config.provider}`);
-      }
+      const { content } = await provider.chat({
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: 0.3,
+        maxTokens: 200,
+        json: provider.capabilities.json
+      }, {
+        signal: options.signal,
+        onCircuitStateChange: options.onCircuitStateChange,
+        onUsage: options.onUsage,
+        priority: 'analysis'
+      });
       
-      return this.parseAndValidateResponse(response, transcript, context);
+      return this.parseAndValidateResponse(content, transcript, context, options, signals);
     } catch (error) {
+      // Cancellation must reach the caller rather than fall back
+      if (isAbortError(error)) throw error;
+      
       // Fallback to rule-based
-      return this.ruleBasedAnalysis(transcript, context);
+      options.span?.setAttributes({ 'analysis.method': 'rules', 'analysis.fallback': true });
+      options.span?.addEvent('exception', { 'exception.message': (error as Error)?.message || String(error) });
+      return this.ruleBasedAnalysis(transcript, context, options, signals);
+    }
+  }
+
+  private findWakeName(transcript: string, context: AnalysisContext): WakeNameMatch | undefined {
+    const name = context.name?.trim();
+    if (!name) return undefined;
+    
+    // The name comes with each call, so the matcher is rebuilt only when it changes
+    if (this.wakeNameMatcher?.name !== name) {
+      this.wakeNameMatcher = { name, matcher: new WakeNameMatcher(name, this.config.wakeName) };
     }
+    return this.wakeNameMatcher.matcher.match(transcript);
+  }
+
+  private classifyQuestion(transcript: string, context: AnalysisContext, wakeName?: WakeNameMatch): QuestionClassification {
+    // "Ava, can you..." is an inversion once the name is out of the way
+    const text = wakeName ? stripWakeName(transcript, wakeName) : transcript;
+    return this.questionClassifier.classify(text, context.language || LANGUAGE_PACKS.en);
+  }
+
+  private isGroupConversation(context: AnalysisContext): boolean {
+    return (context.speakers?.length || 0) > 1;
   }
 
-  private parseAndValidateResponse(response: string, transcript: string, context: AnalysisContext): AnalysisResult {
+  /**
+   * Labels each segment with its speaker in group conversations so the model knows who said what
+   */
+  private formatTranscript(transcript: string, context: AnalysisContext): string {
+    if (!this.isGroupConversation(context) || !context.segments?.length) {
+      return transcript;
+    }
+    
+    return context.segments
+      .map(segment => segment.speaker ? `${segment.speaker}: ${segment.text.trim()}` : segment.text.trim())
+      .join('\n');
+  }
+
+  private parseAndValidateResponse(
+    response: string,
+    transcript: string,
+    context: AnalysisContext,
+    options: AnalyzeOptions,
+    signals: TurnSignals
+  ): AnalysisResult {
     try {
       const parsed = JSON.parse(response);
       
@@ -223,18 +491,39 @@ Return JSON: { "shouldRespond": boolean, "confidence": 0-1, "reason": "brief exp
         throw new Error('Invalid reason field');
       }
       
+      const confidence = Math.max(0, Math.min(1, parsed.confidence)); // Clamp to 0-1 range
+      // An unknown or missing intent is left to the keyword fallback
+      const intentConfidence = typeof parsed.intentConfidence === 'number' ? Math.max(0, Math.min(1, parsed.intentConfidence)) : confidence;
+      const intent = this.intentClassifier?.labels.includes(parsed.intent)
+        ? { label: parsed.intent as string, confidence: intentConfidence, source: 'ai' as const }
+        : undefined;
+      
       return {
         shouldRespond: parsed.shouldRespond,
-        confidence: Math.max(0, Math.min(1, parsed.confidence)), // Clamp to 0-1 range
-        reason: parsed.reason.substring(0, 200) // Limit reason length
+        confidence,
+        reason: parsed.reason.substring(0, 200), // Limit reason length
+        ...(intent ? { intent } : {})
       };
     } catch (error) {
       // If parsing fails, fall back to rule-based analysis
       console.warn('AI response parsing failed, using rule-based fallback:', error);
-      return this.ruleBasedAnalysis(transcript, context);
+      return this.ruleBasedAnalysis(transcript, context, options, signals);
     }
   }
 
+  /**
+   * Lists the configured intents for the AI analyzer to choose from
+   * @returns Intent instructions, or an empty string without intents
+   */
+  private buildIntentInstructions(): string {
+    if (!this.intentClassifier) return '';
+    
+    const intents = this.config.intents!
+      .map(intent => `- ${intent.label}${intent.description ? `: ${intent.description}` : ''}`)
+      .join('\n');
+    return `Classify what kind of response is needed as one of these intents:\n${intents}\n`;
+  }
+
   /**
    * Builds specific instructions for analysis based on context parameters
    * @param context Analysis context containing role and other information
@@ -248,6 +537,11 @@ Return JSON: { "shouldRespond": boolean, "confidence": 0-1, "reason": "brief exp
       instructions += `If the user directly addresses "${context.name}", increase confidence in responding.`;
     }
     
+    // Group conversations need a higher bar than one-on-one
+    if (this.isGroupConversation(context)) {
+      instructions += `\n\nThis is a group conversation. Participants often talk to each other, so only respond when addressed or asked a question meant for you.`;
+    }
+    
     // Add generic role-based instructions
     if (context.role && context.role.trim() !== '') {
       instructions += `\n\nConsider the context of acting in the role of: ${context.role}`;
@@ -262,95 +556,50 @@ Return JSON: { "shouldRespond": boolean, "confidence": 0-1, "reason": "brief exp
     return instructions;
   }
 
-  private ruleBasedAnalysis(transcript: string, context: AnalysisContext): AnalysisResult {
-    const hasQuestion = transcript.includes('?');
-    const hasGreeting = /^(hi|hello|hey)/i.test(transcript);
-    const seemsComplete = /[.!?]$/.test(transcript) || transcript.split(/\s+/).length > 10;
-    let baseConfidence = 0.0;
-    let shouldRespond = false;
-    let reason = '';
-    
-    // Check for direct addressing by name
-    const isDirectlyAddressed = context.name && 
-                               context.name.trim() !== '' && 
-                               transcript.toLowerCase().includes(context.name.toLowerCase().trim());
-    
-    // Direct addressing significantly increases confidence
-    if (isDirectlyAddressed) {
-      baseConfidence += 0.3; // Substantial boost for being directly addressed
-      reason = `Directly addressed as ${context.name}`;
-      shouldRespond = true;
-    }
-    
-    // Standard checks
-    if (hasQuestion) {
-      baseConfidence += 0.5;
-      shouldRespond = true;
-      reason = reason ? `${reason}, question detected` : 'Question detected';
-    } else if (hasGreeting) {
-      baseConfidence += 0.4;
-      shouldRespond = true;
-      reason = reason ? `${reason}, greeting detected` : 'Greeting detected';
-    }
-    
-    // Generic role-based adjustment - just add a small boost when role is provided
-    if (context.role && context.role.trim() !== '') {
-      // Small boost for having context about the role
-      baseConfidence += 0.1;
-    }
-    
-    // Complete statement check
-    if (seemsComplete && context.silenceDuration > 2000) {
-      baseConfidence += 0.2;
-      shouldRespond = shouldRespond || true; // Only set true if not already set
-      reason = reason ? `${reason}, complete statement` : 'Complete statement';
-    }
-    
-    // Final confidence calculation
-    const finalConfidence = Math.min(0.95, Math.max(0.1, baseConfidence)); // Clamp between 0.1 and 0.95
-    
-    return {
-      shouldRespond: shouldRespond,
-      confidence: finalConfidence,
-      reason: reason || 'Incomplete or unclear'
-    };
+  private ruleBasedAnalysis(
+    transcript: string,
+    context: AnalysisContext,
+    options: AnalyzeOptions,
+    signals: TurnSignals
+  ): AnalysisResult {
+    const { shouldRespond, confidence, reason, trace } = this.getRuleEngine().evaluate(
+      this.buildRuleContext(transcript, context, signals)
+    );
+
+    const fired = trace.filter(entry => entry.fired).map(entry => entry.id);
+    options.span?.setAttribute('analysis.rules_fired', fired.join(','));
+    return { shouldRespond, confidence, reason, ruleTrace: trace };
   }
 
-  private async callOpenAI(prompt: string): Promise<string> {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.config.apiKey}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: this.config.model || 'gpt-4o-mini',
-        messages: [{ role: 'user', content: prompt }],
-        temperature: 0.3,
-        response_format: { type: 'json_object' }
-      })
-    });
-    
-    const data = await response.json() as any;
-    return data.choices[0].message.content;
+  private buildRuleContext(transcript: string, context: AnalysisContext, signals: TurnSignals): RuleContext {
+    const language = context.language || LANGUAGE_PACKS.en;
+    const wordCount = countWords(transcript, language);
+    const { wakeName, question, endOfTurn } = signals;
+    // The detector has weighed the pause already; without one, a complete statement needs 2s of silence
+    const complete = endOfTurn
+      ? endOfTurn.probability >= this.minEndOfTurnProbability()
+      : (endsSentence(transcript, language) || wordCount > 10) && context.silenceDuration > 2000;
+
+    return {
+      ...context,
+      text: transcript,
+      wordCount,
+      addressed: !!wakeName,
+      ...(wakeName ? { wakeName } : {}),
+      language,
+      question: question.isQuestion,
+      questionClassification: question,
+      greeting: isGreeting(transcript, language),
+      isGroup: this.isGroupConversation(context),
+      complete,
+      ...(endOfTurn ? { endOfTurn } : {})
+    };
   }
 
-  private async callAnthropic(prompt: string): Promise<string> {
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'x-api-key': this.config.apiKey!,
-        'anthropic-version': '2023-06-01',
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: this.config.model || 'claude-3-haiku-20240307',
-        messages: [{ role: 'user', content: prompt }],
-        max_tokens: 200
-      })
-    });
-    
-    const data = await response.json() as any;
-    return data.content[0].text;
+  private getRuleEngine(): RuleEngine {
+    if (!this.ruleEngine) {
+      this.ruleEngine = new RuleEngine(this.config.rules);
+    }
+    return this.ruleEngine;
   }
 }
\ No newline at end of file
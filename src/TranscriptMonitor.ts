@@ -1,18 +1,120 @@
 import { EventEmitter } from 'events';
 import { TranscriptAnalyzer } from './TranscriptAnalyzer';
 import { ResponseGenerator } from './ResponseGenerator';
-import { debounce, retry } from './utils';
-import { MonitorConfig, Message, StorageInterface } from './types';
+import { TurnQueue } from './TurnQueue';
+import { HistoryManager } from './HistoryManager';
+import { SentenceChunker } from './streaming';
+import { deserializeConversation, serializeConversation } from './persistence';
+import { RetryExecuteOptions, RetryPolicy } from './RetryPolicy';
+import { RateLimiter } from './RateLimiter';
+import { MetricsCollector, MetricsSnapshot, TurnOutcome } from './MetricsCollector';
+import { Span, SpanAttributes, Tracer, noopTracer, withSpan } from './Tracer';
+import { Clock, TimerHandle, systemClock } from './Clock';
+import { UsageStage, UsageTotals, UsageTracker, addUsage, emptyUsage } from './UsageTracker';
+import { createAbortError, debounce, isAbortError, throwIfAborted } from './utils';
+import {
+  AnalysisContext,
+  AnalysisResult,
+  GenerationOptions,
+  IntentHandler,
+  MonitorConfig,
+  Message,
+  StorageInterface,
+  ToolCall,
+  ToolResult,
+  TokenUsage,
+  TranscriptSegment,
+  UsageSummary
+} from './types';
+
+/**
+ * Pre-built components a monitor can use instead of creating its own from config,
+ * so several monitors can share one analyzer and generator.
+ */
+export interface MonitorServices {
+  analyzer?: TranscriptAnalyzer;
+  generator?: ResponseGenerator;
+}
+
+/**
+ * Applies the monitor-level rate limiter to an analyzer or generator config that has none of its own.
+ */
+export function withSharedRateLimiter<T extends { rateLimiter?: RateLimiter }>(config: T | undefined, rateLimiter?: RateLimiter): T {
+  return { ...config, rateLimiter: config?.rateLimiter || rateLimiter } as T;
+}
+
+/**
+ * Every public event a monitor emits. SessionManager re-emits these with the session ID
+ * as the first argument.
+ */
+export const MONITOR_EVENTS = [
+  'started',
+  'transcriptChanged',
+  'analysisComplete',
+  'responseDelta',
+  'responseSentence',
+  'responseGenerated',
+  'responseCancelled',
+  'toolCalled',
+  'toolResult',
+  'circuitStateChanged',
+  'retryAttempt',
+  'budgetExceeded',
+  'turnQueued',
+  'turnMerged',
+  'turnDropped',
+  'intentHandled',
+  'historySummarized',
+  'historySummaryFailed',
+  'historyRestored',
+  'historyRestoreFailed',
+  'error'
+];
+
+interface DebounceWindow {
+  startedAt: number;
+  endedAt: number;
+}
+
+function usageAttributes(usage: UsageSummary): SpanAttributes {
+  if (usage.calls === 0) return {};
+  return {
+    'gen_ai.usage.input_tokens': usage.promptTokens,
+    'gen_ai.usage.output_tokens': usage.completionTokens,
+    'usage.cost': usage.cost
+  };
+}
+
+interface ActiveTurn {
+  transcript: string;
+  /** Finalized segments making up the turn, when the transcript is fed as segments */
+  segments?: TranscriptSegment[];
+  controller: AbortController;
+  stage: 'analysis' | 'generation';
+  cancelReason?: string;
+  /** Text streamed so far, kept so an interrupted response can be recorded */
+  partialResponse?: string;
+  /** Tool calls made while generating, recorded between the user and assistant messages */
+  toolMessages: Message[];
+  /** Root span of the turn's trace */
+  span: Span;
+  /** Span of the current generation attempt, which tool calls are recorded on */
+  stageSpan?: Span;
+  /** When the current stage started, for latency metrics */
+  stageStartedAt: number;
+  /** Tokens and cost of the turn's provider calls, by stage */
+  usage: Record<ActiveTurn['stage'], UsageSummary>;
+}
 
 /**
  * TranscriptMonitor - The main class that orchestrates real-time transcript monitoring and response generation
  * 
  * This class handles: 
- * - Receiving and processing transcript updates
+ * - Receiving and processing transcript updates, as full strings or as STT segments
  * - Debouncing transcript changes
  * - Analyzing when a response is needed
  * - Generating intelligent AI responses
- * - Maintaining conversation history
+ * - Maintaining conversation history within a token budget, optionally persisted through storage
  * - Emitting relevant events for integration
  * 
  * @example
@@ -46,19 +148,56 @@ import { MonitorConfig, Message, StorageInterface } from './types';
  * 
  * @fires TranscriptMonitor#transcriptChanged
  * @fires TranscriptMonitor#analysisComplete
+ * @fires TranscriptMonitor#responseDelta
+ * @fires TranscriptMonitor#responseSentence
  * @fires TranscriptMonitor#responseGenerated
+ * @fires TranscriptMonitor#responseCancelled
+ * @fires TranscriptMonitor#toolCalled
+ * @fires TranscriptMonitor#toolResult
+ * @fires TranscriptMonitor#circuitStateChanged
+ * @fires TranscriptMonitor#retryAttempt
+ * @fires TranscriptMonitor#budgetExceeded
+ * @fires TranscriptMonitor#turnQueued
+ * @fires TranscriptMonitor#turnMerged
+ * @fires TranscriptMonitor#turnDropped
+ * @fires TranscriptMonitor#intentHandled
+ * @fires TranscriptMonitor#historySummarized
+ * @fires TranscriptMonitor#historySummaryFailed
+ * @fires TranscriptMonitor#historyRestored
+ * @fires TranscriptMonitor#historyRestoreFailed
  * @fires TranscriptMonitor#error
  * @fires TranscriptMonitor#started
  */
 export class TranscriptMonitor extends EventEmitter {
-  private config: Required<MonitorConfig>;
+  private config: Omit<Required<MonitorConfig>, 'rateLimiter'> & Pick<MonitorConfig, 'rateLimiter'>;
   private analyzer: TranscriptAnalyzer;
   private generator: ResponseGenerator;
   private storage: StorageInterface;
+  private transcriptKey: string;
   private lastTranscript: string = '';
-  private lastChangeTime: number = Date.now();
+  private lastTurnTranscript: string = '';
+  private segments: TranscriptSegment[] = [];
+  private segmentMode: boolean = false;
+  private speakers = new Set<string>();
+  private lastChangeTime: number;
   private conversationHistory: Message[] = [];
+  private historyManager: HistoryManager;
+  private retryPolicy: RetryPolicy;
+  private usageTracker: UsageTracker;
+  private budgetExceeded: boolean = false;
+  private metrics: MetricsCollector;
+  private tracer: Tracer;
+  private clock: Clock;
+  /** Timer that analyzes the transcript again once the speaker's silence threshold has passed */
+  private endOfTurnRecheck?: TimerHandle;
+  /** Start of the transcript changes the debounce is currently waiting on */
+  private debounceStartedAt?: number;
+  private turnCount: number = 0;
+  private lastTurnAt?: number;
   private isProcessing: boolean = false;
+  private turnQueue: TurnQueue;
+  private activeTurn: ActiveTurn | null = null;
+  private intentHandlers = new Map<string, IntentHandler>();
   private processTranscript: (transcript: string, silenceDuration: number) => void;
 
   /**
@@ -74,6 +213,21 @@ export class TranscriptMonitor extends EventEmitter {
    * @param config.name - Optional name for direct addressing
    * @param config.role - Optional role description for contextual behavior
    * @param config.contextFile - Optional context file path or content
+   * @param config.queuePolicy - How transcripts arriving mid-turn are handled (default: 'sequential')
+   * @param config.maxQueueSize - Maximum pending turns for the 'sequential' policy (default: 10)
+   * @param config.interruptionMode - Whether new speech cancels the in-flight turn (default: 'none')
+   * @param config.streaming - Stream responses and emit partial-response events (default: false)
+   * @param config.speakerPolicy - Per-speaker rules such as only responding to the host
+   * @param config.namespace - Optional prefix for storage keys, e.g. a session ID
+   * @param config.persistHistory - Save history through storage and restore it on start (default: false)
+   * @param config.history - History token budget and summarization settings
+   * @param config.retry - Retry policy for failed analysis and generation attempts
+   * @param config.rateLimiter - Rate limiter for the analyzer's and generator's provider calls
+   * @param config.usage - Model prices and an optional spend limit
+   * @param config.metrics - Latency histogram buckets and percentile window
+   * @param config.tracer - Tracer that receives a trace per turn
+   * @param config.clock - Source of time and timers, e.g. a VirtualClock in tests (default: systemClock)
+   * @param services - Optional analyzer and generator instances to use instead of building them from config
    * 
    * @example
    * ```typescript
@@ -88,33 +242,74 @@ export class TranscriptMonitor extends EventEmitter {
    * });
    * ```
    */
-  constructor(config: MonitorConfig = {}) {
+  constructor(config: MonitorConfig = {}, services: MonitorServices = {}) {
     super();
     
     // Set defaults
+    const clock = config.clock || systemClock;
     this.config = {
       storage: config.storage || this.createDefaultStorage(),
-      analyzer: config.analyzer || {},
-      generator: config.generator || {},
+      analyzer: { clock, ...withSharedRateLimiter(config.analyzer, config.rateLimiter) },
+      generator: { clock, ...withSharedRateLimiter(config.generator, config.rateLimiter) },
       debounceMs: config.debounceMs ?? 1000,
       pollingIntervalMs: config.pollingIntervalMs ?? 500,
       maxPollingIntervalMs: config.maxPollingIntervalMs ?? 5000,
       name: config.name || '',
       role: config.role || '',
-      contextFile: config.contextFile || ''
+      contextFile: config.contextFile || '',
+      queuePolicy: config.queuePolicy || 'sequential',
+      maxQueueSize: config.maxQueueSize ?? 10,
+      interruptionMode: config.interruptionMode || 'none',
+      streaming: config.streaming ?? false,
+      speakerPolicy: config.speakerPolicy || {},
+      namespace: config.namespace || '',
+      persistHistory: config.persistHistory ?? false,
+      history: config.history || {},
+      retry: config.retry || {},
+      rateLimiter: config.rateLimiter,
+      usage: config.usage || {},
+      metrics: config.metrics || {},
+      tracer: config.tracer || noopTracer,
+      clock
     };
     
     this.storage = this.config.storage;
-    this.analyzer = new TranscriptAnalyzer(this.config.analyzer);
-    this.generator = new ResponseGenerator(this.config.generator);
+    this.clock = this.config.clock;
+    this.lastChangeTime = this.clock.now();
+    this.retryPolicy = new RetryPolicy({ clock: this.clock, ...this.config.retry });
+    this.usageTracker = new UsageTracker(this.config.usage.prices);
+    this.metrics = new MetricsCollector(this.config.metrics);
+    this.tracer = this.config.tracer;
+    this.turnQueue = new TurnQueue(this.config.queuePolicy, this.config.maxQueueSize);
+    this.transcriptKey = this.storageKey('transcript');
+    this.analyzer = services.analyzer || new TranscriptAnalyzer(this.config.analyzer);
+    this.generator = services.generator || new ResponseGenerator(this.config.generator);
+    this.historyManager = this.createHistoryManager();
     
     // Debounce transcript processing
     this.processTranscript = debounce(
       this._processTranscript.bind(this),
-      this.config.debounceMs
+      this.config.debounceMs,
+      this.clock
     );
   }
 
+  private createHistoryManager(): HistoryManager {
+    const { history } = this.config;
+    
+    let summarizer = history.summarizer;
+    if (!summarizer && this.generator.canSummarize()) {
+      summarizer = (messages, previousSummary) =>
+        this.generator.summarize(messages, previousSummary, undefined, usage => this.recordUsage('summary', usage));
+    }
+    
+    return new HistoryManager(history, history.summarize === false ? undefined : summarizer, this.generator.getModel());
+  }
+
+  private storageKey(key: string): string {
+    return this.config.namespace ? `${this.config.namespace}:${key}` : key;
+  }
+
   private createDefaultStorage(): StorageInterface {
     // Simple in-memory storage
     const store = new Map<string, string>();
@@ -131,8 +326,9 @@ export class TranscriptMonitor extends EventEmitter {
   /**
    * Starts monitoring for transcript changes using either subscription or polling.
    * 
-   * @param transcriptKey - The storage key to monitor for transcript changes (default: 'transcript')
-   * @returns Promise that resolves when monitoring starts successfully
+   * @param transcriptKey - The storage key to monitor for transcript changes (default: 'transcript').
+   *   Prefixed with the configured namespace, if any.
+   * @returns Promise that resolves when monitoring starts successfully, after any saved history is restored
    * @throws {Error} If storage operations fail during startup
    * 
    * @example
@@ -144,13 +340,21 @@ export class TranscriptMonitor extends EventEmitter {
    * await monitor.start('custom-transcript-key');
    * ```
    * 
+   * @fires TranscriptMonitor#historyRestored
+   * @fires TranscriptMonitor#historyRestoreFailed
    * @fires TranscriptMonitor#started
    */
   async start(transcriptKey: string = 'transcript') {
+    this.transcriptKey = this.storageKey(transcriptKey);
+    
+    if (this.config.persistHistory) {
+      await this.restoreHistory();
+    }
+    
     // Set up polling or subscription
     if (this.storage.subscribe) {
       // Use subscription if available
-      const unsubscribe = this.storage.subscribe(transcriptKey, (transcript) => {
+      const unsubscribe = this.storage.subscribe(this.transcriptKey, (transcript) => {
         this.handleTranscriptChange(transcript);
       });
       
@@ -158,11 +362,11 @@ export class TranscriptMonitor extends EventEmitter {
     } else {
       // Fall back to adaptive polling
       let currentInterval = this.config.pollingIntervalMs;
-      let pollTimeout: NodeJS.Timeout;
+      let pollTimeout: TimerHandle | undefined;
       
       const poll = async () => {
         try {
-          const transcript = await this.storage.get(transcriptKey);
+          const transcript = await this.storage.get(this.transcriptKey);
           if (transcript !== this.lastTranscript) {
             this.handleTranscriptChange(transcript);
             // Reset to faster polling when changes detected
@@ -178,14 +382,14 @@ export class TranscriptMonitor extends EventEmitter {
           this.emit('error', error);
         }
         
-        pollTimeout = setTimeout(poll, currentInterval);
+        pollTimeout = this.clock.setTimeout(poll, currentInterval);
       };
       
       // Start polling
       poll();
       
       this.once('stop', () => {
-        if (pollTimeout) clearTimeout(pollTimeout);
+        if (pollTimeout !== undefined) this.clock.clearTimeout(pollTimeout);
       });
     }
     
@@ -208,85 +412,650 @@ export class TranscriptMonitor extends EventEmitter {
    * @fires TranscriptMonitor#transcriptChanged
    */
   async updateTranscript(transcript: string) {
-    await this.storage.set('transcript', transcript);
+    await this.storage.set(this.transcriptKey, transcript);
     this.handleTranscriptChange(transcript);
   }
 
+  /**
+   * Adds a transcript segment from the STT engine and triggers processing.
+   * Interim segments are shown in `transcriptChanged` but only finalized segments are analyzed.
+   * Appending a segment whose ID already exists replaces that segment.
+   * Segments from speakers in `speakerPolicy.ignore` are discarded.
+   * 
+   * @param segment - The segment to add
+   * 
+   * @example
+   * ```typescript
+   * monitor.appendSegment({ id: 'seg-1', text: 'Can you', speaker: 'alice', isFinal: false });
+   * monitor.updateSegment('seg-1', { text: 'Can you check my order?', isFinal: true });
+   * ```
+   * 
+   * @fires TranscriptMonitor#transcriptChanged
+   */
+  appendSegment(segment: TranscriptSegment) {
+    this.segmentMode = true;
+    
+    const index = this.segments.findIndex(existing => existing.id === segment.id);
+    if (this.isIgnoredSpeaker(segment.speaker)) {
+      if (index !== -1) this.segments.splice(index, 1);
+      return;
+    }
+    
+    if (segment.speaker) this.speakers.add(segment.speaker);
+    if (index === -1) {
+      this.segments.push({ ...segment });
+    } else {
+      this.segments[index] = { ...segment };
+    }
+    
+    this.handleTranscriptChange(this.joinSegments(this.segments));
+  }
+
+  /**
+   * Updates a previously appended segment, typically to revise interim text or mark it final.
+   * 
+   * @param id - The ID of the segment to update
+   * @param update - The fields to change
+   * @throws {Error} If no pending segment has the given ID
+   * 
+   * @fires TranscriptMonitor#transcriptChanged
+   */
+  updateSegment(id: string, update: Partial<Omit<TranscriptSegment, 'id'>>) {
+    const index = this.segments.findIndex(segment => segment.id === id);
+    if (index === -1) {
+      throw new Error(`Unknown transcript segment: ${id}`);
+    }
+    
+    this.appendSegment({ ...this.segments[index], ...update });
+  }
+
+  /**
+   * Returns the segments received since the last turn the monitor responded to.
+   * 
+   * @returns Copies of the pending segments, in arrival order
+   */
+  getSegments(): TranscriptSegment[] {
+    return this.segments.map(segment => ({ ...segment }));
+  }
+
+  private isIgnoredSpeaker(speaker?: string): boolean {
+    return !!speaker && !!this.config.speakerPolicy.ignore?.includes(speaker);
+  }
+
+  private shouldConsiderSpeaker(speaker?: string): boolean {
+    const respondTo = this.config.speakerPolicy.respondTo;
+    return !respondTo || !speaker || respondTo.includes(speaker);
+  }
+
+  private isGroupConversation(): boolean {
+    return this.speakers.size > 1;
+  }
+
+  private joinSegments(segments: TranscriptSegment[]): string {
+    return segments.map(segment => segment.text.trim()).filter(text => text).join(' ');
+  }
+
   private handleTranscriptChange(transcript: string) {
-    const now = Date.now();
+    const now = this.clock.now();
     
     this.lastChangeTime = now;
     this.lastTranscript = transcript;
+    this.debounceStartedAt ??= now;
+    this.clearEndOfTurnRecheck();
     
     this.emit('transcriptChanged', transcript);
     
+    // Barge-in: the user moved on, so the in-flight turn is stale
+    if (this.config.interruptionMode === 'cancel' && this.activeTurn?.transcript !== transcript) {
+      this.cancelActiveTurn('barge-in');
+    }
+    
     // Process with debounce - silence duration calculated at processing time
     this.processTranscript(transcript, 0); // Will be recalculated in _processTranscript
   }
 
   private async _processTranscript(transcript: string, silenceDuration: number) {
+    let debounce: DebounceWindow | undefined;
+    if (this.debounceStartedAt !== undefined) {
+      debounce = { startedAt: this.debounceStartedAt, endedAt: this.clock.now() };
+      this.metrics.observe('debounceWait', debounce.endedAt - debounce.startedAt);
+      this.debounceStartedAt = undefined;
+    }
+    
     if (!transcript.trim()) return;
     
     // Atomic check-and-set to prevent race conditions
-    if (this.isProcessing) return;
+    if (this.isProcessing) {
+      this.enqueueTurn(transcript);
+      return;
+    }
     this.isProcessing = true;
     
+    try {
+      let next: string | undefined = transcript;
+      
+      while (next !== undefined) {
+        await this.runTurn(next, debounce);
+        next = this.turnQueue.shift()?.transcript;
+        debounce = undefined;
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private enqueueTurn(transcript: string) {
+    const { action, turn, dropped } = this.turnQueue.enqueue(transcript, this.clock.now());
+    
+    dropped.forEach(droppedTurn => {
+      this.emit('turnDropped', {
+        transcript: droppedTurn.transcript,
+        reason: this.config.queuePolicy === 'latest' ? 'superseded' : 'queue-full'
+      });
+    });
+    
+    if (action === 'merged') {
+      this.emit('turnMerged', { transcript: turn.transcript, queueLength: this.turnQueue.length });
+    } else {
+      this.emit('turnQueued', { transcript: turn.transcript, queueLength: this.turnQueue.length });
+    }
+  }
+
+  /**
+   * @param debounce - The debounce wait that led to this turn, traced as its first span
+   */
+  private async runTurn(transcript: string, debounce?: DebounceWindow) {
+    // With segments, a turn covers only the finalized text since the last response
+    const segments = this.segmentMode ? this.segments.filter(segment => segment.isFinal) : undefined;
+    if (segments) {
+      transcript = this.joinSegments(segments);
+      if (!transcript) return;
+    }
+    
+    const speaker = segments?.filter(segment => segment.speaker).pop()?.speaker;
+    
+    const span = this.tracer.startSpan('turn', {
+      startTime: debounce?.startedAt,
+      attributes: {
+        'turn.words': transcript.split(/\s+/).filter(word => word).length,
+        ...(speaker ? { 'turn.speaker': speaker } : {})
+      }
+    });
+    if (debounce) {
+      this.tracer.startSpan('debounce', { parent: span, startTime: debounce.startedAt })
+        .setAttribute('debounce.wait_ms', debounce.endedAt - debounce.startedAt)
+        .end(debounce.endedAt);
+    }
+    
+    const turn: ActiveTurn = {
+      transcript,
+      segments,
+      controller: new AbortController(),
+      stage: 'analysis',
+      span,
+      toolMessages: [],
+      stageStartedAt: this.clock.now(),
+      usage: { analysis: emptyUsage(), generation: emptyUsage() }
+    };
+    const signal = turn.controller.signal;
+    this.activeTurn = turn;
+    
     try {
       // Calculate actual silence duration at processing time
-      const now = Date.now();
+      const now = this.clock.now();
       const actualSilenceDuration = now - this.lastChangeTime;
       
       // Analyze if we should respond
-      const context = {
+      const context: AnalysisContext = {
         transcript,
         previousTranscript: this.lastTranscript,
         silenceDuration: actualSilenceDuration,
         conversationHistory: this.conversationHistory,
+        newText: segments ? transcript : this.newTextSinceLastTurn(transcript),
+        segments,
+        speaker,
+        speakers: [...this.speakers],
         name: this.config.name,
         role: this.config.role,
         contextFile: this.config.contextFile
       };
       
-      const analysis = await retry(() => 
-        this.analyzer.analyze(transcript, context),
-        3
-      );
+      const analysis = await withSpan(this.tracer, 'analysis', { parent: span }, async analysisSpan => {
+        const result = await this.analyzeTurn(turn, context, analysisSpan);
+        analysisSpan.setAttributes({
+          'analysis.should_respond': result.shouldRespond,
+          'analysis.confidence': result.confidence,
+          'analysis.reason': result.reason,
+          ...usageAttributes(turn.usage.analysis)
+        });
+        return result;
+      });
+      throwIfAborted(signal);
+      this.metrics.observe('analysis', this.clock.now() - turn.stageStartedAt);
       
-      this.emit('analysisComplete', analysis);
+      this.emit('analysisComplete', turn.usage.analysis.calls > 0 ? { ...analysis, usage: turn.usage.analysis } : analysis);
       
-      if (analysis.shouldRespond) {
+      const intentHandler = analysis.intent && this.intentHandlers.get(analysis.intent.label);
+      if (analysis.shouldRespond && intentHandler) {
+        await this.runIntentHandler(turn, analysis, intentHandler);
+      } else if (analysis.shouldRespond) {
+        turn.stage = 'generation';
+        turn.stageStartedAt = this.clock.now();
+        
         // Generate response
-        const response = await retry(() => 
-          this.generator.generate(
-            transcript, 
-            this.conversationHistory, 
-            {
-              name: this.config.name,
-              role: this.config.role,
-              contextFile: this.config.contextFile
-            }
-          ),
-          3
-        );
+        const options: GenerationOptions = {
+          name: this.config.name,
+          role: this.config.role,
+          contextFile: this.config.contextFile,
+          speakers: [...this.speakers],
+          summary: this.historyManager.getSummary() || undefined,
+          signal,
+          onToolCall: call => this.handleToolCall(turn, call),
+          onToolResult: result => this.handleToolResult(turn, result),
+          onCircuitStateChange: change => this.emit('circuitStateChanged', { ...change, stage: 'generation' }),
+          onUsage: usage => this.handleUsage(turn, 'generation', usage)
+        };
+        const prompt = this.formatTurnForPrompt(turn);
+        const response = await withSpan(this.tracer, 'generation', { parent: span }, async generationSpan => {
+          const text = await this.generateTurn(turn, prompt, options, generationSpan);
+          generationSpan.setAttributes({
+            'generation.response_length': text.length,
+            'generation.tool_calls': turn.toolMessages.length,
+            ...usageAttributes(turn.usage.generation)
+          });
+          return text;
+        });
+        // Custom generators may ignore the signal, so check before emitting
+        throwIfAborted(signal);
+        this.metrics.observe('generation', this.clock.now() - turn.stageStartedAt);
         
-        // Update conversation history
-        this.conversationHistory.push(
-          { role: 'user', content: transcript, timestamp: Date.now() },
-          { role: 'assistant', content: response, timestamp: Date.now() }
+        this.recordTurn(
+          ...this.userMessagesFor(turn),
+          ...turn.toolMessages,
+          { role: 'assistant', content: response, timestamp: this.clock.now() }
         );
+        this.completeTurn(turn);
         
-        // Keep history manageable
-        if (this.conversationHistory.length > 20) {
-          this.conversationHistory = this.conversationHistory.slice(-20);
-        }
-        
-        this.emit('responseGenerated', response);
+        this.recordOutcome(turn, 'responded');
+        this.emit('responseGenerated', response, { usage: turn.usage.generation });
+        await this.settleHistory();
+      } else {
+        this.recordOutcome(turn, 'skipped');
+        this.scheduleEndOfTurnRecheck(analysis, actualSilenceDuration);
       }
     } catch (error) {
-      this.emit('error', error);
+      if (signal.aborted && isAbortError(error)) {
+        this.recordOutcome(turn, 'cancelled');
+        span.setAttribute('turn.cancel_reason', turn.cancelReason || 'aborted');
+        await this.handleCancelledTurn(turn);
+      } else {
+        this.recordOutcome(turn, 'errored');
+        span.recordException(error);
+        this.emit('error', error);
+      }
     } finally {
-      this.isProcessing = false;
+      span.end();
+      if (this.activeTurn === turn) this.activeTurn = null;
+    }
+  }
+
+  private async runIntentHandler(turn: ActiveTurn, analysis: AnalysisResult, handler: IntentHandler) {
+    const intent = analysis.intent!;
+    const signal = turn.controller.signal;
+    turn.span.setAttribute('turn.intent', intent.label);
+    
+    const result = await withSpan(this.tracer, 'intent', { parent: turn.span, attributes: { 'intent.label': intent.label } },
+      async () => handler({ transcript: turn.transcript, intent, analysis, signal }));
+    throwIfAborted(signal);
+    const response = typeof result === 'string' ? result : undefined;
+    
+    this.recordTurn(
+      ...this.userMessagesFor(turn),
+      ...(response !== undefined ? [{ role: 'assistant' as const, content: response, timestamp: this.clock.now() }] : [])
+    );
+    this.completeTurn(turn);
+    
+    this.recordOutcome(turn, 'responded');
+    this.emit('intentHandled', { intent, transcript: turn.transcript, ...(response !== undefined ? { response } : {}) });
+    if (response !== undefined) {
+      this.emit('responseGenerated', response, { usage: turn.usage.generation });
     }
+    await this.settleHistory();
+  }
+
+  /**
+   * The end-of-turn detector only sees the silence up to the debounce, so when the pause was
+   * too short for this speaker the transcript is analyzed again once their threshold has passed.
+   */
+  private scheduleEndOfTurnRecheck(analysis: AnalysisResult, silenceDuration: number) {
+    const threshold = analysis.endOfTurn?.silenceThresholdMs;
+    if (threshold === undefined || silenceDuration >= threshold) return;
+    
+    this.clearEndOfTurnRecheck();
+    this.endOfTurnRecheck = this.clock.setTimeout(() => {
+      this.endOfTurnRecheck = undefined;
+      this._processTranscript(this.lastTranscript, 0);
+    }, threshold - silenceDuration);
+  }
+
+  private clearEndOfTurnRecheck() {
+    if (this.endOfTurnRecheck !== undefined) {
+      this.clock.clearTimeout(this.endOfTurnRecheck);
+      this.endOfTurnRecheck = undefined;
+    }
+  }
+
+  private recordOutcome(turn: ActiveTurn, outcome: TurnOutcome) {
+    this.metrics.recordOutcome(outcome);
+    turn.span.setAttribute('turn.outcome', outcome);
+    if (outcome === 'responded' || outcome === 'skipped') turn.span.setStatus('ok');
+  }
+
+  private async analyzeTurn(turn: ActiveTurn, context: AnalysisContext, span: Span): Promise<AnalysisResult> {
+    if (this.budgetExceeded && this.config.usage.budget?.onExceeded === 'stop') {
+      span.setAttribute('analysis.method', 'budget');
+      return { shouldRespond: false, confidence: 1, reason: 'Usage budget exceeded' };
+    }
+    if (!this.shouldConsiderSpeaker(context.speaker)) {
+      span.setAttribute('analysis.method', 'speaker-policy');
+      return { shouldRespond: false, confidence: 1, reason: `Not responding to speaker ${context.speaker}` };
+    }
+    
+    const signal = turn.controller.signal;
+    return this.retryPolicy.execute(attempt =>
+      withSpan(this.tracer, 'analysis.attempt', { parent: span, attributes: { attempt } }, attemptSpan =>
+        this.analyzer.analyze(turn.transcript, context, {
+          signal,
+          span: attemptSpan,
+          onCircuitStateChange: change => this.emit('circuitStateChanged', { ...change, stage: 'analysis' }),
+          onUsage: usage => this.handleUsage(turn, 'analysis', usage),
+          skipProvider: this.budgetExceeded
+        })
+      ),
+      this.retryOptions('analysis', signal)
+    );
+  }
+
+  private async generateTurn(turn: ActiveTurn, prompt: string, options: GenerationOptions, span: Span): Promise<string> {
+    // Deltas may already have been emitted when a stream fails, so streams are not retried
+    if (this.config.streaming) {
+      turn.stageSpan = span;
+      return this.streamResponse(prompt, { ...options, span }, turn);
+    }
+    
+    return this.retryPolicy.execute(attempt =>
+      withSpan(this.tracer, 'generation.attempt', { parent: span, attributes: { attempt } }, attemptSpan => {
+        // A failed attempt's tool calls are redone by the next one
+        turn.toolMessages = [];
+        turn.stageSpan = attemptSpan;
+        return this.generator.generate(prompt, this.conversationHistory, { ...options, span: attemptSpan });
+      }),
+      this.retryOptions('generation', turn.controller.signal)
+    );
+  }
+
+  private handleUsage(turn: ActiveTurn, stage: ActiveTurn['stage'], usage: TokenUsage) {
+    addUsage(turn.usage[stage], this.recordUsage(stage, usage));
+  }
+
+  /**
+   * Adds a provider call to the monitor's totals and checks the budget.
+   */
+  private recordUsage(stage: UsageStage, usage: TokenUsage): UsageSummary {
+    const summary = this.usageTracker.record(stage, usage);
+    
+    const budget = this.config.usage.budget;
+    if (budget && !this.budgetExceeded) {
+      const totals = this.usageTracker.getTotals();
+      if (
+        (budget.maxCost !== undefined && totals.cost >= budget.maxCost) ||
+        (budget.maxTokens !== undefined && totals.totalTokens >= budget.maxTokens)
+      ) {
+        this.budgetExceeded = true;
+        this.emit('budgetExceeded', { usage: totals, budget, action: budget.onExceeded || 'rule-based' });
+      }
+    }
+    
+    return summary;
+  }
+
+  private retryOptions(stage: ActiveTurn['stage'], signal: AbortSignal): RetryExecuteOptions {
+    return {
+      signal,
+      onAttempt: attempt => {
+        if (attempt.willRetry) this.metrics.recordRetry(stage);
+        this.emit('retryAttempt', { ...attempt, stage });
+      }
+    };
+  }
+
+  private newTextSinceLastTurn(transcript: string): string {
+    if (this.lastTurnTranscript && transcript.startsWith(this.lastTurnTranscript)) {
+      return transcript.slice(this.lastTurnTranscript.length).trim();
+    }
+    return transcript;
+  }
+
+  private completeTurn(turn: ActiveTurn) {
+    this.turnCount++;
+    this.lastTurnAt = this.clock.now();
+    
+    if (turn.segments) {
+      // Segments now live in the history, so they no longer belong to the next turn
+      const consumed = new Set(turn.segments.map(segment => segment.id));
+      this.segments = this.segments.filter(segment => !consumed.has(segment.id));
+    } else {
+      this.lastTurnTranscript = turn.transcript;
+    }
+  }
+
+  /**
+   * Fits the history into its token budget, folding older turns into the summary, then saves it.
+   */
+  private async settleHistory() {
+    const history = this.conversationHistory;
+    const fitted = await this.historyManager.fit(history);
+    
+    // clearHistory() may have replaced the history while summarizing
+    if (this.conversationHistory === history && fitted.folded.length > 0) {
+      this.conversationHistory = fitted.history;
+      if (fitted.error !== undefined) {
+        this.emit('historySummaryFailed', { folded: fitted.folded.length, error: fitted.error });
+      } else {
+        this.emit('historySummarized', {
+          folded: fitted.folded.length,
+          summary: fitted.summary
+        });
+      }
+    }
+    
+    this.saveHistory();
+  }
+
+  private async restoreHistory() {
+    let raw: string;
+    try {
+      raw = await this.storage.get(this.storageKey('history'));
+    } catch (error) {
+      this.emit('historyRestoreFailed', { reason: `Could not read saved history: ${(error as Error).message}` });
+      return;
+    }
+    
+    // Nothing saved yet is a normal first start, not a failure
+    if (!raw) return;
+    
+    const { conversation, error } = deserializeConversation(raw);
+    if (!conversation) {
+      this.emit('historyRestoreFailed', { reason: error });
+      return;
+    }
+    
+    this.conversationHistory = conversation.history;
+    this.turnCount = conversation.turns.turnCount;
+    this.lastTurnAt = conversation.turns.lastTurnAt;
+    this.lastTurnTranscript = conversation.turns.lastTurnTranscript || '';
+    conversation.turns.speakers?.forEach(speaker => this.speakers.add(speaker));
+    this.historyManager.setSummary(conversation.turns.summary || '');
+    
+    this.emit('historyRestored', {
+      messages: conversation.history.length,
+      turnCount: conversation.turns.turnCount,
+      savedAt: conversation.savedAt
+    });
+  }
+
+  private saveHistory() {
+    if (!this.config.persistHistory) return;
+    
+    const serialized = serializeConversation(this.conversationHistory, {
+      turnCount: this.turnCount,
+      lastTurnAt: this.lastTurnAt,
+      lastTurnTranscript: this.lastTurnTranscript || undefined,
+      speakers: [...this.speakers],
+      summary: this.historyManager.getSummary() || undefined
+    }, this.clock.now());
+    
+    this.storage.set(this.storageKey('history'), serialized).catch(error => {
+      this.emit('error', error);
+    });
+  }
+
+  /**
+   * Splits the turn into one user message per run of consecutive segments from the same speaker.
+   */
+  private userMessagesFor(turn: ActiveTurn): Message[] {
+    const timestamp = this.clock.now();
+    if (!turn.segments) {
+      return [{ role: 'user', content: turn.transcript, timestamp }];
+    }
+    
+    const messages: Message[] = [];
+    for (const segment of turn.segments) {
+      const previous = messages[messages.length - 1];
+      if (previous && previous.speaker === segment.speaker) {
+        previous.content = `${previous.content} ${segment.text.trim()}`;
+      } else {
+        messages.push({ role: 'user', content: segment.text.trim(), timestamp, speaker: segment.speaker });
+      }
+    }
+    return messages;
+  }
+
+  /**
+   * In group conversations each line is labelled with its speaker so the model knows who said what.
+   */
+  private formatTurnForPrompt(turn: ActiveTurn): string {
+    if (!this.isGroupConversation()) return turn.transcript;
+    
+    return this.userMessagesFor(turn)
+      .map(message => message.speaker ? `${message.speaker}: ${message.content}` : message.content)
+      .join('\n');
+  }
+
+  private async streamResponse(transcript: string, options: GenerationOptions, turn: ActiveTurn): Promise<string> {
+    const chunker = new SentenceChunker();
+    let response = '';
+    
+    for await (const delta of this.generator.generateStream(transcript, this.conversationHistory, options)) {
+      throwIfAborted(options.signal);
+      
+      if (!response) {
+        this.metrics.observe('timeToFirstToken', this.clock.now() - turn.stageStartedAt);
+        options.span?.addEvent('first_token');
+      }
+      response += delta;
+      turn.partialResponse = response;
+      this.emit('responseDelta', delta);
+      
+      for (const sentence of chunker.push(delta)) {
+        this.emit('responseSentence', sentence);
+      }
+    }
+    
+    const rest = chunker.flush();
+    if (rest) this.emit('responseSentence', rest);
+    
+    return response;
+  }
+
+  private handleToolCall(turn: ActiveTurn, call: ToolCall) {
+    turn.toolMessages.push({
+      role: 'tool',
+      content: '',
+      timestamp: this.clock.now(),
+      tool: { name: call.name, callId: call.id, arguments: call.arguments }
+    });
+    turn.stageSpan?.addEvent('tool.call', { 'tool.name': call.name, 'tool.call_id': call.id });
+    this.emit('toolCalled', call);
+  }
+
+  private handleToolResult(turn: ActiveTurn, result: ToolResult) {
+    const message = turn.toolMessages.find(candidate => candidate.tool?.callId === result.callId);
+    if (message && message.tool) {
+      message.content = result.content;
+      message.tool.isError = result.isError;
+    }
+    turn.stageSpan?.addEvent('tool.result', { 'tool.name': result.name, 'tool.call_id': result.callId, 'tool.is_error': !!result.isError });
+    this.emit('toolResult', result);
+  }
+
+  private cancelActiveTurn(reason: string) {
+    const turn = this.activeTurn;
+    if (!turn || turn.controller.signal.aborted) return;
+    
+    turn.cancelReason = reason;
+    turn.controller.abort(createAbortError(`Turn cancelled: ${reason}`));
+  }
+
+  private async handleCancelledTurn(turn: ActiveTurn) {
+    // Only a response that was being generated counts as an interrupted assistant turn
+    if (turn.stage === 'generation') {
+      this.recordTurn(
+        ...this.userMessagesFor(turn),
+        ...turn.toolMessages.filter(message => message.content),
+        { role: 'assistant', content: turn.partialResponse || '', timestamp: this.clock.now(), interrupted: true }
+      );
+      this.completeTurn(turn);
+    }
+    
+    this.emit('responseCancelled', {
+      transcript: turn.transcript,
+      reason: turn.cancelReason || 'aborted',
+      stage: turn.stage
+    });
+    
+    if (turn.stage === 'generation') {
+      await this.settleHistory();
+    }
+  }
+
+  private recordTurn(...messages: Message[]) {
+    this.conversationHistory.push(...messages);
+  }
+
+  /**
+   * Routes turns with an intent to a handler instead of the generator. Needs `intents` in
+   * the analyzer config; a turn is only routed when the analysis decides to respond.
+   * 
+   * @param label - Intent label, e.g. 'handoff'
+   * @param handler - Called with the turn; replaces any handler already registered for the label
+   * @returns A function that removes the handler
+   * 
+   * @example
+   * ```typescript
+   * const monitor = new TranscriptMonitor({ analyzer: { provider: 'openai', apiKey, intents: DEFAULT_INTENTS } });
+   * 
+   * monitor.onIntent('handoff', async ({ transcript }) => {
+   *   await transferToAgent(transcript);
+   *   return 'Connecting you with a colleague now.';
+   * });
+   * ```
+   */
+  onIntent(label: string, handler: IntentHandler): () => void {
+    this.intentHandlers.set(label, handler);
+    return () => {
+      if (this.intentHandlers.get(label) === handler) this.intentHandlers.delete(label);
+    };
   }
 
   /**
@@ -299,6 +1068,9 @@ export class TranscriptMonitor extends EventEmitter {
    * ```
    */
   stop() {
+    this.turnQueue.clear();
+    this.clearEndOfTurnRecheck();
+    this.cancelActiveTurn('stopped');
     this.emit('stop');
     this.removeAllListeners();
   }
@@ -322,9 +1094,47 @@ export class TranscriptMonitor extends EventEmitter {
     return [...this.conversationHistory];
   }
 
+  /**
+   * Returns the running summary of earlier turns that no longer fit the history token budget.
+   * 
+   * @returns The summary text (empty if nothing has been summarized)
+   */
+  getSummary(): string {
+    return this.historyManager.getSummary();
+  }
+
+  /**
+   * Returns the tokens and cost of every provider call the monitor has made, including
+   * history summaries, in total and by stage and model.
+   * 
+   * @example
+   * ```typescript
+   * const { totalTokens, cost, byStage } = monitor.getUsage();
+   * console.log(`${totalTokens} tokens, $${cost.toFixed(4)} (analysis: $${byStage.analysis.cost.toFixed(4)})`);
+   * ```
+   */
+  getUsage(): UsageTotals {
+    return this.usageTracker.getTotals();
+  }
+
+  /**
+   * Returns latency histograms for each pipeline stage, retry counts and turn outcomes
+   * since the monitor was created. Pass it to `formatPrometheus` to expose it for scraping.
+   * 
+   * @example
+   * ```typescript
+   * const { latency, turns } = monitor.getMetrics();
+   * console.log(`p90 analysis: ${latency.analysis.p90}ms, responded: ${turns.responded}`);
+   * ```
+   */
+  getMetrics(): MetricsSnapshot {
+    return this.metrics.snapshot();
+  }
+
   /**
    * Clears the conversation history, removing all stored messages.
    * This is useful for starting fresh conversations or managing memory usage.
+   * With `persistHistory`, the saved history is removed from storage as well.
    * 
    * @example
    * ```typescript
@@ -334,5 +1144,14 @@ export class TranscriptMonitor extends EventEmitter {
    */
   clearHistory() {
     this.conversationHistory = [];
+    this.historyManager.setSummary('');
+    this.turnCount = 0;
+    this.lastTurnAt = undefined;
+    
+    if (this.config.persistHistory) {
+      const key = this.storageKey('history');
+      const removal = this.storage.remove ? this.storage.remove(key) : this.storage.set(key, '');
+      removal.catch(error => this.emit('error', error));
+    }
   }
 }
\ No newline at end of file
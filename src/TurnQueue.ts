@@ -0,0 +1,104 @@
+import { TurnQueuePolicy } from './types';
+
+/**
+ * A transcript waiting for the monitor to finish its current turn
+ */
+export interface QueuedTurn {
+  transcript: string;
+  queuedAt: number;
+}
+
+/**
+ * Outcome of offering a transcript to the queue, used by the monitor to emit
+ * `turnQueued`, `turnMerged` and `turnDropped` events.
+ */
+export interface EnqueueResult {
+  action: 'queued' | 'merged';
+  /** The turn as it now sits in the queue */
+  turn: QueuedTurn;
+  /** Turns removed from the queue to make room for this one */
+  dropped: QueuedTurn[];
+}
+
+/**
+ * TurnQueue - Holds transcripts that arrive while a turn is in flight
+ *
+ * The policy decides what happens to pending transcripts:
+ * - `sequential`: every transcript is processed in arrival order
+ * - `merge`: pending transcripts are joined into a single next turn
+ * - `latest`: only the newest pending transcript is kept
+ *
+ * @example
+ * ```typescript
+ * const queue = new TurnQueue('merge');
+ *
+ * queue.enqueue('Can you check my order?', Date.now());
+ * queue.enqueue('It was placed yesterday.', Date.now());
+ *
+ * queue.shift()?.transcript; // "Can you check my order? It was placed yesterday."
+ * ```
+ */
+export class TurnQueue {
+  private turns: QueuedTurn[] = [];
+
+  /**
+   * @param policy - How pending transcripts are combined (default: 'sequential')
+   * @param maxSize - Maximum number of pending turns; the oldest is dropped when exceeded (default: 10)
+   */
+  constructor(
+    private policy: TurnQueuePolicy = 'sequential',
+    private maxSize: number = 10
+  ) {}
+
+  get length(): number {
+    return this.turns.length;
+  }
+
+  /**
+   * Adds a transcript to the queue according to the configured policy.
+   *
+   * @param transcript - The transcript that could not be processed yet
+   * @param now - Timestamp of the enqueue, in milliseconds
+   * @returns What happened to the transcript and any turns it displaced
+   */
+  enqueue(transcript: string, now: number): EnqueueResult {
+    const pending = this.turns[this.turns.length - 1];
+
+    if (pending && this.policy === 'merge') {
+      pending.transcript = `${pending.transcript} ${transcript}`.trim();
+      pending.queuedAt = now;
+      return { action: 'merged', turn: pending, dropped: [] };
+    }
+
+    const turn: QueuedTurn = { transcript, queuedAt: now };
+    let dropped: QueuedTurn[] = [];
+
+    if (this.policy === 'latest') {
+      dropped = this.turns;
+      this.turns = [turn];
+    } else {
+      this.turns.push(turn);
+      if (this.turns.length > Math.max(1, this.maxSize)) {
+        dropped = this.turns.splice(0, this.turns.length - Math.max(1, this.maxSize));
+      }
+    }
+
+    return { action: 'queued', turn, dropped };
+  }
+
+  /**
+   * Removes and returns the next turn to process.
+   */
+  shift(): QueuedTurn | undefined {
+    return this.turns.shift();
+  }
+
+  /**
+   * Removes all pending turns and returns them.
+   */
+  clear(): QueuedTurn[] {
+    const turns = this.turns;
+    this.turns = [];
+    return turns;
+  }
+}
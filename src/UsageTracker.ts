@@ -0,0 +1,180 @@
+import { TokenUsage, UsageSummary } from './types';
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * List prices by model name prefix, in USD per million tokens. The longest
+ * matching prefix wins, so dated snapshots such as 'gpt-4o-2024-08-06' are priced too.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-sonnet': { input: 3, output: 15 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 }
+};
+
+/**
+ * What a provider call was made for
+ */
+export type UsageStage = 'analysis' | 'generation' | 'summary';
+
+/**
+ * Usage across every call a tracker has recorded
+ */
+export interface UsageTotals extends UsageSummary {
+  byStage: Record<UsageStage, UsageSummary>;
+  /** Keyed by model name, or by provider name when the model is unknown */
+  byModel: Record<string, UsageSummary>;
+}
+
+/**
+ * Returns the price for a model.
+ *
+ * @param model - Model name
+ * @param prices - Price table (default: DEFAULT_MODEL_PRICES)
+ * @returns The price of the longest matching prefix, or undefined for unknown models
+ */
+export function getModelPrice(model: string | undefined, prices: Record<string, ModelPrice> = DEFAULT_MODEL_PRICES): ModelPrice | undefined {
+  if (!model) return undefined;
+
+  const prefix = Object.keys(prices)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? prices[prefix] : undefined;
+}
+
+/**
+ * Prices the tokens of one provider call.
+ *
+ * @param usage - Token usage reported by the provider
+ * @param prices - Price table (default: DEFAULT_MODEL_PRICES)
+ * @returns Cost in USD, or 0 if the model has no price
+ */
+export function calculateCost(usage: TokenUsage, prices: Record<string, ModelPrice> = DEFAULT_MODEL_PRICES): number {
+  const price = getModelPrice(usage.model, prices);
+  if (!price) return 0;
+
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Returns a summary with nothing counted yet.
+ */
+export function emptyUsage(): UsageSummary {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 };
+}
+
+/**
+ * Adds one summary into another.
+ *
+ * @param into - Summary to add to, modified in place
+ * @param usage - Summary to add
+ */
+export function addUsage(into: UsageSummary, usage: UsageSummary) {
+  into.calls += usage.calls;
+  into.promptTokens += usage.promptTokens;
+  into.completionTokens += usage.completionTokens;
+  into.totalTokens += usage.totalTokens;
+  into.cost += usage.cost;
+}
+
+/**
+ * UsageTracker - Adds up token usage and cost across provider calls
+ *
+ * Record the usage each provider call reports and the tracker prices it from the
+ * model price table and keeps totals overall, by stage and by model.
+ *
+ * @example
+ * ```typescript
+ * const tracker = new UsageTracker({ 'my-finetune': { input: 3, output: 12 } });
+ *
+ * await generator.generate(transcript, history, {
+ *   onUsage: usage => tracker.record('generation', usage)
+ * });
+ *
+ * const { totalTokens, cost } = tracker.getTotals();
+ * console.log(`${totalTokens} tokens, $${cost.toFixed(4)}`);
+ * ```
+ */
+export class UsageTracker {
+  private prices: Record<string, ModelPrice>;
+  private totals: UsageTotals = UsageTracker.emptyTotals();
+
+  /**
+   * @param prices - Prices by model name prefix, merged over DEFAULT_MODEL_PRICES
+   */
+  constructor(prices: Record<string, ModelPrice> = {}) {
+    this.prices = { ...DEFAULT_MODEL_PRICES, ...prices };
+  }
+
+  /**
+   * Counts one provider call.
+   *
+   * @param stage - What the call was made for
+   * @param usage - Token usage reported by the provider
+   * @returns The call's tokens and cost
+   */
+  record(stage: UsageStage, usage: TokenUsage): UsageSummary {
+    const summary: UsageSummary = {
+      calls: 1,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      totalTokens: usage.totalTokens,
+      cost: calculateCost(usage, this.prices)
+    };
+
+    const modelKey = usage.model || usage.provider;
+    if (!this.totals.byModel[modelKey]) {
+      this.totals.byModel[modelKey] = emptyUsage();
+    }
+
+    addUsage(this.totals, summary);
+    addUsage(this.totals.byStage[stage], summary);
+    addUsage(this.totals.byModel[modelKey], summary);
+    return summary;
+  }
+
+  /**
+   * Returns a copy of the totals so far.
+   */
+  getTotals(): UsageTotals {
+    const { byStage, byModel, ...overall } = this.totals;
+    return {
+      ...overall,
+      byStage: {
+        analysis: { ...byStage.analysis },
+        generation: { ...byStage.generation },
+        summary: { ...byStage.summary }
+      },
+      byModel: Object.fromEntries(Object.entries(byModel).map(([model, summary]) => [model, { ...summary }]))
+    };
+  }
+
+  /**
+   * Clears the totals.
+   */
+  reset() {
+    this.totals = UsageTracker.emptyTotals();
+  }
+
+  private static emptyTotals(): UsageTotals {
+    return {
+      ...emptyUsage(),
+      byStage: { analysis: emptyUsage(), generation: emptyUsage(), summary: emptyUsage() },
+      byModel: {}
+    };
+  }
+}
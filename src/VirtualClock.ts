@@ -0,0 +1,138 @@
+import { Clock } from './Clock';
+
+interface VirtualTimer {
+  id: number;
+  at: number;
+  callback: () => void;
+  /** Repeat interval for setInterval timers */
+  interval?: number;
+}
+
+const yieldToEventLoop: (callback: () => void) => void =
+  typeof setImmediate === 'function' ? setImmediate : callback => setTimeout(callback, 0);
+
+/**
+ * VirtualClock - Time that only moves when told to
+ *
+ * Timers scheduled on the clock fire in order as it is advanced, with pending promise
+ * callbacks settled between timers, so code built on timeouts runs deterministically and
+ * without waiting. Pass it as the `clock` of the monitor, recorder or anything else that
+ * takes one.
+ *
+ * @example
+ * ```typescript
+ * const clock = new VirtualClock(Date.parse('2024-01-01T09:00:00Z'));
+ * const monitor = new TranscriptMonitor({ clock, debounceMs: 1000, ...config });
+ *
+ * await monitor.updateTranscript('Hello there, can you help me?');
+ * await clock.advance(1000); // the debounce fires and the turn runs
+ * ```
+ */
+export class VirtualClock implements Clock {
+  private time: number;
+  private timers: VirtualTimer[] = [];
+  private nextId = 1;
+
+  /**
+   * @param startTime - Initial time in ms since the epoch (default: 0)
+   */
+  constructor(startTime: number = 0) {
+    this.time = startTime;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: (...args: any[]) => void, ms: number = 0, ...args: any[]): number {
+    return this.schedule(() => callback(...args), ms);
+  }
+
+  clearTimeout(id?: number) {
+    this.timers = this.timers.filter(timer => timer.id !== id);
+  }
+
+  setInterval(callback: (...args: any[]) => void, ms: number = 0, ...args: any[]): number {
+    return this.schedule(() => callback(...args), ms, Math.max(1, ms));
+  }
+
+  clearInterval(id?: number) {
+    this.clearTimeout(id);
+  }
+
+  /**
+   * Number of timers waiting to fire
+   */
+  get pending(): number {
+    return this.timers.length;
+  }
+
+  /**
+   * Moves time forward, firing every timer that falls due on the way.
+   *
+   * @param ms - How far to move
+   */
+  async advance(ms: number) {
+    const target = this.time + Math.max(0, ms);
+
+    await this.flush();
+    for (let timer = this.nextDue(target); timer; timer = this.nextDue(target)) {
+      this.fire(timer);
+      await this.flush();
+    }
+
+    this.time = target;
+    await this.flush();
+  }
+
+  /**
+   * Fires timers until none are left, moving time to each one.
+   *
+   * @param maxTimers - Give up after this many, in case intervals keep rescheduling (default: 1000)
+   * @throws {Error} If timers are still pending after `maxTimers`
+   */
+  async runAll(maxTimers: number = 1000) {
+    await this.flush();
+    for (let fired = 0; this.timers.length > 0; fired++) {
+      if (fired >= maxTimers) {
+        throw new Error(`Timers still pending after firing ${maxTimers}`);
+      }
+      this.fire(this.nextDue(Infinity)!);
+      await this.flush();
+    }
+  }
+
+  private schedule(callback: () => void, ms: number, interval?: number): number {
+    const id = this.nextId++;
+    this.timers.push({ id, at: this.time + Math.max(0, ms), callback, interval });
+    return id;
+  }
+
+  /**
+   * Earliest timer due by `target`; timers due at the same time fire in the order they were set.
+   */
+  private nextDue(target: number): VirtualTimer | undefined {
+    return this.timers
+      .filter(timer => timer.at <= target)
+      .sort((a, b) => a.at - b.at || a.id - b.id)[0];
+  }
+
+  private fire(timer: VirtualTimer) {
+    this.time = Math.max(this.time, timer.at);
+    if (timer.interval) {
+      timer.at += timer.interval;
+    } else {
+      this.clearTimeout(timer.id);
+    }
+    timer.callback();
+  }
+
+  /**
+   * Lets pending promise callbacks run, including those they queue in turn.
+   */
+  private async flush() {
+    for (let i = 0; i < 3; i++) {
+      await new Promise<void>(resolve => yieldToEventLoop(resolve));
+    }
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * Where and how well the monitor's name was found in a transcript
+ */
+export interface WakeNameMatch {
+  /** The configured name or alias that matched */
+  name: string;
+  /** The matched text as written in the transcript */
+  text: string;
+  /** Offset of the first matched character */
+  start: number;
+  /** Offset just past the last matched character */
+  end: number;
+  /** Similarity between 0 and 1; 1 for an exact match */
+  score: number;
+  /**
+   * - `exact`: the name, ignoring case
+   * - `alias`: one of the configured aliases, ignoring case
+   * - `phonetic`: sounds like the name or an alias, e.g. "Eva" for "Ava"
+   * - `fuzzy`: within the edit distance of the name or an alias, e.g. "Jarvus" for "Jarvis"
+   */
+  method: 'exact' | 'alias' | 'phonetic' | 'fuzzy';
+}
+
+export interface WakeNameOptions {
+  /** Other names the monitor answers to, e.g. nicknames or common misspellings */
+  aliases?: string[];
+  /** Match names that sound alike (default: true) */
+  phonetic?: boolean;
+  /**
+   * Most letters that may differ for a fuzzy match; 0 turns fuzzy matching off. Names that
+   * sound alike may differ in two more (default: 0 up to 4 letters, 1 up to 8, 2 for longer names)
+   */
+  maxEditDistance?: number;
+  /** Lowest score accepted for phonetic and fuzzy matches (default: 0.7) */
+  minScore?: number;
+}
+
+interface Word {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Soundex-style consonant classes; letters without a code are vowels or silent
+const PHONETIC_CODES: Record<string, string> = {
+  b: '1', f: '1', p: '1', v: '1',
+  c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+  d: '3', t: '3',
+  l: '4',
+  m: '5', n: '5',
+  r: '6'
+};
+
+/**
+ * Reduces a word to how it sounds. Unlike Soundex, every leading vowel maps to the same
+ * key and a final "r" after a vowel is dropped, so "Ava", "Eva" and "Aver" agree.
+ */
+function phoneticKey(word: string): string {
+  let letters = word.toLowerCase().normalize('NFD').replace(/[^a-z]/g, '');
+  if (!letters) return '';
+
+  letters = letters
+    .replace(/^ph/, 'f')
+    .replace(/^(kn|gn)/, 'n')
+    .replace(/^wr/, 'r')
+    .replace(/([aeiouy])r$/, '$1');
+
+  let key = /[aeiouy]/.test(letters[0]) ? 'A' : PHONETIC_CODES[letters[0]] || letters[0].toUpperCase();
+  let previous = PHONETIC_CODES[letters[0]] || '';
+  for (const letter of letters.slice(1)) {
+    const code = PHONETIC_CODES[letter] || '';
+    if (code && code !== previous) key += code;
+    // As in Soundex, h and w do not separate letters with the same code
+    if (letter !== 'h' && letter !== 'w') previous = code;
+  }
+  return key;
+}
+
+function editDistance(a: string, b: string): number {
+  let row = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const next = [i];
+    for (let j = 1; j <= b.length; j++) {
+      next[j] = Math.min(row[j] + 1, next[j - 1] + 1, row[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    row = next;
+  }
+  return row[b.length];
+}
+
+function splitWords(text: string): Word[] {
+  return [...text.matchAll(/[\p{L}\p{N}']+/gu)].map(match => ({
+    text: match[0],
+    start: match.index!,
+    end: match.index! + match[0].length
+  }));
+}
+
+/**
+ * WakeNameMatcher - Finds the monitor's name in a transcript despite transcription errors
+ *
+ * Matches whole words only, so "Ava" is not found in "Java", and accepts aliases, names
+ * that sound the same and near misspellings within an edit distance.
+ *
+ * @example
+ * ```typescript
+ * const matcher = new WakeNameMatcher('Ava', { aliases: ['Avi'] });
+ *
+ * const match = matcher.match('Eva, can you book the room?');
+ * // { name: 'Ava', text: 'Eva', start: 0, end: 3, score: 0.83, method: 'phonetic' }
+ *
+ * stripWakeName('Eva, can you book the room?', match!); // 'can you book the room?'
+ * ```
+ */
+export class WakeNameMatcher {
+  private candidates: { name: string; words: string[]; keys: string[]; alias: boolean }[];
+  private phonetic: boolean;
+  private maxEditDistance?: number;
+  private minScore: number;
+
+  /**
+   * @param name - The monitor's name; may be several words
+   * @param options - Aliases and matching thresholds, see WakeNameOptions
+   */
+  constructor(name: string, options: WakeNameOptions = {}) {
+    this.phonetic = options.phonetic ?? true;
+    this.maxEditDistance = options.maxEditDistance;
+    this.minScore = options.minScore ?? 0.7;
+    this.candidates = [name, ...(options.aliases || [])]
+      .map(candidate => candidate.trim())
+      .filter(candidate => candidate)
+      .map((candidate, index) => {
+        const words = splitWords(candidate.toLowerCase()).map(word => word.text);
+        return { name: candidate, words, keys: words.map(phoneticKey), alias: index > 0 };
+      })
+      .filter(candidate => candidate.words.length > 0);
+  }
+
+  /**
+   * Finds the best match for the name or an alias.
+   *
+   * @param transcript - Text to search
+   * @returns The highest-scoring match, the earliest on a tie, or undefined if there is none
+   */
+  match(transcript: string): WakeNameMatch | undefined {
+    return this.matchAll(transcript).sort((a, b) => b.score - a.score || a.start - b.start)[0];
+  }
+
+  /**
+   * Finds every place the name or an alias appears.
+   *
+   * @param transcript - Text to search
+   * @returns Matches in transcript order; overlapping candidates keep only the best one
+   */
+  matchAll(transcript: string): WakeNameMatch[] {
+    const words = splitWords(transcript);
+    const matches: WakeNameMatch[] = [];
+
+    for (let index = 0; index < words.length; index++) {
+      let best: WakeNameMatch | undefined;
+      for (const candidate of this.candidates) {
+        const window = words.slice(index, index + candidate.words.length);
+        if (window.length < candidate.words.length) continue;
+
+        const match = this.compare(transcript, window, candidate);
+        if (match && (!best || match.score > best.score)) best = match;
+      }
+
+      if (best) {
+        matches.push(best);
+        // Do not match the same words again as part of a shorter alias
+        while (index + 1 < words.length && words[index + 1].start < best.end) index++;
+      }
+    }
+    return matches;
+  }
+
+  private compare(
+    transcript: string,
+    window: Word[],
+    candidate: WakeNameMatcher['candidates'][number]
+  ): WakeNameMatch | undefined {
+    const start = window[0].start;
+    const end = window[window.length - 1].end;
+    const base = { name: candidate.name, text: transcript.slice(start, end), start, end };
+
+    const heard = window.map(word => word.text.toLowerCase()).join(' ');
+    const expected = candidate.words.join(' ');
+    if (heard === expected) {
+      return { ...base, score: 1, method: candidate.alias ? 'alias' : 'exact' };
+    }
+
+    const distance = editDistance(heard, expected);
+    const similarity = 1 - distance / Math.max(heard.length, expected.length);
+    // One changed letter turns many short words into a short name, e.g. "Java" into "Ava"
+    const maxDistance = this.maxEditDistance ?? (expected.length <= 4 ? 0 : expected.length <= 8 ? 1 : 2);
+    const round = (score: number) => Math.round(score * 100) / 100;
+
+    // The edit limit keeps words like "over" from matching "Ava" on sound alone
+    const soundsAlike = this.phonetic &&
+      distance <= maxDistance + 2 &&
+      window.every((word, index) => phoneticKey(word.text) === candidate.keys[index]);
+    if (soundsAlike) {
+      const score = round((1 + similarity) / 2);
+      return score >= this.minScore ? { ...base, score, method: 'phonetic' } : undefined;
+    }
+
+    if (distance <= maxDistance && round(similarity) >= this.minScore) {
+      return { ...base, score: round(similarity), method: 'fuzzy' };
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Removes a matched wake name from the transcript, along with the comma or other
+ * punctuation that set it off, e.g. before the transcript is passed to the generator.
+ *
+ * @param transcript - The transcript the match was found in
+ * @param match - The match to remove
+ * @returns The transcript without the wake name
+ */
+export function stripWakeName(transcript: string, match: WakeNameMatch): string {
+  const before = transcript.slice(0, match.start).replace(/[\s,]+$/, '');
+  const after = transcript.slice(match.end).replace(before ? /^[\s,:;]+/ : /^[\s,.!?:;]+/, '');
+  if (!before || !after) return before + after;
+  // Sentence punctuation that followed the name now ends the text before it
+  return /^[.!?]/.test(after) ? before + after : `${before} ${after}`;
+}
@@ -0,0 +1,190 @@
+import { isAbortError } from './utils';
+import { Clock, systemClock } from './Clock';
+
+/**
+ * Normalized reason a provider request failed
+ */
+export type ProviderErrorCode =
+  | 'auth'
+  | 'rate_limit'
+  | 'invalid_request'
+  | 'timeout'
+  | 'server'
+  | 'network'
+  | 'invalid_response'
+  | 'unavailable'
+  | 'unknown';
+
+const RETRYABLE_CODES: ProviderErrorCode[] = ['rate_limit', 'timeout', 'server', 'network'];
+
+/**
+ * ProviderError - A failed provider request, normalized across providers
+ *
+ * Providers throw this instead of their own error shapes, so callers can decide
+ * how to handle a failure from `code` and `retryable` without parsing messages.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await provider.chat(request);
+ * } catch (error) {
+ *   if (error instanceof ProviderError && error.code === 'auth') {
+ *     console.error(`Check the API key for ${error.provider}`);
+ *   }
+ * }
+ * ```
+ */
+export class ProviderError extends Error {
+  readonly provider: string;
+  readonly code: ProviderErrorCode;
+  /** HTTP status, when the provider answered */
+  readonly status?: number;
+  /** Whether the same request may succeed if sent again */
+  readonly retryable: boolean;
+  /** Delay the provider asked for before retrying, from the Retry-After header */
+  readonly retryAfterMs?: number;
+  readonly cause?: unknown;
+
+  constructor(
+    message: string,
+    options: {
+      provider: string;
+      code: ProviderErrorCode;
+      status?: number;
+      retryable?: boolean;
+      retryAfterMs?: number;
+      cause?: unknown;
+    }
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+    this.provider = options.provider;
+    this.code = options.code;
+    this.status = options.status;
+    this.retryable = options.retryable ?? RETRYABLE_CODES.includes(options.code);
+    this.retryAfterMs = options.retryAfterMs;
+    this.cause = options.cause;
+  }
+
+  /**
+   * Creates an error from a failed HTTP response, using the provider's error message when the body has one.
+   *
+   * @param provider - Provider display name, e.g. 'OpenAI'
+   * @param response - The non-OK response
+   * @param clock - Source of time for a Retry-After date (default: systemClock)
+   */
+  static async fromResponse(provider: string, response: Response, clock: Clock = systemClock): Promise<ProviderError> {
+    let detail = response.statusText;
+    try {
+      const body = await response.json() as any;
+      detail = body?.error?.message || detail;
+    } catch (error) {
+      // Not every error response has a JSON body
+    }
+
+    return new ProviderError(`${provider} API error: ${detail}`, {
+      provider,
+      code: codeForStatus(response.status),
+      status: response.status,
+      retryAfterMs: parseRetryAfter(response.headers.get('retry-after'), clock.now())
+    });
+  }
+
+  /**
+   * Wraps any error thrown while calling a provider. ProviderErrors are returned as-is.
+   *
+   * @param provider - Provider display name, e.g. 'OpenAI'
+   * @param error - The thrown error
+   */
+  static from(provider: string, error: unknown): ProviderError {
+    if (error instanceof ProviderError) return error;
+
+    // fetch rejects with a TypeError when the connection fails
+    const code: ProviderErrorCode = error instanceof TypeError ? 'network' : 'unknown';
+    return new ProviderError(`${provider} API error: ${(error as Error)?.message || String(error)}`, {
+      provider,
+      code,
+      cause: error
+    });
+  }
+}
+
+/**
+ * Sends a JSON request to a provider and returns the OK response.
+ * Aborts are rethrown untouched; every other failure becomes a ProviderError.
+ *
+ * @param provider - Provider display name, e.g. 'OpenAI'
+ * @param url - Endpoint URL
+ * @param headers - Request headers (Content-Type is added)
+ * @param body - Request body, serialized as JSON
+ * @param signal - Optional AbortSignal that cancels the request
+ * @param clock - Source of time for a Retry-After date (default: systemClock)
+ */
+export async function postProvider(
+  provider: string,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal,
+  clock?: Clock
+): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal
+    });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw ProviderError.from(provider, error);
+  }
+
+  if (!response.ok) {
+    throw await ProviderError.fromResponse(provider, response, clock);
+  }
+
+  return response;
+}
+
+/**
+ * Parses the JSON payload of a streamed event. A payload that is not JSON becomes an
+ * `invalid_response` ProviderError, like a malformed non-streaming body.
+ *
+ * @param provider - Provider display name, e.g. 'OpenAI'
+ * @param data - The event's data field
+ */
+export function parseProviderEvent(provider: string, data: string): any {
+  try {
+    return JSON.parse(data);
+  } catch (error) {
+    throw new ProviderError(`${provider} API error: malformed stream event`, {
+      provider,
+      code: 'invalid_response',
+      cause: error
+    });
+  }
+}
+
+function codeForStatus(status: number): ProviderErrorCode {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 408) return 'timeout';
+  if (status === 429) return 'rate_limit';
+  if (status >= 500) return 'server';
+  if (status >= 400) return 'invalid_request';
+  return 'unknown';
+}
+
+/**
+ * Parses a Retry-After header, given either in seconds or as an HTTP date.
+ */
+function parseRetryAfter(value: string | null, now: number): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
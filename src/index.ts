@@ -1,5 +1,128 @@
-export { TranscriptMonitor } from './TranscriptMonitor';
+export { TranscriptMonitor, MonitorServices, MONITOR_EVENTS } from './TranscriptMonitor';
 export { TranscriptAnalyzer } from './TranscriptAnalyzer';
 export { ResponseGenerator } from './ResponseGenerator';
 export * from './types';
-export { SimpleStorage, BrowserStorage } from './storage';
\ No newline at end of file
+export { SimpleStorage, BrowserStorage } from './storage';
+export { SentenceChunker, parseSSE } from './streaming';
+export { SessionManager } from './SessionManager';
+export {
+  serializeConversation,
+  deserializeConversation,
+  CONVERSATION_SCHEMA_VERSION,
+  PersistedConversation,
+  TurnMetadata,
+  RestoreResult
+} from './persistence';
+export {
+  HistoryManager,
+  Summarizer,
+  FitResult,
+  estimateTokens,
+  getHistoryTokenBudget,
+  HISTORY_TOKEN_BUDGETS
+} from './HistoryManager';
+export { ProviderRegistry, ProviderFactory, ProviderRegistration, defaultProviderRegistry, resolveProvider } from './ProviderRegistry';
+export { OpenAIProvider } from './OpenAIProvider';
+export { AnthropicProvider } from './AnthropicProvider';
+export { ProviderError, ProviderErrorCode } from './errors';
+export { ProviderChain, ChainLink, createProviderChain } from './ProviderChain';
+export { CircuitBreaker, CircuitBreakerOptions, CircuitState } from './CircuitBreaker';
+export { RetryPolicy, RetryPolicyOptions, RetryAttempt, RetryExecuteOptions, isRetryableError } from './RetryPolicy';
+export {
+  RateLimiter,
+  RateLimit,
+  RateLimiterOptions,
+  RateLimiterStats,
+  withRateLimit,
+  estimateRequestTokens
+} from './RateLimiter';
+export {
+  UsageTracker,
+  ModelPrice,
+  UsageStage,
+  UsageTotals,
+  DEFAULT_MODEL_PRICES,
+  getModelPrice,
+  calculateCost
+} from './UsageTracker';
+export {
+  MetricsCollector,
+  Histogram,
+  MetricsOptions,
+  MetricsSnapshot,
+  HistogramSnapshot,
+  LabeledMetricsSnapshot,
+  LatencyMetric,
+  TurnOutcome,
+  DEFAULT_LATENCY_BUCKETS,
+  formatPrometheus
+} from './MetricsCollector';
+export {
+  BasicTracer,
+  InMemorySpanExporter,
+  Tracer,
+  Span,
+  SpanOptions,
+  SpanExporter,
+  ReadableSpan,
+  SpanAttributes,
+  SpanAttributeValue,
+  SpanStatusCode,
+  noopTracer,
+  withSpan
+} from './Tracer';
+export {
+  HeuristicEndOfTurnDetector,
+  HeuristicEndOfTurnOptions,
+  EndOfTurnDetector,
+  EndOfTurnPrediction,
+  TRAILING_WORDS,
+  FILLERS
+} from './EndOfTurnDetector';
+export {
+  LanguagePack,
+  LANGUAGE_PACKS,
+  detectLanguage,
+  isQuestion,
+  isGreeting,
+  endsSentence,
+  countWords
+} from './LanguagePack';
+export {
+  QuestionClassifier,
+  QuestionClassification,
+  QuestionClassifierOptions,
+  REQUEST_PHRASES
+} from './QuestionClassifier';
+export { IntentClassifier, IntentDefinition, AnalysisIntent, DEFAULT_INTENTS } from './IntentClassifier';
+export { WakeNameMatcher, WakeNameMatch, WakeNameOptions, stripWakeName } from './WakeNameMatcher';
+export {
+  RuleEngine,
+  RuleSet,
+  AnalysisRule,
+  RuleContext,
+  RulePredicate,
+  RulePresetName,
+  RuleTraceEntry,
+  RuleEvaluation,
+  RULE_PRESETS
+} from './RuleEngine';
+export { Clock, TimerHandle, systemClock } from './Clock';
+export { VirtualClock } from './VirtualClock';
+export {
+  ConversationRecorder,
+  ConversationFixture,
+  RecordedInput,
+  RecordedProviderCall,
+  RecordedEvent,
+  RecordedError,
+  ProviderRole,
+  FIXTURE_VERSION
+} from './ConversationRecorder';
+export {
+  ConversationReplayer,
+  ReplayOptions,
+  ReplayResult,
+  EventDifference,
+  RequestDifference
+} from './ConversationReplayer';
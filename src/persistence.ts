@@ -0,0 +1,134 @@
+import { Message } from './types';
+
+/**
+ * Current version of the persisted conversation schema.
+ * Bump it when the shape changes and teach `deserializeConversation` to migrate the old one.
+ */
+export const CONVERSATION_SCHEMA_VERSION = 1;
+
+/**
+ * Turn bookkeeping saved alongside the history so a restored monitor picks up where it left off
+ */
+export interface TurnMetadata {
+  /** Number of turns the monitor has responded to */
+  turnCount: number;
+  /** Timestamp of the last completed turn */
+  lastTurnAt?: number;
+  /** Transcript at the last completed turn, used to find new text in accumulated transcripts */
+  lastTurnTranscript?: string;
+  /** Human speakers heard so far */
+  speakers?: string[];
+  /** Running summary of messages folded out of the history */
+  summary?: string;
+}
+
+/**
+ * The versioned document written to storage
+ */
+export interface PersistedConversation {
+  version: number;
+  savedAt: number;
+  history: Message[];
+  turns: TurnMetadata;
+}
+
+/**
+ * Result of reading a persisted conversation; `error` explains why nothing could be restored
+ */
+export type RestoreResult =
+  | { conversation: PersistedConversation; error?: undefined }
+  | { conversation: null; error: string };
+
+/**
+ * Serializes conversation state with the current schema version.
+ *
+ * @param history - The conversation history to save
+ * @param turns - Turn bookkeeping to save
+ * @param savedAt - Timestamp of the save (default: now)
+ * @returns JSON string suitable for `StorageInterface.set`
+ */
+export function serializeConversation(history: Message[], turns: TurnMetadata, savedAt: number = Date.now()): string {
+  const conversation: PersistedConversation = {
+    version: CONVERSATION_SCHEMA_VERSION,
+    savedAt,
+    history,
+    turns
+  };
+  return JSON.stringify(conversation);
+}
+
+/**
+ * Parses a stored conversation, migrating older formats and rejecting corrupt data.
+ * Never throws; invalid messages are skipped rather than failing the whole restore.
+ *
+ * @param raw - The stored string (empty when nothing has been saved)
+ * @returns The conversation, or null with the reason it could not be restored
+ *
+ * @example
+ * ```typescript
+ * const { conversation, error } = deserializeConversation(await storage.get('history'));
+ * if (conversation) {
+ *   console.log(`Restored ${conversation.history.length} messages`);
+ * } else {
+ *   console.warn('Starting fresh:', error);
+ * }
+ * ```
+ */
+export function deserializeConversation(raw: string): RestoreResult {
+  if (!raw) {
+    return { conversation: null, error: 'No saved conversation' };
+  }
+
+  let data: any;
+  try {
+    data = JSON.parse(raw);
+  } catch (error) {
+    return { conversation: null, error: 'Saved conversation is not valid JSON' };
+  }
+
+  // Unversioned format: a bare array of messages
+  if (Array.isArray(data)) {
+    data = { version: 0, savedAt: 0, history: data, turns: {} };
+  }
+
+  if (!data || typeof data !== 'object' || typeof data.version !== 'number') {
+    return { conversation: null, error: 'Saved conversation has no schema version' };
+  }
+
+  if (data.version > CONVERSATION_SCHEMA_VERSION) {
+    return { conversation: null, error: `Unsupported conversation schema version: ${data.version}` };
+  }
+
+  if (!Array.isArray(data.history)) {
+    return { conversation: null, error: 'Saved conversation has no history' };
+  }
+
+  const history: Message[] = data.history.filter(isValidMessage);
+  const turns = data.turns && typeof data.turns === 'object' ? data.turns : {};
+
+  return {
+    conversation: {
+      version: CONVERSATION_SCHEMA_VERSION,
+      savedAt: typeof data.savedAt === 'number' ? data.savedAt : 0,
+      history,
+      turns: {
+        turnCount: typeof turns.turnCount === 'number'
+          ? turns.turnCount
+          : history.filter(message => message.role === 'assistant').length,
+        lastTurnAt: typeof turns.lastTurnAt === 'number' ? turns.lastTurnAt : undefined,
+        lastTurnTranscript: typeof turns.lastTurnTranscript === 'string' ? turns.lastTurnTranscript : undefined,
+        speakers: Array.isArray(turns.speakers)
+          ? turns.speakers.filter((speaker: unknown) => typeof speaker === 'string')
+          : undefined,
+        summary: typeof turns.summary === 'string' ? turns.summary : undefined
+      }
+    }
+  };
+}
+
+function isValidMessage(message: any): message is Message {
+  return !!message &&
+    (message.role === 'user' || message.role === 'assistant' || message.role === 'tool') &&
+    typeof message.content === 'string' &&
+    typeof message.timestamp === 'number';
+}
@@ -75,6 +75,16 @@ export class SimpleStorage implements StorageInterface {
     }
   }
 
+  /**
+   * Removes a value from storage. Subscribers are not notified.
+   * 
+   * @param key - The storage key to remove
+   * @returns Promise that resolves when the value is removed
+   */
+  async remove(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+
   /**
    * Subscribes to changes for a specific key.
    * 
@@ -178,6 +188,10 @@ export class BrowserStorage implements StorageInterface {
     }
   }
 
+  async remove(key: string): Promise<void> {
+    this.storage.removeItem(key);
+  }
+
   subscribe(key: string, callback: (value: string) => void): () => void {
     const handler = (e: any) => {
       if (e.detail?.key === key) {
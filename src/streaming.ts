@@ -0,0 +1,157 @@
+import { throwIfAborted } from './utils';
+
+/**
+ * A single server-sent event
+ */
+export interface ServerSentEvent {
+  /** Event type from the `event:` field, if present */
+  event?: string;
+  /** Concatenated `data:` lines */
+  data: string;
+}
+
+/**
+ * Parses a server-sent events stream, as returned by the OpenAI and Anthropic
+ * streaming APIs, into individual events.
+ *
+ * @param body - The response body stream
+ * @param signal - Optional AbortSignal that stops reading the stream
+ * @returns Async generator yielding each event in order
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch(url, { method: 'POST', body });
+ * for await (const event of parseSSE(response.body!)) {
+ *   if (event.data === '[DONE]') break;
+ *   console.log(JSON.parse(event.data));
+ * }
+ * ```
+ */
+export async function* parseSSE(
+  body: ReadableStream<Uint8Array>,
+  signal?: AbortSignal
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      throwIfAborted(signal);
+      const { done, value } = await reader.read();
+
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = done ? '' : blocks.pop() || '';
+
+      for (const block of blocks) {
+        const event = parseEventBlock(block);
+        if (event) yield event;
+      }
+
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function parseEventBlock(block: string): ServerSentEvent | null {
+  let event: string | undefined;
+  const data: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    // Lines starting with a colon are comments (often used as keep-alives)
+    if (!line || line.startsWith(':')) continue;
+
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+    if (field === 'event') {
+      event = value;
+    } else if (field === 'data') {
+      data.push(value);
+    }
+  }
+
+  if (data.length === 0) return null;
+
+  return { event, data: data.join('\n') };
+}
+
+const ABBREVIATIONS = new Set(['mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'vs', 'etc', 'e.g', 'i.e', 'approx']);
+
+/**
+ * SentenceChunker - Splits streamed text into complete sentences
+ *
+ * Deltas are buffered until a sentence terminator followed by whitespace is seen,
+ * so sentences can be handed to a TTS engine as soon as they are complete.
+ * Common abbreviations such as "Dr." do not end a sentence.
+ *
+ * @example
+ * ```typescript
+ * const chunker = new SentenceChunker();
+ *
+ * chunker.push('Sure. Dr. Smith is ');  // ['Sure.']
+ * chunker.push('in today! Anything');   // ['Dr. Smith is in today!']
+ * chunker.flush();                      // 'Anything'
+ * ```
+ */
+export class SentenceChunker {
+  private buffer = '';
+
+  /**
+   * Adds streamed text and returns any sentences it completed.
+   *
+   * @param delta - The newly streamed text
+   * @returns Complete sentences, trimmed, in order
+   */
+  push(delta: string): string[] {
+    this.buffer += delta;
+
+    const sentences: string[] = [];
+    const boundary = /[.!?…]+["')\]]*\s+|[。！？]+/g;
+    let start = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = boundary.exec(this.buffer))) {
+      const end = match.index + match[0].length;
+      if (match[0].startsWith('.')) {
+        const lastWord = this.lastWord(this.buffer.slice(start, match.index));
+        // "No. 5" is a number but "I said no. Then" ends a sentence, so wait for the next word
+        if (lastWord === 'no' && end === this.buffer.length) break;
+        if (this.isAbbreviation(lastWord, this.buffer.slice(end))) continue;
+      }
+
+      const sentence = this.buffer.slice(start, end).trim();
+      if (sentence) sentences.push(sentence);
+      start = end;
+    }
+
+    this.buffer = this.buffer.slice(start);
+    return sentences;
+  }
+
+  /**
+   * Returns any remaining buffered text and resets the chunker.
+   *
+   * @returns The trailing text, trimmed (empty string if none)
+   */
+  flush(): string {
+    const rest = this.buffer.trim();
+    this.buffer = '';
+    return rest;
+  }
+
+  private lastWord(text: string): string {
+    return text.split(/\s+/).pop()?.toLowerCase() || '';
+  }
+
+  private isAbbreviation(word: string, following: string): boolean {
+    // Single letters are usually initials ("J. R. R. Tolkien")
+    return ABBREVIATIONS.has(word) || /^[a-z]$/.test(word) || (word === 'no' && /^\d/.test(following));
+  }
+}
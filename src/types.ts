@@ -1,3 +1,18 @@
+import type { ProviderRegistry } from './ProviderRegistry';
+import type { CircuitBreakerOptions, CircuitState } from './CircuitBreaker';
+import type { RetryPolicyOptions } from './RetryPolicy';
+import type { RateLimiter } from './RateLimiter';
+import type { ModelPrice } from './UsageTracker';
+import type { MetricsOptions } from './MetricsCollector';
+import type { Span, Tracer } from './Tracer';
+import type { Clock } from './Clock';
+import type { EndOfTurnDetector, EndOfTurnPrediction } from './EndOfTurnDetector';
+import type { WakeNameMatch, WakeNameOptions } from './WakeNameMatcher';
+import type { RulePresetName, RuleSet, RuleTraceEntry } from './RuleEngine';
+import type { LanguagePack } from './LanguagePack';
+import type { QuestionClassification, QuestionClassifierOptions } from './QuestionClassifier';
+import type { AnalysisIntent, IntentDefinition } from './IntentClassifier';
+
 export interface MonitorConfig {
     storage?: StorageInterface;
     analyzer?: AnalyzerConfig;
@@ -20,31 +35,523 @@ export interface MonitorConfig {
      * Provides background information to better inform analysis and generation.
      */
     contextFile?: string;
+    /**
+     * How transcripts that finish debouncing while a turn is in flight are handled.
+     * - 'sequential': process every turn in arrival order (default)
+     * - 'merge': join pending transcripts into a single next turn
+     * - 'latest': keep only the newest pending transcript
+     */
+    queuePolicy?: TurnQueuePolicy;
+    /**
+     * Maximum number of pending turns kept by the 'sequential' policy (default: 10).
+     * The oldest pending turn is dropped when the limit is exceeded.
+     */
+    maxQueueSize?: number;
+    /**
+     * What happens when the user speaks while a turn is being analyzed or generated.
+     * - 'none': the in-flight turn completes normally (default)
+     * - 'cancel': the in-flight turn is aborted and `responseCancelled` is emitted
+     */
+    interruptionMode?: 'none' | 'cancel';
+    /**
+     * Stream responses from the generator, emitting `responseDelta` and `responseSentence`
+     * events as text arrives. `responseGenerated` still fires with the full text (default: false)
+     */
+    streaming?: boolean;
+    /**
+     * Per-speaker rules for group conversations, applied to transcript segments with speaker labels
+     */
+    speakerPolicy?: SpeakerPolicy;
+    /**
+     * How failed analysis and generation attempts are retried. Each failed attempt
+     * emits `retryAttempt` (default: 3 attempts, exponential backoff from 1000ms with full jitter)
+     */
+    retry?: RetryPolicyOptions;
+    /**
+     * Rate limiter for provider calls, used by the analyzer and generator unless their
+     * own config sets one. Share one instance between monitors that use the same API key.
+     */
+    rateLimiter?: RateLimiter;
+    /**
+     * Token pricing and an optional spend limit for the monitor's provider calls
+     */
+    usage?: UsageConfig;
+    /**
+     * Latency histogram buckets and percentile window for `getMetrics()`
+     */
+    metrics?: MetricsOptions;
+    /**
+     * Tracer that receives a trace per turn, with spans for the debounce wait, analysis,
+     * each retry attempt and generation (default: no tracing)
+     */
+    tracer?: Tracer;
+    /**
+     * Source of time for the debounce, polling, retry backoff, silence durations and metrics.
+     * Pass a VirtualClock in tests to move time forward instead of waiting; give the same
+     * clock to a BasicTracer or RateLimiter used with the monitor (default: systemClock)
+     */
+    clock?: Clock;
+    /**
+     * Prefix for every storage key the monitor uses, e.g. a session ID.
+     * Keys become `${namespace}:${key}` so several monitors can share one storage.
+     */
+    namespace?: string;
+    /**
+     * Save conversation history and turn metadata through `storage` after every turn,
+     * and restore it on `start()` (default: false)
+     */
+    persistHistory?: boolean;
+    /**
+     * Token budget and summarization settings for the conversation history
+     */
+    history?: HistoryConfig;
   }
   
+  export interface UsageConfig {
+    /**
+     * Prices by model name prefix, merged over DEFAULT_MODEL_PRICES. The longest matching prefix wins;
+     * models without a price are counted in tokens but cost nothing.
+     */
+    prices?: Record<string, ModelPrice>;
+    /**
+     * Spend limit across every turn of the monitor. `budgetExceeded` is emitted once when it is reached.
+     */
+    budget?: UsageBudget;
+  }
+  
+  export interface UsageBudget {
+    /** Maximum total cost in USD */
+    maxCost?: number;
+    /** Maximum total tokens, prompt plus completion */
+    maxTokens?: number;
+    /**
+     * What happens once the budget is reached.
+     * - 'rule-based': analysis stops calling the provider and uses the rule-based analysis; responses are still generated (default)
+     * - 'stop': the monitor stops responding
+     */
+    onExceeded?: 'rule-based' | 'stop';
+  }
+  
+  export interface HistoryConfig {
+    /**
+     * Token budget for the history sent to the generator (default: based on the generator model)
+     */
+    maxTokens?: number;
+    /**
+     * Token counting function (default: about four characters per token)
+     */
+    tokenizer?: (text: string) => number;
+    /**
+     * Fold messages that fall out of the budget into a running summary instead of dropping them.
+     * Uses `summarizer` if given, otherwise the configured generator provider (default: true)
+     */
+    summarize?: boolean;
+    /**
+     * Custom function that folds older messages into the running summary
+     */
+    summarizer?: (messages: Message[], previousSummary: string) => Promise<string>;
+  }
+  
+  export interface SpeakerPolicy {
+    /**
+     * Only respond to turns ending with one of these speakers (e.g. the meeting host).
+     * Other speakers are still kept as conversation context.
+     */
+    respondTo?: string[];
+    /**
+     * Speakers to ignore entirely (e.g. another bot in the call).
+     * Their segments are neither analyzed nor recorded.
+     */
+    ignore?: string[];
+  }
+  
+  export type TurnQueuePolicy = 'sequential' | 'merge' | 'latest';
+  
   export interface StorageInterface {
     get(key: string): Promise<string>;
     set(key: string, value: string): Promise<void>;
+    remove?(key: string): Promise<void>;
     subscribe?(key: string, callback: (value: string) => void): () => void;
   }
   
   export interface AnalyzerConfig {
-    provider?: 'openai' | 'anthropic' | 'custom';
+    /**
+     * Provider name from the registry ('openai', 'anthropic', or one you registered),
+     * a provider instance, or 'custom' to use only `customAnalyzer` and the rule-based fallback
+     */
+    provider?: ProviderName | LLMProvider;
     apiKey?: string;
+    /**
+     * API base URL, overriding the provider's default endpoint
+     */
+    baseUrl?: string;
+    /**
+     * Extra headers sent with every provider request
+     */
+    headers?: Record<string, string>;
     model?: string;
     minWords?: number;
     maxSilenceMs?: number;
-    customAnalyzer?: (transcript: string, context: AnalysisContext) => Promise<AnalysisResult>;
+    /**
+     * Decides whether the speaker has finished, replacing the fixed `maxSilenceMs` check.
+     * Its prediction is attached to every result as `endOfTurn` (default: none)
+     */
+    endOfTurnDetector?: EndOfTurnDetector;
+    /**
+     * Completion probability below which the analyzer waits for the speaker to go on (default: 0.5)
+     */
+    minEndOfTurnProbability?: number;
+    /**
+     * Aliases and fuzzy matching for recognizing the monitor's `name` in transcripts
+     * (default: whole-word, phonetic and near-miss matching of the name alone)
+     */
+    wakeName?: WakeNameOptions;
+    /**
+     * Weighted rules used by rule-based analysis, as a preset name or a rule set. Rules marked
+     * `immediate`, such as the presets' question and greeting rules, can answer before the
+     * silence check (default: the 'default' preset)
+     */
+    rules?: RulePresetName | RuleSet;
+    /**
+     * Language of the transcript: a pack code, a custom pack, or 'auto' to detect it on each
+     * analysis, falling back to the first of `languagePacks` (default: 'en')
+     */
+    language?: string | LanguagePack;
+    /**
+     * Packs to detect the language among, also searched first when `language` is a code
+     * (default: LANGUAGE_PACKS)
+     */
+    languagePacks?: LanguagePack[];
+    /**
+     * Threshold and request phrases for recognizing questions that have no question mark
+     * (default: questions from a confidence of 0.6, with the built-in request phrases)
+     */
+    questionClassifier?: QuestionClassifierOptions;
+    /**
+     * Intents to label results with, chosen by the AI analyzer or matched by keywords in
+     * rule-based mode, in priority order (default: none, results carry no intent)
+     */
+    intents?: IntentDefinition[];
+    customAnalyzer?: (transcript: string, context: AnalysisContext, options?: AnalyzeOptions) => Promise<AnalysisResult>;
+    /**
+     * Registry used to look up `provider` by name (default: the shared default registry)
+     */
+    registry?: ProviderRegistry;
+    /**
+     * Providers to try in order, each behind a circuit breaker. Replaces `provider`;
+     * when every provider fails, the rule-based analysis is used.
+     */
+    providers?: ProviderChainEntry[];
+    /**
+     * Circuit breaker settings for `providers`
+     */
+    circuitBreaker?: CircuitBreakerOptions;
+    /**
+     * Rate limiter shared with other analyzers and generators; analysis calls wait behind generation
+     */
+    rateLimiter?: RateLimiter;
+    /**
+     * Source of time for circuit breaker cooldowns and Retry-After dates; the monitor passes
+     * its own (default: systemClock)
+     */
+    clock?: Clock;
+  }
+  
+  export interface AnalyzeOptions {
+    /**
+     * Signal used to cancel the analysis, e.g. when the user barges in
+     */
+    signal?: AbortSignal;
+    /**
+     * Called when a provider's circuit breaker changes state during the analysis
+     */
+    onCircuitStateChange?: (change: CircuitStateChange) => void;
+    /**
+     * Called with the token usage of each provider call made during the analysis
+     */
+    onUsage?: (usage: TokenUsage) => void;
+    /**
+     * Skip the provider and use the rule-based analysis; a custom analyzer still runs
+     */
+    skipProvider?: boolean;
+    /**
+     * Span to annotate with how the decision was made: `analysis.method` ('rules', 'ai' or 'custom') and the model
+     */
+    span?: Span;
   }
   
   export interface GeneratorConfig {
-    provider?: 'openai' | 'anthropic' | 'custom';
+    /**
+     * Provider name from the registry ('openai', 'anthropic', or one you registered),
+     * a provider instance, or 'custom' to use only the custom generators
+     */
+    provider?: ProviderName | LLMProvider;
     apiKey?: string;
+    /**
+     * API base URL, overriding the provider's default endpoint
+     */
+    baseUrl?: string;
+    /**
+     * Extra headers sent with every provider request
+     */
+    headers?: Record<string, string>;
     model?: string;
     systemPrompt?: string;
     temperature?: number;
     maxTokens?: number;
-    customGenerator?: (transcript: string, history: Message[]) => Promise<string>;
+    customGenerator?: (transcript: string, history: Message[], options?: GenerationOptions) => Promise<string>;
+    /**
+     * Custom streaming generator, used by `generateStream` in place of the provider
+     */
+    customStreamGenerator?: (transcript: string, history: Message[], options?: GenerationOptions) => AsyncIterable<string>;
+    /**
+     * Tools the model may call while generating a response
+     */
+    tools?: ToolDefinition[];
+    /**
+     * Maximum tool call/result round trips per response before giving up (default: 5)
+     */
+    maxToolIterations?: number;
+    /**
+     * Registry used to look up `provider` by name (default: the shared default registry)
+     */
+    registry?: ProviderRegistry;
+    /**
+     * Providers to try in order, each behind a circuit breaker. Replaces `provider`
+     */
+    providers?: ProviderChainEntry[];
+    /**
+     * Circuit breaker settings for `providers`
+     */
+    circuitBreaker?: CircuitBreakerOptions;
+    /**
+     * Canned response returned when every provider fails, instead of throwing
+     */
+    fallbackResponse?: string;
+    /**
+     * Rate limiter shared with other analyzers and generators; generation calls go first
+     */
+    rateLimiter?: RateLimiter;
+    /**
+     * Source of time for circuit breaker cooldowns and Retry-After dates; the monitor passes
+     * its own (default: systemClock)
+     */
+    clock?: Clock;
+  }
+  
+  /**
+   * One provider in a fallback chain, with its own credentials and model
+   */
+  export interface ProviderChainEntry extends ProviderConfig {
+    provider: ProviderName | LLMProvider;
+    /** Model for this provider (default: the analyzer's or generator's default for it) */
+    model?: string;
+  }
+  
+  export interface CircuitStateChange {
+    /** Provider name, as in `LLMProvider.name` */
+    provider: string;
+    model?: string;
+    from: CircuitState;
+    to: CircuitState;
+  }
+  
+  /**
+   * Built-in provider names; any name added to a ProviderRegistry is accepted too
+   */
+  export type ProviderName = 'openai' | 'anthropic' | 'openai-compatible' | 'custom' | (string & {});
+  
+  /**
+   * What a provider can do beyond plain chat completions
+   */
+  export interface ProviderCapabilities {
+    /** Can constrain output to a JSON object */
+    json: boolean;
+    /** Implements `stream` */
+    streaming: boolean;
+    /** Accepts tools and returns tool calls */
+    tools: boolean;
+  }
+  
+  /**
+   * Settings a registry passes to a provider factory
+   */
+  export interface ProviderConfig {
+    apiKey?: string;
+    /**
+     * API base URL, e.g. 'http://localhost:11434/v1' for a local OpenAI-compatible server
+     */
+    baseUrl?: string;
+    /**
+     * Extra headers sent with every request
+     */
+    headers?: Record<string, string>;
+    /**
+     * Source of time for resolving Retry-After dates (default: systemClock)
+     */
+    clock?: Clock;
+  }
+  
+  /**
+   * A message in a provider-neutral chat request
+   */
+  export type ChatMessage =
+    | { role: 'user'; content: string }
+    | { role: 'assistant'; content: string; toolCalls?: ToolCall[] }
+    | { role: 'tool'; content: string; toolCallId: string; name: string; isError?: boolean };
+  
+  export interface ChatRequest {
+    /** Model name; providers fall back to their own default */
+    model?: string;
+    system?: string;
+    messages: ChatMessage[];
+    temperature?: number;
+    maxTokens?: number;
+    /** Ask for a JSON object response, where the provider supports it */
+    json?: boolean;
+    /** Tools the model may call */
+    tools?: ToolSpec[];
+  }
+  
+  export interface ChatResponse {
+    /** Text of the reply (empty when the model only called tools) */
+    content: string;
+    /** Tool calls the model made, in order */
+    toolCalls: ToolCall[];
+    /** Model that produced the reply, if reported */
+    model?: string;
+    /** Tokens the request used, if reported */
+    usage?: TokenUsage;
+  }
+  
+  /**
+   * Tokens used by one provider request, as reported by the provider
+   */
+  export interface TokenUsage {
+    /** Provider display name, e.g. 'OpenAI' */
+    provider: string;
+    /** Model that served the request, if known */
+    model?: string;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  }
+  
+  export interface ProviderCallOptions {
+    /**
+     * Signal used to cancel the request
+     */
+    signal?: AbortSignal;
+    /**
+     * Called when a circuit breaker changes state during the request (fallback chains only)
+     */
+    onCircuitStateChange?: (change: CircuitStateChange) => void;
+    /**
+     * Queue priority when the request waits for a rate limiter (default: 'analysis')
+     */
+    priority?: RequestPriority;
+    /**
+     * Called with the token usage of the request once the provider reports it, for streams at the end
+     */
+    onUsage?: (usage: TokenUsage) => void;
+  }
+  
+  /**
+   * Rate limiter queue order: generation first, then analysis, then background work such as summaries
+   */
+  export type RequestPriority = 'generation' | 'analysis' | 'background';
+  
+  /**
+   * A language model backend used by the analyzer and the generator.
+   * Implementations translate the provider-neutral request into their wire format
+   * and throw ProviderError for failed requests.
+   */
+  export interface LLMProvider {
+    /** Name used in errors and events */
+    readonly name: string;
+    readonly capabilities: ProviderCapabilities;
+    chat(request: ChatRequest, options?: ProviderCallOptions): Promise<ChatResponse>;
+    /** Yields reply text deltas; required when `capabilities.streaming` is true */
+    stream?(request: ChatRequest, options?: ProviderCallOptions): AsyncIterable<string>;
+  }
+  
+  /**
+   * A tool as sent to the provider, without its handler
+   */
+  export type ToolSpec = Pick<ToolDefinition, 'name' | 'description' | 'parameters'>;
+  
+  export interface ToolDefinition {
+    /** Name the model uses to call the tool */
+    name: string;
+    /** What the tool does and when to use it */
+    description: string;
+    /** JSON schema for the tool arguments */
+    parameters: Record<string, any>;
+    /** Runs the tool; strings are passed to the model as-is, anything else as JSON */
+    handler: (args: Record<string, any>, context: { signal?: AbortSignal }) => unknown | Promise<unknown>;
+  }
+  
+  export interface ToolCall {
+    /** Provider-assigned call ID */
+    id: string;
+    name: string;
+    arguments: Record<string, any>;
+  }
+  
+  export interface ToolResult {
+    callId: string;
+    name: string;
+    /** Result passed back to the model */
+    content: string;
+    /** Set when the tool is unknown or its handler threw */
+    isError?: boolean;
+  }
+  
+  export interface GenerationOptions {
+    /**
+     * Optional name of the assistant being addressed
+     */
+    name?: string;
+    /**
+     * Optional role to adopt when generating responses
+     */
+    role?: string;
+    /**
+     * Optional path to a file with additional context, or the context itself
+     */
+    contextFile?: string;
+    /**
+     * Human speakers taking part in the conversation; more than one marks a group conversation
+     */
+    speakers?: string[];
+    /**
+     * Running summary of earlier conversation that no longer fits in the history
+     */
+    summary?: string;
+    /**
+     * Signal used to cancel generation, e.g. when the user barges in
+     */
+    signal?: AbortSignal;
+    /**
+     * Called before each tool handler runs
+     */
+    onToolCall?: (call: ToolCall) => void;
+    /**
+     * Called with each tool handler's result
+     */
+    onToolResult?: (result: ToolResult) => void;
+    /**
+     * Called when a provider's circuit breaker changes state during generation
+     */
+    onCircuitStateChange?: (change: CircuitStateChange) => void;
+    /**
+     * Called with the token usage of each provider call, including every tool-calling round
+     */
+    onUsage?: (usage: TokenUsage) => void;
+    /**
+     * Span to annotate with how the response was produced: `generation.method` and the model
+     */
+    span?: Span;
   }
   
   export interface AnalysisContext {
@@ -52,6 +559,26 @@ export interface MonitorConfig {
     previousTranscript: string;
     silenceDuration: number;
     conversationHistory: Message[];
+    /**
+     * Finalized text added since the last turn the monitor responded to
+     */
+    newText?: string;
+    /**
+     * Finalized segments added since the last turn, when the transcript is fed as segments
+     */
+    segments?: TranscriptSegment[];
+    /**
+     * Speaker of the most recent finalized segment in this turn
+     */
+    speaker?: string;
+    /**
+     * Human speakers heard so far in the conversation; more than one marks a group conversation
+     */
+    speakers?: string[];
+    /**
+     * Language pack the analyzer selected for this text, set before end-of-turn detection
+     */
+    language?: LanguagePack;
     /**
      * Optional name of the monitor that can be referenced in transcripts
      */
@@ -70,10 +597,115 @@ export interface MonitorConfig {
     shouldRespond: boolean;
     confidence: number;
     reason: string;
+    /**
+     * Prediction of the configured end-of-turn detector
+     */
+    endOfTurn?: EndOfTurnPrediction;
+    /**
+     * Where the monitor's name was found, so it can be stripped before generation.
+     * Offsets refer to the analyzed text: `context.newText` when set, otherwise the transcript.
+     */
+    wakeName?: WakeNameMatch;
+    /**
+     * How each rule was evaluated, when the result came from rule-based analysis
+     */
+    ruleTrace?: RuleTraceEntry[];
+    /**
+     * How the text was classified, when it asks a question or makes a request
+     */
+    question?: QuestionClassification;
+    /**
+     * What kind of response is needed, when `intents` are configured and one matches
+     */
+    intent?: AnalysisIntent;
+    /**
+     * Code of the language detected when the analyzer's `language` is 'auto'
+     */
+    language?: string;
+    /**
+     * Tokens and cost of the provider calls behind this result. Set by the monitor
+     * on `analysisComplete` when the analysis called a provider.
+     */
+    usage?: UsageSummary;
+  }
+  
+  /**
+   * A turn routed to an intent handler
+   */
+  export interface IntentTurn {
+    transcript: string;
+    intent: AnalysisIntent;
+    analysis: AnalysisResult;
+    /** Aborted when the turn is cancelled, e.g. by an interruption or `stop()` */
+    signal: AbortSignal;
+  }
+  
+  /**
+   * Handles turns with one intent in place of the generator. A returned string is the
+   * response; returning nothing means the application has dealt with the turn itself.
+   */
+  export type IntentHandler = (turn: IntentTurn) => string | void | Promise<string | void>;
+  
+  /**
+   * Tokens and cost added up over one or more provider calls
+   */
+  export interface UsageSummary {
+    /** Number of provider calls */
+    calls: number;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    /** Cost in USD from the model price table */
+    cost: number;
+  }
+  
+  export interface TranscriptWord {
+    word: string;
+    /** Start time in milliseconds */
+    start?: number;
+    /** End time in milliseconds */
+    end?: number;
+    /** Recognition confidence between 0 and 1 */
+    confidence?: number;
+  }
+  
+  export interface TranscriptSegment {
+    /** Identifier assigned by the STT engine, used to update interim segments */
+    id: string;
+    text: string;
+    /** Speaker label from diarization */
+    speaker?: string;
+    /** Start time in milliseconds */
+    start?: number;
+    /** End time in milliseconds */
+    end?: number;
+    /** Recognition confidence between 0 and 1 */
+    confidence?: number;
+    words?: TranscriptWord[];
+    /** False while the STT engine may still revise the segment */
+    isFinal: boolean;
   }
   
   export interface Message {
-    role: 'user' | 'assistant';
+    role: 'user' | 'assistant' | 'tool';
     content: string;
     timestamp: number;
+    /**
+     * Speaker label for user messages in multi-speaker conversations
+     */
+    speaker?: string;
+    /**
+     * Set on assistant messages that were cut off because the user started speaking.
+     * `content` holds whatever was produced before the interruption.
+     */
+    interrupted?: boolean;
+    /**
+     * Set on tool messages; `content` holds the result passed back to the model
+     */
+    tool?: {
+      name: string;
+      callId: string;
+      arguments: Record<string, any>;
+      isError?: boolean;
+    };
   }
\ No newline at end of file
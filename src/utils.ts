@@ -1,3 +1,6 @@
+import { RetryPolicy } from './RetryPolicy';
+import { Clock, TimerHandle, systemClock } from './Clock';
+
 /**
  * Creates a debounced version of the provided function that delays execution until after
  * the specified wait time has elapsed since the last time it was called.
@@ -5,6 +8,7 @@
  * @template T - The function type
  * @param func - The function to debounce
  * @param wait - The number of milliseconds to delay execution
+ * @param clock - Clock that runs the timer (default: systemClock)
  * @returns A debounced version of the function
  * 
  * @example
@@ -23,25 +27,30 @@
  */
 export function debounce<T extends (...args: any[]) => any>(
     func: T,
-    wait: number
+    wait: number,
+    clock: Clock = systemClock
   ): (...args: Parameters<T>) => void {
-    let timeout: NodeJS.Timeout | null = null;
+    let timeout: TimerHandle | null = null;
     
     return function (...args: Parameters<T>) {
-      if (timeout) clearTimeout(timeout);
-      timeout = setTimeout(() => func(...args), wait);
+      if (timeout !== null) clock.clearTimeout(timeout);
+      timeout = clock.setTimeout(() => func(...args), wait);
     };
   }
   
 /**
- * Retries an async operation with exponential backoff on failure.
+ * Retries an async operation with exponential backoff and full jitter.
+ * Errors marked as not retryable, such as authentication failures, are thrown immediately,
+ * and a provider's Retry-After delay is honored. Use RetryPolicy directly to configure
+ * delay caps, the total time limit or per-attempt callbacks.
  * 
  * @template T - The return type of the function
  * @param fn - The async function to retry
- * @param maxAttempts - Maximum number of retry attempts (default: 3)
- * @param delay - Initial delay in milliseconds between retries (default: 1000)
+ * @param maxAttempts - Maximum number of attempts (default: 3)
+ * @param delay - Base delay in milliseconds; attempt n waits up to `delay * 2^(n-1)` (default: 1000)
+ * @param signal - Optional AbortSignal; aborting stops further attempts and rejects with an AbortError
  * @returns Promise that resolves with the result or throws the last error
- * @throws {Error} The last error encountered if all attempts fail
+ * @throws {Error} The last error encountered if all attempts fail, or the abort reason if aborted
  * 
  * @example
  * ```typescript
@@ -54,7 +63,7 @@ export function debounce<T extends (...args: any[]) => any>(
  *     return response.json();
  *   },
  *   3,  // Max 3 attempts
- *   500 // Start with 500ms delay, increases exponentially
+ *   500 // Waits up to 500ms, then up to 1000ms
  * );
  * 
  * console.log('Retrieved data:', result);
@@ -63,20 +72,82 @@ export function debounce<T extends (...args: any[]) => any>(
 export async function retry<T>(
     fn: () => Promise<T>,
     maxAttempts: number = 3,
-    delay: number = 1000
+    delay: number = 1000,
+    signal?: AbortSignal
   ): Promise<T> {
-    let lastError: Error;
-    
-    for (let i = 0; i < maxAttempts; i++) {
-      try {
-        return await fn();
-      } catch (error) {
-        lastError = error as Error;
-        if (i < maxAttempts - 1) {
-          await new Promise(resolve => setTimeout(resolve, delay * (i + 1)));
-        }
+    return new RetryPolicy({ maxAttempts, baseDelayMs: delay }).execute(fn, { signal });
+  }
+
+/**
+ * Resolves after the given delay, or rejects early if the signal is aborted.
+ * 
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional AbortSignal to cancel the wait
+ * @param clock - Clock that runs the timer (default: systemClock)
+ * @returns Promise that resolves after the delay
+ * @throws {Error} An AbortError if the signal is aborted before the delay elapses
+ */
+export function sleep(ms: number, signal?: AbortSignal, clock: Clock = systemClock): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortReason(signal));
+        return;
       }
+      
+      const onAbort = () => {
+        clock.clearTimeout(timeout);
+        reject(abortReason(signal!));
+      };
+      const timeout = clock.setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+/**
+ * Creates an Error with the name `AbortError`, matching what `fetch` rejects with
+ * when its signal is aborted.
+ * 
+ * @param message - Description of why the operation was aborted
+ * @returns The abort error
+ * 
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * controller.abort(createAbortError('User started speaking'));
+ * ```
+ */
+export function createAbortError(message: string = 'The operation was aborted'): Error {
+    const error = new Error(message);
+    error.name = 'AbortError';
+    return error;
+  }
+
+/**
+ * Checks whether an error was caused by an aborted operation.
+ * 
+ * @param error - The error to check
+ * @returns True if the error is an AbortError
+ */
+export function isAbortError(error: unknown): boolean {
+    return error instanceof Error && error.name === 'AbortError';
+  }
+
+/**
+ * Throws the abort reason if the signal has been aborted.
+ * 
+ * @param signal - Optional AbortSignal to check
+ * @throws {Error} An AbortError if the signal is aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw abortReason(signal);
     }
-    
-    throw lastError!;
-  }
\ No newline at end of file
+  }
+
+function abortReason(signal: AbortSignal): Error {
+    return isAbortError(signal.reason) ? signal.reason : createAbortError();
+  }
@@ -0,0 +1,68 @@
+import { CircuitBreaker, VirtualClock } from '../src';
+
+describe('CircuitBreaker', () => {
+  test('should open once the failure rate crosses the threshold', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 0.5, minimumRequests: 4, cooldownMs: 1000 });
+    
+    breaker.recordSuccess();
+    breaker.recordFailure(0);
+    breaker.recordSuccess();
+    expect(breaker.state).toBe('closed');
+    
+    breaker.recordFailure(0);
+    expect(breaker.state).toBe('open');
+    expect(breaker.allowRequest(500)).toBe(false);
+  });
+  
+  test('should let one probe through after the cooldown', () => {
+    const breaker = new CircuitBreaker({ minimumRequests: 1, cooldownMs: 1000 });
+    breaker.recordFailure(0);
+    
+    expect(breaker.allowRequest(1000)).toBe(true);
+    expect(breaker.state).toBe('half-open');
+    expect(breaker.allowRequest(1000)).toBe(false);
+    
+    breaker.recordSuccess();
+    expect(breaker.state).toBe('closed');
+    expect(breaker.allowRequest(1000)).toBe(true);
+  });
+  
+  test('should time the cooldown on the configured clock', async () => {
+    const clock = new VirtualClock(Date.parse('2024-01-01T09:00:00Z'));
+    const breaker = new CircuitBreaker({ minimumRequests: 1, cooldownMs: 1000, clock });
+    breaker.recordFailure();
+    
+    await clock.advance(999);
+    expect(breaker.allowRequest()).toBe(false);
+    expect(breaker.state).toBe('open');
+    
+    await clock.advance(1);
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.state).toBe('half-open');
+  });
+  
+  test('should reopen when the probe fails', () => {
+    const breaker = new CircuitBreaker({ minimumRequests: 1, cooldownMs: 1000 });
+    breaker.recordFailure(0);
+    
+    breaker.allowRequest(1000);
+    breaker.recordFailure(1000);
+    
+    expect(breaker.state).toBe('open');
+    expect(breaker.allowRequest(1500)).toBe(false);
+    expect(breaker.allowRequest(2000)).toBe(true);
+  });
+  
+  test('should only count failures within the window', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 0.5, windowSize: 4, minimumRequests: 4 });
+    
+    breaker.recordFailure(0);
+    breaker.recordSuccess();
+    breaker.recordSuccess();
+    breaker.recordSuccess();
+    breaker.recordSuccess();
+    breaker.recordFailure(0);
+    
+    expect(breaker.state).toBe('closed');
+  });
+});
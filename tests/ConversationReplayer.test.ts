@@ -0,0 +1,116 @@
+import {
+  Clock,
+  ConversationFixture,
+  ConversationRecorder,
+  ConversationReplayer,
+  LLMProvider,
+  MonitorConfig,
+  ProviderError,
+  SimpleStorage,
+  TranscriptMonitor,
+  VirtualClock
+} from '../src';
+
+const delay = (clock: Clock, ms: number) => new Promise(resolve => clock.setTimeout(() => resolve(undefined), ms));
+
+// Fails once with a retryable error, then answers after a short delay
+const flakyProvider = (clock: Clock): LLMProvider => {
+  let calls = 0;
+  return {
+    name: 'Fake',
+    capabilities: { json: true, streaming: false, tools: false },
+    chat: async (_request, options = {}) => {
+      await delay(clock, 15);
+      if (++calls === 1) {
+        throw new ProviderError('Fake API error: Service Unavailable', { provider: 'Fake', code: 'server', status: 503 });
+      }
+      const usage = { provider: 'Fake', promptTokens: 40, completionTokens: 6, totalTokens: 46 };
+      options.onUsage?.(usage);
+      return { content: 'The meeting is at noon.', toolCalls: [], usage };
+    }
+  };
+};
+
+async function recordConversation(): Promise<ConversationFixture> {
+  const clock = new VirtualClock(Date.parse('2024-01-01T09:00:00Z'));
+  const config: MonitorConfig = {
+    debounceMs: 30,
+    retry: { baseDelayMs: 10, jitter: 'none' },
+    generator: { model: 'fake-model', apiKey: 'secret' },
+    clock
+  };
+  const recorder = new ConversationRecorder(config);
+  const monitor = new TranscriptMonitor({
+    ...config,
+    storage: new SimpleStorage(),
+    generator: { ...config.generator, provider: recorder.recordProvider('generation', flakyProvider(clock)) }
+  });
+  const detach = recorder.attach(monitor);
+  
+  let responded = false;
+  monitor.once('responseGenerated', () => { responded = true; });
+  await monitor.updateTranscript('Hello everyone');
+  await clock.advance(10);
+  await monitor.updateTranscript('Hello everyone. When is the meeting?');
+  await clock.advance(200);
+  expect(responded).toBe(true);
+  
+  detach();
+  monitor.stop();
+  return recorder.toFixture();
+}
+
+describe('ConversationRecorder', () => {
+  test('should record inputs, provider calls and events without secrets', async () => {
+    const fixture = await recordConversation();
+    
+    expect(fixture.config.generator).toEqual({ model: 'fake-model' });
+    expect(fixture.providers.generation).toEqual({ name: 'Fake', capabilities: { json: true, streaming: false, tools: false } });
+    expect(fixture.inputs.map(input => input.type)).toEqual(['transcript', 'transcript']);
+    expect(fixture.inputs[1].at).toBe(10);
+    
+    expect(fixture.providerCalls).toHaveLength(2);
+    expect(fixture.providerCalls[0].error).toMatchObject({ name: 'ProviderError', code: 'server', status: 503 });
+    expect(fixture.providerCalls[1].response?.content).toBe('The meeting is at noon.');
+    expect(fixture.providerCalls[1].request.model).toBe('fake-model');
+    expect(fixture.providerCalls[1].usage?.totalTokens).toBe(46);
+    
+    const names = fixture.events.map(event => event.name);
+    expect(names).toEqual(expect.arrayContaining(['analysisComplete', 'retryAttempt', 'responseGenerated']));
+    expect(JSON.parse(JSON.stringify(fixture))).toEqual(fixture);
+  });
+});
+
+describe('ConversationReplayer', () => {
+  let fixture: ConversationFixture;
+  
+  beforeAll(async () => {
+    fixture = JSON.parse(JSON.stringify(await recordConversation()));
+  });
+  
+  test('should replay a recording with the same events and timing', async () => {
+    const result = await new ConversationReplayer(fixture, { timingToleranceMs: 0 }).run();
+    
+    expect(result.differences).toEqual([]);
+    expect(result.requestDifferences).toEqual([]);
+    expect(result.matches).toBe(true);
+    expect(result.events.map(event => event.name)).toEqual(fixture.events.map(event => event.name));
+  });
+  
+  test('should report events and requests that change with the config', async () => {
+    const result = await new ConversationReplayer(fixture, {
+      config: { generator: { model: 'other-model', fallbackResponse: 'Sorry, try again.' }, retry: { maxAttempts: 1 } }
+    }).run();
+    
+    expect(result.matches).toBe(false);
+    expect(result.requestDifferences[0]).toMatchObject({ role: 'generation', index: 0, actual: { model: 'other-model' } });
+    
+    const response = result.events.find(event => event.name === 'responseGenerated');
+    expect(response?.args[0]).toBe('Sorry, try again.');
+    expect(result.differences.length).toBeGreaterThan(0);
+  });
+  
+  test('should reject fixtures from a newer recorder', () => {
+    expect(() => new ConversationReplayer({ ...fixture, version: 99 })).toThrow('Unsupported fixture version: 99');
+  });
+});
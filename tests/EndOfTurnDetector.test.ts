@@ -0,0 +1,68 @@
+import { HeuristicEndOfTurnDetector, AnalysisContext, TranscriptSegment } from '../src';
+
+const context = (silenceDuration: number, extra: Partial<AnalysisContext> = {}): AnalysisContext => ({
+  transcript: '',
+  previousTranscript: '',
+  silenceDuration,
+  conversationHistory: [],
+  ...extra
+});
+
+describe('HeuristicEndOfTurnDetector', () => {
+  const detector = new HeuristicEndOfTurnDetector();
+  
+  test('should treat finished sentences as complete', () => {
+    const prediction = detector.detect('I would like to book a table for two.', context(1000));
+    
+    expect(prediction.probability).toBeGreaterThan(0.8);
+    expect(prediction.signals).toEqual(['terminal-punctuation']);
+    expect(prediction.reason).toBe('Ends a sentence');
+  });
+  
+  test('should hold back on trailing conjunctions, fillers and dependent clauses', () => {
+    const conjunction = detector.detect('I would like to book a table and', context(1000));
+    const filler = detector.detect('I would like to book a table for um', context(1000));
+    const phrase = detector.detect('It was the budget you know', context(1000));
+    const clause = detector.detect('If we move the launch to Friday', context(1000));
+    
+    expect(conjunction).toMatchObject({ signals: ['trailing-conjunction'], reason: 'Ends with a conjunction' });
+    expect(conjunction.probability).toBeLessThan(0.2);
+    expect(filler.signals).toEqual(['trailing-filler']);
+    expect(phrase.signals).toEqual(['trailing-filler']);
+    expect(clause.signals).toEqual(['dependent-clause']);
+    expect(clause.probability).toBeLessThan(0.5);
+    expect(detector.detect('If we move the launch, we save a week.', context(1000)).probability).toBeGreaterThan(0.8);
+  });
+  
+  test('should weigh silence against the threshold and answer short commands sooner', () => {
+    const statement = 'We could ship the new version next week';
+    
+    expect(detector.detect(statement, context(300)).probability).toBeLessThan(0.5);
+    expect(detector.detect(statement, context(1000)).probability).toBe(0.5);
+    expect(detector.detect(statement, context(2000)).probability).toBeGreaterThan(0.9);
+    
+    const command = detector.detect('Next slide please', context(600));
+    expect(command.silenceThresholdMs).toBe(600);
+    expect(command.probability).toBe(0.5);
+  });
+  
+  test('should learn slower thresholds for slow speakers', () => {
+    const learner = new HeuristicEndOfTurnDetector({ learningRate: 1 });
+    const segments: TranscriptSegment[] = [
+      // 2.5 words per second for alice, 1.25 for bob
+      { id: '1', text: 'one two three four five', speaker: 'alice', start: 0, end: 2000, isFinal: true },
+      { id: '2', text: 'one two three four five', speaker: 'bob', start: 2000, end: 6000, isFinal: true },
+      { id: '3', text: 'too short', speaker: 'carol', start: 6000, end: 9000, isFinal: true }
+    ];
+    
+    const prediction = learner.detect('one two three four five', context(1500, { segments, speaker: 'bob' }));
+    
+    expect(prediction.silenceThresholdMs).toBe(2000);
+    expect(prediction.probability).toBeLessThan(0.5);
+    expect(learner.getSilenceThreshold('alice')).toBe(1000);
+    expect(learner.getSilenceThreshold('carol')).toBe(1000);
+    
+    learner.reset();
+    expect(learner.getSilenceThreshold('bob')).toBe(1000);
+  });
+});
@@ -0,0 +1,66 @@
+import { HistoryManager, getHistoryTokenBudget } from '../src/HistoryManager';
+import { Message } from '../src/types';
+
+const message = (role: Message['role'], content: string): Message => ({ role, content, timestamp: Date.now() });
+
+describe('HistoryManager', () => {
+  // One token per word keeps the arithmetic readable
+  const tokenizer = (text: string) => text.split(/\s+/).length;
+  
+  const history = [
+    message('user', 'one two three'),
+    message('assistant', 'four five six'),
+    message('user', 'seven eight nine'),
+    message('assistant', 'ten eleven twelve')
+  ];
+  
+  test('should keep history that fits the budget', async () => {
+    const manager = new HistoryManager({ maxTokens: 100, tokenizer });
+    
+    const result = await manager.fit(history);
+    
+    expect(result.history).toEqual(history);
+    expect(result.folded).toEqual([]);
+  });
+  
+  test('should fold the oldest turns into the summary', async () => {
+    const summarizer = jest.fn().mockResolvedValue('User counted to six.');
+    const manager = new HistoryManager({ maxTokens: 15, tokenizer }, summarizer);
+    
+    const result = await manager.fit(history);
+    
+    expect(result.history).toEqual(history.slice(2));
+    expect(result.folded).toEqual(history.slice(0, 2));
+    expect(result.summary).toBe('User counted to six.');
+    expect(summarizer).toHaveBeenCalledWith(history.slice(0, 2), '', undefined);
+  });
+  
+  test('should not start the history with an assistant reply', async () => {
+    const manager = new HistoryManager({ maxTokens: 18, tokenizer });
+    
+    const result = await manager.fit(history);
+    
+    expect(result.history[0].role).toBe('user');
+    expect(result.folded).toHaveLength(2);
+  });
+  
+  test('should keep the previous summary and return the error when summarization fails', async () => {
+    const manager = new HistoryManager({ maxTokens: 15, tokenizer }, async () => {
+      throw new Error('Provider down');
+    });
+    manager.setSummary('Earlier summary');
+    
+    const result = await manager.fit(history);
+    
+    expect(result.summary).toBe('Earlier summary');
+    expect(result.history).toEqual(history.slice(2));
+    expect(result.error).toEqual(new Error('Provider down'));
+  });
+  
+  test('should pick budgets by model prefix', () => {
+    expect(getHistoryTokenBudget('gpt-4o-mini-2024-07-18')).toBe(16000);
+    expect(getHistoryTokenBudget('gpt-4-0613')).toBe(4000);
+    expect(getHistoryTokenBudget('claude-3-5-sonnet-20240620')).toBe(32000);
+    expect(getHistoryTokenBudget('some-local-model')).toBe(4000);
+  });
+});
@@ -0,0 +1,44 @@
+import { IntentClassifier, DEFAULT_INTENTS, QuestionClassifier } from '../src';
+
+describe('IntentClassifier', () => {
+  const questions = new QuestionClassifier();
+  
+  test('should label turns with the default intents', () => {
+    const classifier = new IntentClassifier();
+    
+    expect(classifier.classify('Can I talk to a real person')).toEqual({ label: 'handoff', confidence: 0.6, source: 'keywords' });
+    expect(classifier.classify("This is broken and I'm so frustrated")).toEqual({ label: 'complaint', confidence: 0.7, source: 'keywords' });
+    expect(classifier.classify('Please turn off the lights')?.label).toBe('command');
+    expect(classifier.classify('Hey, how are you doing')?.label).toBe('small-talk');
+    expect(classifier.classify('the weather is nice')).toBeUndefined();
+  });
+  
+  test('should use the question classifier for intents with question kinds', () => {
+    const classifier = new IntentClassifier();
+    
+    const text = 'what time is the meeting';
+    expect(classifier.classify(text)).toBeUndefined();
+    expect(classifier.classify(text, questions.classify(text))).toEqual({ label: 'question', confidence: 0.8, source: 'keywords' });
+    
+    const request = 'tell me about the plan';
+    expect(classifier.classify(request, questions.classify(request))).toEqual({ label: 'question', confidence: 0.65, source: 'keywords' });
+  });
+  
+  test('should match the first intent in priority order', () => {
+    const classifier = new IntentClassifier([
+      { label: 'billing', keywords: ['invoice', 'refund', 'charged'] },
+      ...DEFAULT_INTENTS
+    ]);
+    
+    expect(classifier.labels).toEqual(['billing', 'handoff', 'complaint', 'small-talk', 'command', 'question']);
+    expect(classifier.classify('I was charged twice, this is unacceptable')).toEqual({ label: 'billing', confidence: 0.6, source: 'keywords' });
+    expect(classifier.classify('Refund the invoice I was charged for')?.confidence).toBe(0.8);
+    // Keywords match whole words only
+    expect(classifier.classify('The refunds team is great')).toBeUndefined();
+  });
+  
+  test('should reject duplicate labels', () => {
+    expect(() => new IntentClassifier([...DEFAULT_INTENTS, { label: 'command', keywords: ['do it'] }]))
+      .toThrow('Duplicate intent label: command');
+  });
+});
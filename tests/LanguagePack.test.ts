@@ -0,0 +1,59 @@
+import { LANGUAGE_PACKS, LanguagePack, countWords, detectLanguage, endsSentence, isGreeting, isQuestion } from '../src';
+
+describe('LanguagePack', () => {
+  const { en, es, fr, de, ja, zh } = LANGUAGE_PACKS;
+  
+  test('should detect questions with or without a question mark', () => {
+    expect(isQuestion('¿Dónde está la sala de reuniones', es)).toBe(true);
+    expect(isQuestion('これは何時に始まりますか', ja)).toBe(true);
+    expect(isQuestion('会议几点开始？', zh)).toBe(true);
+    expect(isQuestion('what time does the meeting start', en)).toBe(true);
+    expect(isQuestion("qu'est-ce que tu en penses", fr)).toBe(true);
+    expect(isQuestion('Ok. Kannst du mir helfen', de)).toBe(true);
+    
+    expect(isQuestion('What a great idea.', en)).toBe(false);
+    expect(isQuestion('the meeting starts at noon', en)).toBe(false);
+  });
+  
+  test('should detect greetings as whole words', () => {
+    expect(isGreeting('¡Hola! ¿Cómo estás?', es)).toBe(true);
+    expect(isGreeting('Good morning everyone', en)).toBe(true);
+    expect(isGreeting('おはようございます', ja)).toBe(true);
+    expect(isGreeting('Hiking is fun', en)).toBe(false);
+  });
+  
+  test('should recognize sentence endings and count words per script', () => {
+    expect(endsSentence('会議は十時からです。', ja)).toBe(true);
+    expect(endsSentence('He said "done."', en)).toBe(true);
+    expect(endsSentence('I was thinking...', en)).toBe(false);
+    
+    expect(countWords('你好吗', zh)).toBe(3);
+    expect(countWords('  hello   there ', en)).toBe(2);
+  });
+  
+  test('should detect the language by script and common words', () => {
+    expect(detectLanguage('今日は何時に会議がありますか')?.code).toBe('ja');
+    expect(detectLanguage('我们今天几点开会')?.code).toBe('zh');
+    expect(detectLanguage('Hola, ¿puedes ayudarme con la reserva?')?.code).toBe('es');
+    expect(detectLanguage("Bonjour, c'est pour la réunion de demain")?.code).toBe('fr');
+    expect(detectLanguage('Kannst du mir bitte die Datei schicken')?.code).toBe('de');
+    expect(detectLanguage('Can you send me the file please')?.code).toBe('en');
+    expect(detectLanguage('xyz 123')).toBeUndefined();
+  });
+  
+  test('should use custom packs', () => {
+    const italian: LanguagePack = {
+      code: 'it',
+      name: 'Italian',
+      questionMarks: ['?'],
+      questionWords: ['cosa', 'come', 'quando', 'dove', 'perché'],
+      greetings: ['ciao', 'buongiorno'],
+      fillers: ['ehm', 'cioè'],
+      sentenceEnders: ['.', '!', '?'],
+      commonWords: ['il', 'la', 'che', 'di', 'è', 'per', 'non', 'sono', 'mi']
+    };
+    
+    expect(isQuestion('dove sono le chiavi', italian)).toBe(true);
+    expect(detectLanguage('Ciao, mi puoi dire dove sono le chiavi', [en, italian])).toBe(italian);
+  });
+});
@@ -0,0 +1,84 @@
+import { Histogram, MetricsCollector, formatPrometheus } from '../src';
+
+describe('Histogram', () => {
+  test('should count cumulative buckets and compute percentiles', () => {
+    const histogram = new Histogram([100, 500]);
+    [50, 80, 200, 700, 90].forEach(value => histogram.observe(value));
+    
+    expect(histogram.snapshot()).toEqual({
+      count: 5,
+      sum: 1120,
+      buckets: [{ le: 100, count: 3 }, { le: 500, count: 4 }, { le: Infinity, count: 5 }],
+      min: 50,
+      max: 700,
+      mean: 224,
+      p50: 90,
+      p90: 700,
+      p99: 700
+    });
+  });
+  
+  test('should compute percentiles over the recent window only', () => {
+    const histogram = new Histogram([100], 2);
+    [1000, 10, 20].forEach(value => histogram.observe(value));
+    
+    const snapshot = histogram.snapshot();
+    expect(snapshot.count).toBe(3);
+    expect(snapshot.max).toBe(20);
+    expect(snapshot.buckets[1].count).toBe(3);
+  });
+});
+
+describe('MetricsCollector', () => {
+  test('should collect latencies, retries and outcomes', () => {
+    const metrics = new MetricsCollector({ buckets: [100] });
+    metrics.observe('analysis', 40);
+    metrics.observe('generation', -5);
+    metrics.recordRetry('generation');
+    metrics.recordOutcome('responded');
+    metrics.recordOutcome('skipped');
+    
+    const snapshot = metrics.snapshot();
+    expect(snapshot.latency.analysis.count).toBe(1);
+    expect(snapshot.latency.generation.sum).toBe(0);
+    expect(snapshot.latency.timeToFirstToken.count).toBe(0);
+    expect(snapshot.retries).toEqual({ analysis: 0, generation: 1 });
+    expect(snapshot.turns).toEqual({ responded: 1, skipped: 1, errored: 0, cancelled: 0 });
+    
+    metrics.reset();
+    expect(metrics.snapshot().turns.responded).toBe(0);
+  });
+});
+
+describe('formatPrometheus', () => {
+  test('should format histograms in seconds and counters', () => {
+    const metrics = new MetricsCollector({ buckets: [250, 1000] });
+    metrics.observe('analysis', 300);
+    metrics.recordOutcome('responded');
+    
+    const text = formatPrometheus(metrics.snapshot());
+    
+    expect(text).toContain('# TYPE transcript_monitor_analysis_duration_seconds histogram');
+    expect(text).toContain('transcript_monitor_analysis_duration_seconds_bucket{le="0.25"} 0');
+    expect(text).toContain('transcript_monitor_analysis_duration_seconds_bucket{le="1"} 1');
+    expect(text).toContain('transcript_monitor_analysis_duration_seconds_bucket{le="+Inf"} 1');
+    expect(text).toContain('transcript_monitor_analysis_duration_seconds_sum 0.3');
+    expect(text).toContain('transcript_monitor_analysis_duration_seconds_count 1');
+    expect(text).toContain('transcript_monitor_turns_total{outcome="responded"} 1');
+    expect(text).toContain('transcript_monitor_retries_total{stage="analysis"} 0');
+    expect(text.endsWith('\n')).toBe(true);
+  });
+  
+  test('should label several snapshots under one set of metric headers', () => {
+    const snapshot = new MetricsCollector().snapshot();
+    
+    const text = formatPrometheus([
+      { labels: { session: 'call-1' }, snapshot },
+      { labels: { session: 'call-"2"' }, snapshot }
+    ], 'agent');
+    
+    expect(text.match(/# TYPE agent_turns_total counter/g)).toHaveLength(1);
+    expect(text).toContain('agent_turns_total{session="call-1",outcome="errored"} 0');
+    expect(text).toContain('agent_turns_total{session="call-\\"2\\"",outcome="errored"} 0');
+  });
+});
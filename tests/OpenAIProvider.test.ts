@@ -0,0 +1,156 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { OpenAIProvider, ResponseGenerator, TranscriptAnalyzer } from '../src';
+
+interface ReceivedRequest {
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+/**
+ * Minimal OpenAI-compatible server, standing in for Ollama or llama.cpp
+ */
+function startStubServer(): Promise<{ baseUrl: string; requests: ReceivedRequest[]; close: () => Promise<void> }> {
+  const requests: ReceivedRequest[] = [];
+  
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => raw += chunk);
+    req.on('end', () => {
+      const body = JSON.parse(raw);
+      requests.push({ url: req.url, headers: req.headers, body });
+      
+      if (req.url !== '/v1/chat/completions') {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: { message: 'Not found' } }));
+        return;
+      }
+      
+      const reply = body.response_format
+        ? JSON.stringify({ shouldRespond: true, confidence: 0.6, reason: 'Local model says so' })
+        : 'Hello from the local model.';
+      
+      if (body.stream) {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        for (const word of reply.split(/(?<= )/)) {
+          res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: word } }] })}\n\n`);
+        }
+        if (body.stream_options?.include_usage) {
+          res.write(`data: ${JSON.stringify({ model: body.model, choices: [], usage: { prompt_tokens: 9, completion_tokens: 6, total_tokens: 15 } })}\n\n`);
+        }
+        res.end('data: [DONE]\n\n');
+        return;
+      }
+      
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        model: body.model,
+        choices: [{ message: { role: 'assistant', content: reply } }],
+        usage: { prompt_tokens: 12, completion_tokens: 5, total_tokens: 17 }
+      }));
+    });
+  });
+  
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        baseUrl: `http://127.0.0.1:${port}/v1`,
+        requests,
+        close: () => new Promise(done => server.close(() => done()))
+      });
+    });
+  });
+}
+
+describe('OpenAI-compatible servers', () => {
+  let stub: Awaited<ReturnType<typeof startStubServer>>;
+  
+  beforeEach(async () => {
+    stub = await startStubServer();
+  });
+  
+  afterEach(async () => {
+    await stub.close();
+  });
+  
+  test('should generate without an API key and send custom headers', async () => {
+    const generator = new ResponseGenerator({
+      provider: 'openai-compatible',
+      baseUrl: stub.baseUrl,
+      headers: { 'X-Tenant': 'acme' },
+      model: 'llama3'
+    });
+    
+    expect(await generator.generate('Hi', [])).toBe('Hello from the local model.');
+    expect(stub.requests[0].url).toBe('/v1/chat/completions');
+    expect(stub.requests[0].headers['x-tenant']).toBe('acme');
+    expect(stub.requests[0].headers.authorization).toBeUndefined();
+    expect(stub.requests[0].body.model).toBe('llama3');
+  });
+  
+  test('should stream from the local server', async () => {
+    const generator = new ResponseGenerator({ provider: 'openai-compatible', baseUrl: `${stub.baseUrl}/` });
+    
+    const deltas: string[] = [];
+    for await (const delta of generator.generateStream('Hi', [])) deltas.push(delta);
+    
+    expect(deltas.join('')).toBe('Hello from the local model.');
+    expect(deltas.length).toBeGreaterThan(1);
+  });
+  
+  test('should analyze with the local server in JSON mode', async () => {
+    const analyzer = new TranscriptAnalyzer({ provider: 'openai-compatible', baseUrl: stub.baseUrl, maxSilenceMs: 1 });
+    
+    const result = await analyzer.analyze('I was thinking about the plan for tomorrow', {
+      transcript: 'I was thinking about the plan for tomorrow',
+      previousTranscript: '',
+      silenceDuration: 3000,
+      conversationHistory: []
+    });
+    
+    expect(result).toEqual({ shouldRespond: true, confidence: 0.6, reason: 'Local model says so' });
+  });
+  
+  test('should send the API key when one is configured', async () => {
+    const provider = new OpenAIProvider({ baseUrl: stub.baseUrl, apiKey: 'local-key' }, 'vLLM');
+    
+    await provider.chat({ messages: [{ role: 'user', content: 'Hi' }] });
+    
+    expect(stub.requests[0].headers.authorization).toBe('Bearer local-key');
+  });
+  
+  test('should report token usage for chat and streams', async () => {
+    const provider = new OpenAIProvider({ baseUrl: stub.baseUrl });
+    const reported: any[] = [];
+    
+    const response = await provider.chat({ model: 'llama3', messages: [{ role: 'user', content: 'Hi' }] }, {
+      onUsage: usage => reported.push(usage)
+    });
+    for await (const _delta of provider.stream({ model: 'llama3', messages: [{ role: 'user', content: 'Hi' }] }, {
+      onUsage: usage => reported.push(usage)
+    })) {
+      // Drain the stream
+    }
+    
+    expect(response.usage).toEqual({ provider: 'OpenAI', model: 'llama3', promptTokens: 12, completionTokens: 5, totalTokens: 17 });
+    expect(reported).toEqual([
+      response.usage,
+      { provider: 'OpenAI', model: 'llama3', promptTokens: 9, completionTokens: 6, totalTokens: 15 }
+    ]);
+  });
+  
+  test('should report errors from the local server', async () => {
+    const provider = new OpenAIProvider({ baseUrl: `${stub.baseUrl}/missing` }, 'Ollama');
+    
+    await expect(provider.chat({ messages: [{ role: 'user', content: 'Hi' }] }))
+      .rejects.toMatchObject({ code: 'invalid_request', status: 404, message: 'Ollama API error: Not found' });
+  });
+  
+  test('should require a base URL', async () => {
+    const generator = new ResponseGenerator({ provider: 'openai-compatible' });
+    
+    await expect(generator.generate('Hi', [])).rejects.toThrow('requires baseUrl');
+  });
+});
@@ -0,0 +1,165 @@
+import {
+  BasicTracer,
+  InMemorySpanExporter,
+  ProviderChain,
+  ProviderError,
+  ResponseGenerator,
+  TranscriptAnalyzer,
+  TranscriptMonitor,
+  SimpleStorage,
+  LLMProvider,
+  ChatRequest,
+  CircuitStateChange,
+  VirtualClock
+} from '../src';
+
+const fakeProvider = (name: string, reply: () => string, requests: ChatRequest[] = []): LLMProvider => ({
+  name,
+  capabilities: { json: true, streaming: false, tools: false },
+  chat: async (request) => {
+    requests.push(request);
+    return { content: reply(), toolCalls: [] };
+  }
+});
+
+const failing = (name: string) => fakeProvider(name, () => {
+  throw new ProviderError(`${name} API error: Service Unavailable`, { provider: name, code: 'server', status: 503 });
+});
+
+const request: ChatRequest = { messages: [{ role: 'user', content: 'Hi' }] };
+
+describe('ProviderChain', () => {
+  test('should fall through to the next provider and use its model', async () => {
+    const requests: ChatRequest[] = [];
+    const chain = new ProviderChain([
+      { provider: failing('Primary'), model: 'big' },
+      { provider: fakeProvider('Backup', () => 'From backup', requests), model: 'small' }
+    ]);
+    
+    const response = await chain.chat({ ...request, model: 'ignored' });
+    
+    expect(response.content).toBe('From backup');
+    expect(requests[0].model).toBe('small');
+  });
+  
+  test('should skip providers whose breaker is open and report state changes', async () => {
+    const primary = failing('Primary');
+    const primaryChat = jest.spyOn(primary, 'chat');
+    const chain = new ProviderChain(
+      [{ provider: primary }, { provider: fakeProvider('Backup', () => 'ok') }],
+      { minimumRequests: 2, cooldownMs: 60000 }
+    );
+    const changes: CircuitStateChange[] = [];
+    
+    for (let i = 0; i < 4; i++) {
+      await chain.chat(request, { onCircuitStateChange: change => changes.push(change) });
+    }
+    
+    expect(primaryChat).toHaveBeenCalledTimes(2);
+    expect(changes).toEqual([{ provider: 'Primary', model: undefined, from: 'closed', to: 'open' }]);
+    expect(chain.getStates().map(entry => entry.state)).toEqual(['open', 'closed']);
+  });
+  
+  test('should not open the breaker on errors the caller caused', async () => {
+    const primary = fakeProvider('Primary', () => {
+      throw new ProviderError('Primary API error: Invalid model', { provider: 'Primary', code: 'invalid_request', status: 400 });
+    });
+    const chain = new ProviderChain(
+      [{ provider: primary }, { provider: fakeProvider('Backup', () => 'ok') }],
+      { minimumRequests: 1 }
+    );
+    
+    expect((await chain.chat(request)).content).toBe('ok');
+    expect((await chain.chat(request)).content).toBe('ok');
+    expect(chain.getStates().map(entry => entry.state)).toEqual(['closed', 'closed']);
+  });
+  
+  test('should time breaker cooldowns on the generator clock', async () => {
+    const clock = new VirtualClock();
+    const primary = failing('Primary');
+    const primaryChat = jest.spyOn(primary, 'chat');
+    const generator = new ResponseGenerator({
+      providers: [{ provider: primary }, { provider: fakeProvider('Backup', () => 'ok') }],
+      circuitBreaker: { minimumRequests: 1, cooldownMs: 60000 },
+      clock
+    });
+    
+    await generator.generate('Hello', []);
+    await generator.generate('Hello', []);
+    expect(primaryChat).toHaveBeenCalledTimes(1);
+    
+    await clock.advance(60000);
+    await generator.generate('Hello', []);
+    expect(primaryChat).toHaveBeenCalledTimes(2);
+  });
+  
+  test('should throw the last error when every provider fails', async () => {
+    const chain = new ProviderChain([{ provider: failing('Primary') }, { provider: failing('Backup') }]);
+    
+    await expect(chain.chat(request)).rejects.toThrow('Backup API error: Service Unavailable');
+  });
+  
+  test('should report unavailable when every breaker is open', async () => {
+    const chain = new ProviderChain([{ provider: failing('Primary') }], { minimumRequests: 1 });
+    await chain.chat(request).catch(() => undefined);
+    
+    await expect(chain.chat(request)).rejects.toMatchObject({ code: 'unavailable' });
+  });
+  
+  test('should fall back to rule-based analysis when the chain fails', async () => {
+    const analyzer = new TranscriptAnalyzer({
+      providers: [{ provider: failing('Primary') }, { provider: failing('Backup') }],
+      maxSilenceMs: 1
+    });
+    
+    const result = await analyzer.analyze('I have finished describing the problem now.', {
+      transcript: 'I have finished describing the problem now.',
+      previousTranscript: '',
+      silenceDuration: 3000,
+      conversationHistory: []
+    });
+    
+    expect(result.reason).toBe('Complete statement');
+  });
+  
+  test('should return the canned response when every generator provider fails', async () => {
+    const exporter = new InMemorySpanExporter();
+    const span = new BasicTracer(exporter).startSpan('generation');
+    const generator = new ResponseGenerator({
+      providers: [{ provider: failing('Primary') }],
+      fallbackResponse: 'Sorry, I cannot answer right now.'
+    });
+    
+    expect(await generator.generate('Hello', [], { span })).toBe('Sorry, I cannot answer right now.');
+    span.end();
+    expect(exporter.getFinishedSpans()[0]).toMatchObject({
+      attributes: { 'generation.fallback': true },
+      events: [{ name: 'exception', attributes: { 'exception.message': 'Primary API error: Service Unavailable' } }]
+    });
+  });
+  
+  test('should emit circuitStateChanged from the monitor', async () => {
+    const monitor = new TranscriptMonitor({
+      storage: new SimpleStorage(),
+      analyzer: {
+        customAnalyzer: async () => ({ shouldRespond: true, confidence: 0.8, reason: 'Test analysis' })
+      },
+      generator: {
+        providers: [{ provider: failing('Primary') }, { provider: fakeProvider('Backup', () => 'Backup reply') }],
+        circuitBreaker: { minimumRequests: 1 }
+      },
+      debounceMs: 20
+    });
+    
+    const changes: any[] = [];
+    monitor.on('circuitStateChanged', change => changes.push(change));
+    
+    const response = new Promise(resolve => monitor.once('responseGenerated', resolve));
+    await monitor.updateTranscript('Can you tell me about the weather?');
+    
+    expect(await response).toBe('Backup reply');
+    expect(changes).toEqual([{ provider: 'Primary', model: undefined, from: 'closed', to: 'open', stage: 'generation' }]);
+    
+    monitor.stop();
+  });
+});
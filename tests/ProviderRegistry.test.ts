@@ -0,0 +1,165 @@
+import {
+  BasicTracer,
+  InMemorySpanExporter,
+  ProviderRegistry,
+  ProviderError,
+  OpenAIProvider,
+  AnthropicProvider,
+  ResponseGenerator,
+  TranscriptAnalyzer,
+  LLMProvider,
+  ChatRequest,
+  VirtualClock
+} from '../src';
+
+const echoProvider = (requests: ChatRequest[] = []): LLMProvider => ({
+  name: 'Echo',
+  capabilities: { json: true, streaming: false, tools: false },
+  chat: async (request) => {
+    requests.push(request);
+    const last = request.messages[request.messages.length - 1];
+    return {
+      content: request.json
+        ? JSON.stringify({ shouldRespond: true, confidence: 0.7, reason: 'Echo says so' })
+        : `Echo: ${last.content}`,
+      toolCalls: []
+    };
+  }
+});
+
+describe('ProviderRegistry', () => {
+  test('should register the built-in providers', () => {
+    const registry = new ProviderRegistry();
+    
+    expect(registry.list()).toEqual(['openai', 'anthropic', 'openai-compatible']);
+    expect(registry.create('openai', { apiKey: 'key' })).toBeInstanceOf(OpenAIProvider);
+    expect(registry.create('anthropic', { apiKey: 'key' })).toBeInstanceOf(AnthropicProvider);
+    expect(registry.create('openai')).toBeUndefined();
+  });
+  
+  test('should reject unknown and reserved names', () => {
+    const registry = new ProviderRegistry();
+    
+    expect(() => registry.create('missing')).toThrow('Unknown provider: missing');
+    expect(() => registry.register('custom', () => echoProvider())).toThrow('reserved');
+  });
+  
+  test('should let the generator use a registered provider', async () => {
+    const registry = new ProviderRegistry();
+    const requests: ChatRequest[] = [];
+    registry.register('echo', () => echoProvider(requests), { requiresApiKey: false });
+    
+    const generator = new ResponseGenerator({ provider: 'echo', registry, systemPrompt: 'Be brief.' });
+    
+    expect(await generator.generate('Hello', [])).toBe('Echo: Hello');
+    expect(requests[0].system).toBe('Be brief.');
+    expect(requests[0].model).toBeUndefined();
+  });
+  
+  test('should let the analyzer use a provider instance in JSON mode', async () => {
+    const requests: ChatRequest[] = [];
+    const analyzer = new TranscriptAnalyzer({ provider: echoProvider(requests), minWords: 1, maxSilenceMs: 1 });
+    
+    const result = await analyzer.analyze('I think that covers everything for now', {
+      transcript: 'I think that covers everything for now',
+      previousTranscript: '',
+      silenceDuration: 3000,
+      conversationHistory: []
+    });
+    
+    expect(result).toEqual({ shouldRespond: true, confidence: 0.7, reason: 'Echo says so' });
+    expect(requests[0].json).toBe(true);
+  });
+  
+  test('should record an unknown analysis provider on the span and fall back to rules', async () => {
+    const exporter = new InMemorySpanExporter();
+    const span = new BasicTracer(exporter).startSpan('analysis');
+    const analyzer = new TranscriptAnalyzer({ provider: 'missing', apiKey: 'key', maxSilenceMs: 1 });
+    
+    const result = await analyzer.analyze('I finished the quarterly report today.', {
+      transcript: 'I finished the quarterly report today.',
+      previousTranscript: '',
+      silenceDuration: 3000,
+      conversationHistory: []
+    }, { span });
+    span.end();
+    
+    expect(result).toMatchObject({ shouldRespond: true, reason: 'Complete statement' });
+    expect(exporter.getFinishedSpans()[0]).toMatchObject({
+      attributes: { 'analysis.method': 'rules', 'analysis.fallback': true },
+      events: [{ name: 'exception', attributes: { 'exception.message': 'Unknown provider: missing' } }]
+    });
+  });
+});
+
+describe('ProviderError', () => {
+  const originalFetch = global.fetch;
+  
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+  
+  test('should normalize rate limit responses', async () => {
+    global.fetch = jest.fn().mockResolvedValue(new Response(
+      JSON.stringify({ error: { message: 'Rate limit reached' } }),
+      { status: 429, headers: { 'retry-after': '2' } }
+    ));
+    
+    const provider = new OpenAIProvider({ apiKey: 'key' });
+    const error = await provider.chat({ messages: [{ role: 'user', content: 'Hi' }] }).catch(e => e);
+    
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error).toMatchObject({
+      provider: 'OpenAI',
+      code: 'rate_limit',
+      status: 429,
+      retryable: true,
+      retryAfterMs: 2000,
+      message: 'OpenAI API error: Rate limit reached'
+    });
+  });
+  
+  test('should resolve a Retry-After date against the provider clock', async () => {
+    const clock = new VirtualClock(Date.parse('2024-01-01T09:00:00Z'));
+    global.fetch = jest.fn().mockResolvedValue(new Response('', {
+      status: 503,
+      headers: { 'retry-after': 'Mon, 01 Jan 2024 09:00:05 GMT' }
+    }));
+    
+    const error = await new OpenAIProvider({ apiKey: 'key', clock })
+      .chat({ messages: [{ role: 'user', content: 'Hi' }] })
+      .catch(e => e);
+    
+    expect(error).toMatchObject({ code: 'server', retryAfterMs: 5000 });
+  });
+  
+  test('should classify malformed stream events as invalid responses', async () => {
+    for (const provider of [new OpenAIProvider({ apiKey: 'key' }), new AnthropicProvider({ apiKey: 'key' })]) {
+      global.fetch = jest.fn().mockResolvedValue(new Response('data: {"choices": [\n\n', {
+        headers: { 'Content-Type': 'text/event-stream' }
+      }));
+      
+      const stream = provider.stream({ messages: [{ role: 'user', content: 'Hi' }] });
+      const error = await stream.next().catch(e => e);
+      
+      expect(error).toBeInstanceOf(ProviderError);
+      expect(error).toMatchObject({ provider: provider.name, code: 'invalid_response', retryable: false });
+    }
+  });
+  
+  test('should treat auth failures as fatal and connection failures as retryable', async () => {
+    global.fetch = jest.fn().mockResolvedValue(new Response('', { status: 401, statusText: 'Unauthorized' }));
+    const auth = await new AnthropicProvider({ apiKey: 'bad' })
+      .chat({ messages: [{ role: 'user', content: 'Hi' }] })
+      .catch(e => e);
+    
+    expect(auth).toMatchObject({ code: 'auth', retryable: false, message: 'Anthropic API error: Unauthorized' });
+    
+    global.fetch = jest.fn().mockRejectedValue(new TypeError('fetch failed'));
+    const network = await new AnthropicProvider({ apiKey: 'key' })
+      .chat({ messages: [{ role: 'user', content: 'Hi' }] })
+      .catch(e => e);
+    
+    expect(network).toMatchObject({ code: 'network', retryable: true });
+  });
+});
@@ -0,0 +1,52 @@
+import { QuestionClassifier, LANGUAGE_PACKS } from '../src';
+
+describe('QuestionClassifier', () => {
+  const classifier = new QuestionClassifier();
+  
+  test('should recognize unpunctuated questions', () => {
+    expect(classifier.classify('what time does the standup start')).toEqual({
+      isQuestion: true,
+      confidence: 0.8,
+      kind: 'question',
+      cues: ['wh-opener']
+    });
+    expect(classifier.classify('so can you move the meeting to friday')).toMatchObject({ isQuestion: true, cues: ['inversion'] });
+    expect(classifier.classify('the build is green, right')).toMatchObject({ isQuestion: true, confidence: 0.7, cues: ['tag-question'] });
+    expect(classifier.classify("it's cold in here isn't it")).toMatchObject({ isQuestion: true, cues: ['tag-question'] });
+    expect(classifier.classify('What time is it?')).toMatchObject({ confidence: 0.9, cues: ['question-mark', 'wh-opener'] });
+  });
+  
+  test('should recognize requests phrased as statements', () => {
+    expect(classifier.classify('tell me about the roadmap')).toMatchObject({ isQuestion: true, confidence: 0.65, kind: 'request' });
+    expect(classifier.classify('please remind me to call Sam')).toMatchObject({ kind: 'request' });
+    expect(classifier.classify('Tell me about the roadmap.')).toMatchObject({ isQuestion: true, kind: 'request' });
+    expect(classifier.classify('Explain how billing works.')).toMatchObject({ isQuestion: true, kind: 'request' });
+    expect(classifier.classify('I need help with my invoice')).toMatchObject({ isQuestion: true, kind: 'request' });
+    expect(classifier.classify("I'd like to know when the report is due.")).toMatchObject({ isQuestion: true, kind: 'request' });
+    expect(new QuestionClassifier({ requestPhrases: ['book'] }).classify('book a table for two')).toMatchObject({ kind: 'request' });
+  });
+  
+  test('should not mistake statements for questions', () => {
+    expect(classifier.classify('the meeting starts at noon')).toEqual({ isQuestion: false, confidence: 0, cues: [] });
+    expect(classifier.classify('what a great idea').isQuestion).toBe(false);
+    expect(classifier.classify('Can you believe it.').isQuestion).toBe(false);
+    expect(classifier.classify('what you said was right')).toMatchObject({ isQuestion: false, cues: ['wh-clause'] });
+    expect(classifier.classify('I need to leave early today.').isQuestion).toBe(false);
+    expect(classifier.classify('i need to finish this report').isQuestion).toBe(false);
+    expect(classifier.classify('I would like to thank everyone').isQuestion).toBe(false);
+  });
+  
+  test('should wait for a question that ends mid-sentence', () => {
+    expect(classifier.classify('can you tell me about the')).toMatchObject({
+      isQuestion: false,
+      confidence: 0.4,
+      cues: ['inversion', 'trailing-word']
+    });
+  });
+  
+  test('should use the language pack for other languages', () => {
+    expect(classifier.classify('dónde está la sala', LANGUAGE_PACKS.es)).toMatchObject({ isQuestion: true, cues: ['question-word'] });
+    expect(classifier.classify('会議は何時からですか', LANGUAGE_PACKS.ja)).toMatchObject({ isQuestion: true, cues: ['question-particle'] });
+    expect(new QuestionClassifier({ minConfidence: 0.8 }).classify('dónde está la sala', LANGUAGE_PACKS.es).isQuestion).toBe(false);
+  });
+});
@@ -0,0 +1,101 @@
+import { RateLimiter, ResponseGenerator, LLMProvider } from '../src';
+import { createAbortError } from '../src/utils';
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+  
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+  
+  test('should hold requests beyond the per-minute limit until the bucket refills', async () => {
+    const limiter = new RateLimiter({ default: { requestsPerMinute: 2 } });
+    const started: number[] = [];
+    
+    for (let i = 0; i < 3; i++) {
+      limiter.acquire('openai', 'gpt-4o').then(() => started.push(i));
+    }
+    await Promise.resolve();
+    
+    expect(started).toEqual([0, 1]);
+    expect(limiter.getStats()[0]).toMatchObject({ key: 'openai:gpt-4o', queued: 1, availableRequests: 0 });
+    
+    await jest.advanceTimersByTimeAsync(30000);
+    expect(started).toEqual([0, 1, 2]);
+  });
+  
+  test('should serve generation before analysis', async () => {
+    const limiter = new RateLimiter({ default: { maxConcurrent: 1 } });
+    const order: string[] = [];
+    
+    const release = await limiter.acquire('openai', 'gpt-4o');
+    limiter.acquire('openai', 'gpt-4o', { priority: 'analysis' }).then(done => { order.push('analysis'); done(); });
+    limiter.acquire('openai', 'gpt-4o', { priority: 'background' }).then(done => { order.push('background'); done(); });
+    limiter.acquire('openai', 'gpt-4o', { priority: 'generation' }).then(done => { order.push('generation'); done(); });
+    
+    expect(limiter.getStats()[0].queuedByPriority).toEqual({ generation: 1, analysis: 1, background: 1 });
+    
+    release();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(order).toEqual(['generation', 'analysis', 'background']);
+  });
+  
+  test('should limit tokens per minute using the most specific limit', async () => {
+    const limiter = new RateLimiter({
+      default: { requestsPerMinute: 1 },
+      limits: { 'OpenAI': { tokensPerMinute: 1000 }, 'openai:gpt-4o-mini': { tokensPerMinute: 6000 } }
+    });
+    let started = 0;
+    
+    limiter.acquire('OpenAI', 'gpt-4o', { tokens: 800 }).then(() => started++);
+    limiter.acquire('OpenAI', 'gpt-4o', { tokens: 800 }).then(() => started++);
+    await Promise.resolve();
+    expect(started).toBe(1);
+    
+    // 600 of the missing tokens come back after 36 seconds
+    await jest.advanceTimersByTimeAsync(35000);
+    expect(started).toBe(1);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(started).toBe(2);
+    
+    limiter.acquire('openai', 'gpt-4o-mini', { tokens: 5000 }).then(() => started++);
+    await Promise.resolve();
+    expect(started).toBe(3);
+  });
+  
+  test('should remove aborted requests from the queue', async () => {
+    const limiter = new RateLimiter({ default: { maxConcurrent: 1 } });
+    await limiter.acquire('anthropic');
+    
+    const controller = new AbortController();
+    const waiting = limiter.acquire('anthropic', undefined, { signal: controller.signal });
+    controller.abort(createAbortError('User started speaking'));
+    
+    await expect(waiting).rejects.toThrow('User started speaking');
+    expect(limiter.getStats()[0].queued).toBe(0);
+  });
+  
+  test('should be shared by generators using the same provider', async () => {
+    const limiter = new RateLimiter({ default: { requestsPerMinute: 1 } });
+    const provider: LLMProvider = {
+      name: 'Echo',
+      capabilities: { json: false, streaming: false, tools: false },
+      chat: async () => ({ content: 'ok', toolCalls: [] })
+    };
+    const first = new ResponseGenerator({ provider, rateLimiter: limiter });
+    const second = new ResponseGenerator({ provider, rateLimiter: limiter });
+    
+    expect(await first.generate('Hi', [])).toBe('ok');
+    
+    let done = false;
+    second.generate('Hi', []).then(() => done = true);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(done).toBe(false);
+    expect(limiter.getStats()[0]).toMatchObject({ key: 'echo', queued: 1 });
+    
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(done).toBe(true);
+  });
+});
@@ -36,4 +36,201 @@ describe('ResponseGenerator', () => {
     
     await expect(generator.generate('Hello', [])).rejects.toThrow('API key required');
   });
-});
\ No newline at end of file
+});
+describe('ResponseGenerator streaming', () => {
+  const originalFetch = global.fetch;
+  
+  const sseResponse = (...events: string[]) =>
+    new Response(events.map(event => `data: ${event}\n\n`).join(''), { status: 200 });
+  
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+  
+  const collect = async (stream: AsyncIterable<string>) => {
+    const deltas: string[] = [];
+    for await (const delta of stream) deltas.push(delta);
+    return deltas;
+  };
+  
+  test('should stream OpenAI deltas', async () => {
+    global.fetch = jest.fn().mockResolvedValue(sseResponse(
+      JSON.stringify({ choices: [{ delta: { role: 'assistant' } }] }),
+      JSON.stringify({ choices: [{ delta: { content: 'Hello' } }] }),
+      JSON.stringify({ choices: [{ delta: { content: ' there' } }] }),
+      '[DONE]'
+    ));
+    
+    const generator = new ResponseGenerator({ provider: 'openai', apiKey: 'test-key' });
+    
+    expect(await collect(generator.generateStream('Hi', []))).toEqual(['Hello', ' there']);
+    expect(JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body).stream).toBe(true);
+  });
+  
+  test('should stream Anthropic text deltas', async () => {
+    global.fetch = jest.fn().mockResolvedValue(sseResponse(
+      JSON.stringify({ type: 'message_start', message: {} }),
+      JSON.stringify({ type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hi' } }),
+      JSON.stringify({ type: 'content_block_delta', delta: { type: 'text_delta', text: '!' } }),
+      JSON.stringify({ type: 'message_stop' })
+    ));
+    
+    const generator = new ResponseGenerator({ provider: 'anthropic', apiKey: 'test-key' });
+    
+    expect(await collect(generator.generateStream('Hi', []))).toEqual(['Hi', '!']);
+  });
+  
+  test('should yield a custom generator result as one delta', async () => {
+    const generator = new ResponseGenerator({
+      customGenerator: async (transcript) => `Echo: ${transcript}`
+    });
+    
+    expect(await collect(generator.generateStream('Hello', []))).toEqual(['Echo: Hello']);
+  });
+});
+
+describe('ResponseGenerator tools', () => {
+  const originalFetch = global.fetch;
+  
+  const jsonResponse = (body: any) => new Response(JSON.stringify(body), { status: 200 });
+  
+  const weatherTool = {
+    name: 'get_weather',
+    description: 'Gets the current weather for a city',
+    parameters: {
+      type: 'object',
+      properties: { city: { type: 'string' } },
+      required: ['city']
+    },
+    handler: jest.fn(async ({ city }: Record<string, any>) => ({ city, forecast: 'sunny' }))
+  };
+  
+  afterEach(() => {
+    global.fetch = originalFetch;
+    weatherTool.handler.mockClear();
+  });
+  
+  test('should run OpenAI tool calls and send results back', async () => {
+    const fetchMock = jest.fn()
+      .mockResolvedValueOnce(jsonResponse({
+        choices: [{
+          message: {
+            role: 'assistant',
+            content: null,
+            tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }]
+          }
+        }]
+      }))
+      .mockResolvedValueOnce(jsonResponse({
+        choices: [{ message: { role: 'assistant', content: 'It is sunny in Paris.' } }]
+      }));
+    global.fetch = fetchMock;
+    
+    const generator = new ResponseGenerator({ provider: 'openai', apiKey: 'test-key', tools: [weatherTool] });
+    const calls: any[] = [];
+    const results: any[] = [];
+    
+    const response = await generator.generate('What is the weather in Paris?', [], {
+      onToolCall: call => calls.push(call),
+      onToolResult: result => results.push(result)
+    });
+    
+    expect(response).toBe('It is sunny in Paris.');
+    expect(weatherTool.handler).toHaveBeenCalledWith({ city: 'Paris' }, expect.any(Object));
+    expect(calls).toEqual([{ id: 'call_1', name: 'get_weather', arguments: { city: 'Paris' } }]);
+    expect(results[0]).toMatchObject({ callId: 'call_1', content: '{"city":"Paris","forecast":"sunny"}' });
+    
+    const firstBody = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(firstBody.tools[0]).toMatchObject({ type: 'function', function: { name: 'get_weather' } });
+    
+    const secondBody = JSON.parse(fetchMock.mock.calls[1][1].body);
+    expect(secondBody.messages.slice(-1)[0]).toEqual({
+      role: 'tool',
+      tool_call_id: 'call_1',
+      content: '{"city":"Paris","forecast":"sunny"}'
+    });
+  });
+  
+  test('should run Anthropic tool_use blocks and send tool_result blocks back', async () => {
+    const fetchMock = jest.fn()
+      .mockResolvedValueOnce(jsonResponse({
+        content: [
+          { type: 'text', text: 'Let me check.' },
+          { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Oslo' } }
+        ],
+        stop_reason: 'tool_use'
+      }))
+      .mockResolvedValueOnce(jsonResponse({
+        content: [{ type: 'text', text: 'Sunny in Oslo.' }],
+        stop_reason: 'end_turn'
+      }));
+    global.fetch = fetchMock;
+    
+    const generator = new ResponseGenerator({ provider: 'anthropic', apiKey: 'test-key' });
+    generator.registerTool(weatherTool);
+    
+    const response = await generator.generate('Weather in Oslo?', []);
+    
+    expect(response).toBe('Sunny in Oslo.');
+    
+    const firstBody = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(firstBody.tools[0]).toMatchObject({ name: 'get_weather', input_schema: weatherTool.parameters });
+    
+    const secondBody = JSON.parse(fetchMock.mock.calls[1][1].body);
+    expect(secondBody.messages.slice(-1)[0]).toEqual({
+      role: 'user',
+      content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: '{"city":"Oslo","forecast":"sunny"}' }]
+    });
+  });
+  
+  test('should report handler errors to the model', async () => {
+    const fetchMock = jest.fn()
+      .mockResolvedValueOnce(jsonResponse({
+        content: [{ type: 'tool_use', id: 'toolu_1', name: 'broken', input: {} }]
+      }))
+      .mockResolvedValueOnce(jsonResponse({ content: [{ type: 'text', text: 'Sorry, that failed.' }] }));
+    global.fetch = fetchMock;
+    
+    const generator = new ResponseGenerator({
+      provider: 'anthropic',
+      apiKey: 'test-key',
+      tools: [{
+        name: 'broken',
+        description: 'Always fails',
+        parameters: { type: 'object', properties: {} },
+        handler: () => { throw new Error('Service unavailable'); }
+      }]
+    });
+    
+    const response = await generator.generate('Try it', []);
+    
+    expect(response).toBe('Sorry, that failed.');
+    const secondBody = JSON.parse(fetchMock.mock.calls[1][1].body);
+    expect(secondBody.messages.slice(-1)[0].content[0]).toMatchObject({
+      content: 'Error: Service unavailable',
+      is_error: true
+    });
+  });
+  
+  test('should stop after the tool iteration limit', async () => {
+    global.fetch = jest.fn().mockImplementation(async () => jsonResponse({
+      choices: [{
+        message: {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Rome"}' } }]
+        }
+      }]
+    }));
+    
+    const generator = new ResponseGenerator({
+      provider: 'openai',
+      apiKey: 'test-key',
+      tools: [weatherTool],
+      maxToolIterations: 2
+    });
+    
+    await expect(generator.generate('Loop forever', [])).rejects.toThrow('Tool call limit reached after 2 iterations');
+    expect(weatherTool.handler).toHaveBeenCalledTimes(2);
+  });
+});
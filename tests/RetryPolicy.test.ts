@@ -0,0 +1,95 @@
+import { RetryPolicy, RetryAttempt, ProviderError, VirtualClock, isRetryableError } from '../src';
+import { createAbortError } from '../src/utils';
+
+const serverError = (retryAfterMs?: number) =>
+  new ProviderError('OpenAI API error: Service Unavailable', { provider: 'OpenAI', code: 'server', status: 503, retryAfterMs });
+
+describe('RetryPolicy', () => {
+  test('should back off exponentially with full jitter', () => {
+    const policy = new RetryPolicy({ baseDelayMs: 100, maxDelayMs: 350, random: () => 0.5 });
+    
+    expect(policy.getDelay(1)).toBe(50);
+    expect(policy.getDelay(2)).toBe(100);
+    expect(policy.getDelay(3)).toBe(175);
+    expect(new RetryPolicy({ baseDelayMs: 100, jitter: 'none' }).getDelay(3)).toBe(400);
+  });
+  
+  test('should wait as long as Retry-After asks', () => {
+    const policy = new RetryPolicy({ baseDelayMs: 100 });
+    
+    expect(policy.getDelay(1, serverError(2500))).toBe(2500);
+  });
+  
+  test('should retry retryable errors and report every attempt', async () => {
+    const policy = new RetryPolicy({ maxAttempts: 3, baseDelayMs: 1, jitter: 'none' });
+    const attempts: RetryAttempt[] = [];
+    const fn = jest.fn()
+      .mockRejectedValueOnce(serverError())
+      .mockRejectedValueOnce(new Error('Socket closed'))
+      .mockResolvedValueOnce('ok');
+    
+    expect(await policy.execute(fn, { onAttempt: attempt => attempts.push(attempt) })).toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(attempts.map(({ attempt, willRetry, delayMs }) => ({ attempt, willRetry, delayMs }))).toEqual([
+      { attempt: 1, willRetry: true, delayMs: 1 },
+      { attempt: 2, willRetry: true, delayMs: 2 }
+    ]);
+  });
+  
+  test('should not retry fatal errors', async () => {
+    const policy = new RetryPolicy({ baseDelayMs: 1 });
+    const attempts: RetryAttempt[] = [];
+    const auth = new ProviderError('OpenAI API error: Unauthorized', { provider: 'OpenAI', code: 'auth', status: 401 });
+    const fn = jest.fn().mockRejectedValue(auth);
+    
+    await expect(policy.execute(fn, { onAttempt: attempt => attempts.push(attempt) })).rejects.toBe(auth);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(attempts[0]).toMatchObject({ attempt: 1, retryable: false, willRetry: false });
+  });
+  
+  test('should give up rather than wait past the elapsed-time cap', async () => {
+    const policy = new RetryPolicy({ maxAttempts: 5, maxElapsedMs: 1000 });
+    const fn = jest.fn().mockRejectedValue(serverError(5000));
+    
+    await expect(policy.execute(fn)).rejects.toThrow('Service Unavailable');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+  
+  test('should wait and cap elapsed time on the given clock', async () => {
+    const clock = new VirtualClock();
+    const policy = new RetryPolicy({ maxAttempts: 5, baseDelayMs: 10000, jitter: 'none', maxElapsedMs: 35000, clock });
+    const fn = jest.fn().mockRejectedValue(serverError());
+    
+    const result = policy.execute(fn);
+    result.catch(() => {});
+    await clock.advance(9999);
+    expect(fn).toHaveBeenCalledTimes(1);
+    
+    await clock.advance(1);
+    expect(fn).toHaveBeenCalledTimes(2);
+    
+    // The third wait of 40s would end past the 35s cap
+    await clock.advance(20000);
+    await expect(result).rejects.toThrow('Service Unavailable');
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+  
+  test('should stop waiting when aborted', async () => {
+    const policy = new RetryPolicy({ baseDelayMs: 10000, jitter: 'none', maxElapsedMs: 60000 });
+    const controller = new AbortController();
+    const fn = jest.fn().mockRejectedValue(serverError());
+    
+    const result = policy.execute(fn, { signal: controller.signal });
+    setTimeout(() => controller.abort(createAbortError('User started speaking')), 10);
+    
+    await expect(result).rejects.toThrow('User started speaking');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+  
+  test('should classify errors', () => {
+    expect(isRetryableError(serverError())).toBe(true);
+    expect(isRetryableError(new ProviderError('Bad request', { provider: 'OpenAI', code: 'invalid_request' }))).toBe(false);
+    expect(isRetryableError(createAbortError())).toBe(false);
+    expect(isRetryableError(new Error('Something else'))).toBe(true);
+  });
+});
@@ -0,0 +1,104 @@
+import { RuleEngine, RuleContext, RULE_PRESETS, LANGUAGE_PACKS, QuestionClassifier, isGreeting } from '../src';
+
+const classifier = new QuestionClassifier();
+
+function classifiedQuestion(text: string) {
+  const questionClassification = classifier.classify(text);
+  return { question: questionClassification.isQuestion, questionClassification };
+}
+
+const context = (text: string, overrides: Partial<RuleContext> = {}): RuleContext => ({
+  ...classifiedQuestion(text),
+  transcript: text,
+  previousTranscript: '',
+  silenceDuration: 3000,
+  conversationHistory: [],
+  text,
+  wordCount: text.split(/\s+/).length,
+  language: LANGUAGE_PACKS.en,
+  greeting: isGreeting(text, LANGUAGE_PACKS.en),
+  addressed: false,
+  isGroup: false,
+  complete: false,
+  ...overrides
+});
+
+describe('RuleEngine', () => {
+  test('should reproduce the built-in weights with the default preset', () => {
+    const engine = new RuleEngine();
+    
+    const result = engine.evaluate(context('Ava, what time is it?', { name: 'Ava', addressed: true, role: 'assistant', complete: true }));
+    expect(result.shouldRespond).toBe(true);
+    expect(result.confidence).toBe(0.95);
+    expect(result.reason).toBe('Directly addressed as Ava, question detected, complete statement');
+    expect(result.trace.map(entry => entry.fired)).toEqual([true, true, false, true, true]);
+    expect(result.trace[2]).toEqual({ id: 'greeting', fired: false, weight: 0, skipped: 'after question' });
+    
+    expect(engine.evaluate(context('the weather is nice'))).toMatchObject({
+      shouldRespond: false,
+      confidence: 0.1,
+      reason: 'Incomplete or unclear'
+    });
+  });
+  
+  test('should not respond to greetings meant for others in a group', () => {
+    const result = new RuleEngine('default').evaluate(context('Hello everyone, good morning', { isGroup: true }));
+    
+    expect(result.shouldRespond).toBe(false);
+    expect(result.confidence).toBeCloseTo(0.4);
+    expect(result.reason).toBe('Greeting detected in group conversation, not addressed');
+  });
+  
+  test('should respond only when addressed with the addressed-only preset', () => {
+    const engine = new RuleEngine('addressed-only');
+    
+    expect(engine.evaluate(context('What time is it?')).shouldRespond).toBe(false);
+    expect(engine.evaluate(context('Ava, what time is it?', { name: 'Ava', addressed: true })).shouldRespond).toBe(true);
+  });
+  
+  test('should match keywords as whole words and check silence and history conditions', () => {
+    const engine = new RuleEngine({
+      rules: [
+        { id: 'urgent', match: ['urgent', 'right now'], weight: 0.6, reason: 'Urgent request', respond: true, maxSilenceMs: 5000 },
+        { id: 'opening', weight: 0.2, reason: 'Conversation opening', maxHistory: 0 }
+      ],
+      respondThreshold: 0.5
+    });
+    
+    const urgent = engine.evaluate(context('I need this fixed RIGHT NOW.'));
+    expect(urgent).toMatchObject({ shouldRespond: true, reason: 'Urgent request, conversation opening' });
+    expect(urgent.confidence).toBeCloseTo(0.8);
+    
+    const history = [{ role: 'user' as const, content: 'Hi', timestamp: 1 }];
+    const later = engine.evaluate(context('The urgency is gone', { conversationHistory: history }));
+    expect(later.trace).toEqual([
+      { id: 'urgent', fired: false, weight: 0, skipped: 'no match' },
+      { id: 'opening', fired: false, weight: 0, skipped: 'more than 0 history messages' }
+    ]);
+    
+    const stale = engine.evaluate(context('This is urgent', { silenceDuration: 6000 }));
+    expect(stale.trace[0].skipped).toBe('silence over 5000ms');
+    expect(stale.shouldRespond).toBe(false);
+  });
+  
+  test('should respond once confidence reaches the threshold', () => {
+    const engine = new RuleEngine({
+      rules: [
+        { id: 'please', match: /\bplease\b/gi, weight: 0.3, reason: 'Polite request' },
+        { id: 'long', match: (_text, ctx) => ctx.wordCount > 5, weight: 0.3 }
+      ],
+      respondThreshold: 0.6
+    });
+    
+    expect(engine.evaluate(context('Please send the report to the team')).shouldRespond).toBe(true);
+    // A global regex must not keep its position between evaluations
+    expect(engine.evaluate(context('Please send the report to the team')).shouldRespond).toBe(true);
+    expect(engine.evaluate(context('Please send it')).shouldRespond).toBe(false);
+  });
+  
+  test('should reject unknown presets and duplicate rule IDs', () => {
+    expect(() => new RuleEngine('chatty' as any)).toThrow('Unknown rule preset: chatty');
+    expect(() => new RuleEngine({ rules: [...RULE_PRESETS.default.rules, { id: 'role', weight: 0 }] }))
+      .toThrow('Duplicate rule ID: role');
+  });
+});
@@ -0,0 +1,166 @@
+import { LLMProvider, ProviderError, RateLimiter, SessionManager, SimpleStorage, VirtualClock } from '../src';
+
+describe('SessionManager', () => {
+  let sessions: SessionManager;
+  let storage: SimpleStorage;
+  let generatorCalls: number;
+  
+  beforeEach(() => {
+    storage = new SimpleStorage();
+    generatorCalls = 0;
+    sessions = new SessionManager({
+      storage,
+      analyzer: {
+        customAnalyzer: async () => ({ shouldRespond: true, confidence: 0.8, reason: 'Test analysis' })
+      },
+      generator: {
+        customGenerator: async (transcript) => {
+          generatorCalls++;
+          return `Test response to: ${transcript}`;
+        }
+      },
+      debounceMs: 20
+    });
+  });
+  
+  afterEach(() => {
+    sessions.disposeAll();
+  });
+  
+  test('should create, look up and dispose sessions', async () => {
+    const created = jest.fn();
+    const disposed = jest.fn();
+    sessions.on('sessionCreated', created);
+    sessions.on('sessionDisposed', disposed);
+    
+    const monitor = await sessions.create('call-1');
+    
+    expect(sessions.get('call-1')).toBe(monitor);
+    expect(sessions.list()).toEqual(['call-1']);
+    await expect(sessions.create('call-1')).rejects.toThrow('Session already exists');
+    
+    expect(sessions.dispose('call-1')).toBe(true);
+    expect(sessions.dispose('call-1')).toBe(false);
+    expect(sessions.has('call-1')).toBe(false);
+    expect(created).toHaveBeenCalledWith('call-1');
+    expect(disposed).toHaveBeenCalledWith('call-1');
+  });
+  
+  test('should remove a session whose monitor fails to start', async () => {
+    jest.spyOn(storage, 'subscribe').mockImplementationOnce(() => {
+      throw new Error('Storage offline');
+    });
+    
+    const created = jest.fn();
+    sessions.on('sessionCreated', created);
+    
+    await expect(sessions.create('call-1')).rejects.toThrow('Storage offline');
+    expect(sessions.has('call-1')).toBe(false);
+    expect(created).not.toHaveBeenCalled();
+    
+    const monitor = await sessions.create('call-1');
+    expect(sessions.get('call-1')).toBe(monitor);
+  });
+  
+  test('should apply a per-session rate limiter to the session provider calls', async () => {
+    const provider: LLMProvider = {
+      name: 'Fake',
+      capabilities: { json: true, streaming: false, tools: false },
+      chat: async () => ({ content: 'Limited reply', toolCalls: [] })
+    };
+    const limited = new SessionManager({
+      analyzer: {
+        customAnalyzer: async () => ({ shouldRespond: true, confidence: 0.8, reason: 'Test analysis' })
+      },
+      generator: { provider },
+      debounceMs: 20
+    });
+    const rateLimiter = new RateLimiter();
+    const acquire = jest.spyOn(rateLimiter, 'acquire');
+    
+    const monitor = await limited.create('call-1', { rateLimiter });
+    const response = new Promise(resolve => monitor.once('responseGenerated', resolve));
+    await monitor.updateTranscript('What time does the store open?');
+    
+    expect(await response).toBe('Limited reply');
+    expect(acquire).toHaveBeenCalledWith('Fake', undefined, expect.objectContaining({ priority: 'generation' }));
+    limited.disposeAll();
+  });
+  
+  test('should namespace storage keys per session', async () => {
+    const first = await sessions.create('call-1');
+    const second = await sessions.create('call-2');
+    
+    await first.updateTranscript('Hello from the first call');
+    await second.updateTranscript('Hello from the second call');
+    
+    expect(await storage.get('call-1:transcript')).toBe('Hello from the first call');
+    expect(await storage.get('call-2:transcript')).toBe('Hello from the second call');
+  });
+  
+  test('should tag events with the session ID and keep histories separate', async () => {
+    const responses: [string, string][] = [];
+    sessions.on('responseGenerated', (sessionId, response) => responses.push([sessionId, response]));
+    
+    const first = await sessions.create('call-1');
+    const second = await sessions.create('call-2');
+    
+    const done = new Promise(resolve => {
+      sessions.on('responseGenerated', () => responses.length === 2 && resolve(undefined));
+    });
+    await first.updateTranscript('What time does the store open?');
+    await second.updateTranscript('Where is the nearest station?');
+    await done;
+    
+    expect(responses).toEqual(expect.arrayContaining([
+      ['call-1', 'Test response to: What time does the store open?'],
+      ['call-2', 'Test response to: Where is the nearest station?']
+    ]));
+    expect(first.getHistory()).toHaveLength(2);
+    expect(second.getHistory()).toHaveLength(2);
+    expect(first.getHistory()[0].content).toBe('What time does the store open?');
+  });
+  
+  test('should time the shared generator on the configured clock', async () => {
+    const clock = new VirtualClock();
+    const primaryCalls: number[] = [];
+    const primary: LLMProvider = {
+      name: 'Primary',
+      capabilities: { json: true, streaming: false, tools: false },
+      chat: async () => {
+        primaryCalls.push(clock.now());
+        throw new ProviderError('Primary API error: Service Unavailable', { provider: 'Primary', code: 'server', status: 503 });
+      }
+    };
+    const backup: LLMProvider = {
+      name: 'Backup',
+      capabilities: { json: true, streaming: false, tools: false },
+      chat: async () => ({ content: 'From backup', toolCalls: [] })
+    };
+    const clocked = new SessionManager({
+      clock,
+      analyzer: {
+        customAnalyzer: async () => ({ shouldRespond: true, confidence: 0.8, reason: 'Test analysis' })
+      },
+      generator: {
+        providers: [{ provider: primary }, { provider: backup }],
+        circuitBreaker: { minimumRequests: 1, cooldownMs: 60000 }
+      },
+      debounceMs: 20
+    });
+    
+    const monitor = await clocked.create('call-1');
+    for (const transcript of ['What time does the store open?', 'Where is the nearest station?']) {
+      await monitor.updateTranscript(transcript);
+      await clock.advance(20);
+    }
+    expect(primaryCalls).toEqual([20]);
+    
+    await clock.advance(60000);
+    await monitor.updateTranscript('Is the museum open on Sundays?');
+    await clock.advance(20);
+    expect(primaryCalls).toEqual([20, 60060]);
+    
+    clocked.disposeAll();
+  });
+});
@@ -0,0 +1,76 @@
+import { BasicTracer, InMemorySpanExporter, noopTracer, withSpan } from '../src';
+
+describe('BasicTracer', () => {
+  test('should nest spans in one trace and export them when they end', () => {
+    const exporter = new InMemorySpanExporter();
+    const tracer = new BasicTracer(exporter);
+    
+    const root = tracer.startSpan('turn', { startTime: 1000, attributes: { 'turn.words': 4 } });
+    const child = tracer.startSpan('analysis', { parent: root, startTime: 1010 });
+    child.setAttribute('analysis.method', 'rules').addEvent('decided', { confident: true });
+    child.end(1030);
+    root.setStatus('ok').end(1050);
+    root.end(2000);
+    
+    const spans = exporter.getFinishedSpans();
+    expect(spans.map(span => span.name)).toEqual(['analysis', 'turn']);
+    expect(spans[0]).toMatchObject({
+      traceId: root.traceId,
+      parentSpanId: root.spanId,
+      duration: 20,
+      attributes: { 'analysis.method': 'rules' },
+      events: [{ name: 'decided', attributes: { confident: true } }],
+      status: { code: 'unset' }
+    });
+    expect(spans[1]).toMatchObject({ parentSpanId: undefined, duration: 50, status: { code: 'ok' }, attributes: { 'turn.words': 4 } });
+    expect(root.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(root.spanId).toMatch(/^[0-9a-f]{16}$/);
+  });
+  
+  test('should filter spans by trace and reset', () => {
+    const exporter = new InMemorySpanExporter();
+    const tracer = new BasicTracer(exporter);
+    
+    const first = tracer.startSpan('first');
+    first.end();
+    tracer.startSpan('second').end();
+    
+    expect(exporter.getFinishedSpans(first.traceId).map(span => span.name)).toEqual(['first']);
+    
+    exporter.reset();
+    expect(exporter.getFinishedSpans()).toEqual([]);
+  });
+});
+
+describe('withSpan', () => {
+  const exporter = new InMemorySpanExporter();
+  const tracer = new BasicTracer(exporter);
+  
+  beforeEach(() => exporter.reset());
+  
+  test('should mark successful operations as ok', async () => {
+    expect(await withSpan(tracer, 'work', {}, async span => {
+      span.setAttribute('items', 3);
+      return 'done';
+    })).toBe('done');
+    
+    expect(exporter.getFinishedSpans()[0]).toMatchObject({ status: { code: 'ok' }, attributes: { items: 3 } });
+  });
+  
+  test('should record failures but not aborts as errors', async () => {
+    await expect(withSpan(tracer, 'failing', {}, async () => { throw new Error('Boom'); })).rejects.toThrow('Boom');
+    
+    const abort = Object.assign(new Error('Aborted'), { name: 'AbortError' });
+    await expect(withSpan(tracer, 'aborted', {}, async () => { throw abort; })).rejects.toBe(abort);
+    
+    const [failing, aborted] = exporter.getFinishedSpans();
+    expect(failing.status).toEqual({ code: 'error', message: 'Boom' });
+    expect(failing.events[0]).toMatchObject({ name: 'exception', attributes: { 'exception.message': 'Boom' } });
+    expect(aborted.status.code).toBe('unset');
+    expect(aborted.attributes.cancelled).toBe(true);
+  });
+  
+  test('should run with the no-op tracer', async () => {
+    expect(await withSpan(noopTracer, 'work', {}, async span => span.setAttribute('a', 1).traceId)).toBe('');
+  });
+});
@@ -1,4 +1,7 @@
 import { TranscriptAnalyzer } from '../src/TranscriptAnalyzer';
+import { HeuristicEndOfTurnDetector } from '../src/EndOfTurnDetector';
+import { DEFAULT_INTENTS } from '../src/IntentClassifier';
+import { LLMProvider, ChatRequest } from '../src/types';
 
 describe('TranscriptAnalyzer', () => {
   test('should detect questions immediately', async () => {
@@ -63,4 +66,289 @@ describe('TranscriptAnalyzer', () => {
     expect(result.shouldRespond).toBe(false);
     expect(result.reason).toContain('User may still be speaking');
   });
-});
\ No newline at end of file
+});
+describe('TranscriptAnalyzer group conversations', () => {
+  test('should not answer unaddressed greetings in a group', async () => {
+    const analyzer = new TranscriptAnalyzer();
+    
+    const result = await analyzer.analyze('Hello everyone, good to see you all', {
+      transcript: 'Hello everyone, good to see you all',
+      previousTranscript: '',
+      silenceDuration: 3000,
+      conversationHistory: [],
+      speakers: ['alice', 'bob'],
+      name: 'Ava'
+    });
+    
+    expect(result.shouldRespond).toBe(false);
+    expect(result.reason).toContain('group conversation');
+  });
+  
+  test('should not answer first-person statements in a group', async () => {
+    const analyzer = new TranscriptAnalyzer();
+    
+    for (const transcript of ['I need to leave early today.', 'i need to finish this report', 'I would like to thank everyone']) {
+      const result = await analyzer.analyze(transcript, {
+        transcript,
+        previousTranscript: '',
+        silenceDuration: 3000,
+        conversationHistory: [],
+        speakers: ['alice', 'bob'],
+        name: 'Ava'
+      });
+      
+      expect(result.shouldRespond).toBe(false);
+      expect(result.reason).not.toContain('Request detected');
+    }
+  });
+  
+  test('should answer greetings addressed by name in a group', async () => {
+    const analyzer = new TranscriptAnalyzer();
+    
+    const result = await analyzer.analyze('Hello Ava, good to see you here', {
+      transcript: 'Hello Ava, good to see you here',
+      previousTranscript: '',
+      silenceDuration: 100,
+      conversationHistory: [],
+      speakers: ['alice', 'bob'],
+      name: 'Ava'
+    });
+    
+    expect(result.shouldRespond).toBe(true);
+    expect(result.reason).toContain('Greeting detected');
+    expect(result.wakeName).toMatchObject({ text: 'Ava', start: 6, end: 9, method: 'exact' });
+  });
+  
+  test('should recognize a misheard name but not a name inside another word', async () => {
+    const analyzer = new TranscriptAnalyzer({ provider: 'custom', wakeName: { aliases: ['Avi'] } });
+    const context = (transcript: string) => ({
+      transcript,
+      previousTranscript: '',
+      silenceDuration: 3000,
+      conversationHistory: [],
+      speakers: ['alice', 'bob'],
+      name: 'Ava'
+    });
+    
+    const misheard = await analyzer.analyze('Hey Eva, good to see you here', context('Hey Eva, good to see you here'));
+    expect(misheard.shouldRespond).toBe(true);
+    expect(misheard.wakeName).toMatchObject({ name: 'Ava', text: 'Eva', method: 'phonetic' });
+    
+    const inWord = await analyzer.analyze('Hey Javier, good to see you here', context('Hey Javier, good to see you here'));
+    expect(inWord.shouldRespond).toBe(false);
+    expect(inWord.wakeName).toBeUndefined();
+  });
+});
+
+describe('TranscriptAnalyzer end-of-turn detection', () => {
+  const analyzer = new TranscriptAnalyzer({ provider: 'custom', endOfTurnDetector: new HeuristicEndOfTurnDetector() });
+  const context = (transcript: string, silenceDuration: number) => ({
+    transcript,
+    previousTranscript: '',
+    silenceDuration,
+    conversationHistory: []
+  });
+  
+  test('should let the speaker finish a question cut off mid-thought', async () => {
+    const transcript = 'Can you tell me, um';
+    const result = await analyzer.analyze(transcript, context(transcript, 1000));
+    
+    expect(result.shouldRespond).toBe(false);
+    expect(result.reason).toBe('User may still be speaking (ends with a filler)');
+    expect(result.endOfTurn?.signals).toContain('trailing-filler');
+  });
+  
+  test('should respond to a finished statement before the fixed silence threshold', async () => {
+    const transcript = 'I am working on the quarterly report today.';
+    const result = await analyzer.analyze(transcript, context(transcript, 1200));
+    
+    expect(result).toMatchObject({ shouldRespond: true, reason: 'Complete statement' });
+    expect(result.endOfTurn?.probability).toBeGreaterThan(0.8);
+  });
+});
+
+describe('TranscriptAnalyzer rules', () => {
+  const context = (transcript: string) => ({
+    transcript,
+    previousTranscript: '',
+    silenceDuration: 3000,
+    conversationHistory: [],
+    name: 'Ava'
+  });
+  
+  test('should explain rule-based decisions with a trace', async () => {
+    const analyzer = new TranscriptAnalyzer({ provider: 'custom' });
+    const result = await analyzer.analyze('I finished the quarterly report today.', context('I finished the quarterly report today.'));
+    
+    expect(result).toMatchObject({ shouldRespond: true, reason: 'Complete statement' });
+    expect(result.ruleTrace?.filter(entry => entry.fired).map(entry => entry.id)).toEqual(['complete']);
+  });
+  
+  test('should decide the same with the default preset set explicitly', async () => {
+    const implicit = new TranscriptAnalyzer({ provider: 'custom' });
+    const explicit = new TranscriptAnalyzer({ provider: 'custom', rules: 'default' });
+    const cases = [
+      { transcript: 'What time is the meeting today?', silenceDuration: 100 },
+      { transcript: 'Hello there how are you doing', silenceDuration: 100 },
+      { transcript: 'Tell me about the quarterly roadmap', silenceDuration: 100 },
+      { transcript: 'I am working on a project today', silenceDuration: 500 },
+      { transcript: 'I finished the quarterly report today.', silenceDuration: 3000 },
+      { transcript: 'Hello everyone, good to see you all', silenceDuration: 100, speakers: ['alice', 'bob'] }
+    ];
+    
+    for (const { transcript, ...overrides } of cases) {
+      const analysisContext = { ...context(transcript), ...overrides };
+      expect(await explicit.analyze(transcript, analysisContext)).toEqual(await implicit.analyze(transcript, analysisContext));
+    }
+    
+    const question = await explicit.analyze('What time is the meeting today?', { ...context('What time is the meeting today?'), silenceDuration: 100 });
+    expect(question).toMatchObject({ shouldRespond: true, confidence: 0.9, reason: 'Question detected' });
+  });
+  
+  test('should let configured rules decide about questions', async () => {
+    const analyzer = new TranscriptAnalyzer({ provider: 'custom', rules: 'addressed-only' });
+    
+    const unaddressed = await analyzer.analyze('What time is the meeting today?', context('What time is the meeting today?'));
+    expect(unaddressed.shouldRespond).toBe(false);
+    expect(unaddressed.ruleTrace?.find(entry => entry.id === 'question')?.fired).toBe(true);
+    
+    const addressed = await analyzer.analyze('Ava, what time is the meeting today?', context('Ava, what time is the meeting today?'));
+    expect(addressed).toMatchObject({ shouldRespond: true, reason: 'Directly addressed as Ava, question detected' });
+  });
+});
+
+describe('TranscriptAnalyzer languages', () => {
+  const context = (transcript: string, silenceDuration = 3000) => ({
+    transcript,
+    previousTranscript: '',
+    silenceDuration,
+    conversationHistory: []
+  });
+  
+  test('should answer questions in the detected language without a question mark', async () => {
+    const analyzer = new TranscriptAnalyzer({ provider: 'custom', language: 'auto' });
+    
+    const spanish = await analyzer.analyze('¿Dónde está la sala de reuniones', context('¿Dónde está la sala de reuniones', 100));
+    expect(spanish).toMatchObject({ shouldRespond: true, reason: 'Question detected', language: 'es' });
+    
+    const japanese = await analyzer.analyze('会議は何時に始まりますか', context('会議は何時に始まりますか', 100));
+    expect(japanese).toMatchObject({ shouldRespond: true, language: 'ja' });
+  });
+  
+  test('should judge completeness with the language pack', async () => {
+    const analyzer = new TranscriptAnalyzer({
+      provider: 'custom',
+      language: 'es',
+      endOfTurnDetector: new HeuristicEndOfTurnDetector()
+    });
+    
+    const thinking = await analyzer.analyze('Quiero reservar una mesa para, eh', context('Quiero reservar una mesa para, eh', 1200));
+    expect(thinking.shouldRespond).toBe(false);
+    expect(thinking.endOfTurn?.signals).toContain('trailing-filler');
+    
+    const finished = await analyzer.analyze('Quiero reservar una mesa para dos.', context('Quiero reservar una mesa para dos.', 1200));
+    expect(finished).toMatchObject({ shouldRespond: true, reason: 'Complete statement' });
+  });
+  
+  test('should reject unknown languages', () => {
+    expect(() => new TranscriptAnalyzer({ language: 'xx' })).toThrow('Unknown language: xx');
+  });
+});
+
+describe('TranscriptAnalyzer question classification', () => {
+  const analyzer = new TranscriptAnalyzer({ provider: 'custom' });
+  const context = (transcript: string, silenceDuration: number) => ({
+    transcript,
+    previousTranscript: '',
+    silenceDuration,
+    conversationHistory: [],
+    name: 'Ava'
+  });
+  
+  test('should answer an unpunctuated question without waiting for silence', async () => {
+    const transcript = 'Ava can you move the standup to ten';
+    const result = await analyzer.analyze(transcript, context(transcript, 100));
+    
+    expect(result).toMatchObject({ shouldRespond: true, confidence: 0.8, reason: 'Question detected' });
+    expect(result.question?.cues).toEqual(['inversion']);
+  });
+  
+  test('should wait for a question that trails off', async () => {
+    const transcript = 'can you tell me about the';
+    const result = await analyzer.analyze(transcript, context(transcript, 100));
+    
+    expect(result).toMatchObject({ shouldRespond: false, reason: 'User may still be speaking' });
+  });
+  
+  test('should weigh requests in rule-based analysis', async () => {
+    const transcript = 'tell me about the project roadmap';
+    
+    expect(await analyzer.analyze(transcript, context(transcript, 100))).toMatchObject({ shouldRespond: false });
+    expect(await analyzer.analyze(transcript, context(transcript, 1600))).toMatchObject({
+      shouldRespond: true,
+      reason: 'Request detected',
+      question: { kind: 'request' }
+    });
+  });
+});
+
+describe('TranscriptAnalyzer intents', () => {
+  const context = (transcript: string) => ({
+    transcript,
+    previousTranscript: '',
+    silenceDuration: 3000,
+    conversationHistory: []
+  });
+  const jsonProvider = (reply: object, requests: ChatRequest[] = []): LLMProvider => ({
+    name: 'Fake',
+    capabilities: { json: true, streaming: false, tools: false },
+    chat: async (request) => {
+      requests.push(request);
+      return { content: JSON.stringify(reply), toolCalls: [] };
+    }
+  });
+  
+  test('should label rule-based results with keyword intents', async () => {
+    const analyzer = new TranscriptAnalyzer({ provider: 'custom', intents: DEFAULT_INTENTS });
+    
+    const handoff = await analyzer.analyze('I want to speak to a real person now', context('I want to speak to a real person now'));
+    expect(handoff.intent).toEqual({ label: 'handoff', confidence: 0.6, source: 'keywords' });
+    
+    const question = await analyzer.analyze('what time is the standup tomorrow', context('what time is the standup tomorrow'));
+    expect(question.intent).toEqual({ label: 'question', confidence: 0.8, source: 'keywords' });
+  });
+  
+  test('should leave results unlabeled without intents', async () => {
+    const analyzer = new TranscriptAnalyzer({ provider: 'custom' });
+    
+    const result = await analyzer.analyze('I want to speak to a real person now', context('I want to speak to a real person now'));
+    expect(result.intent).toBeUndefined();
+  });
+  
+  test('should use the intent chosen by the AI analyzer', async () => {
+    const requests: ChatRequest[] = [];
+    const analyzer = new TranscriptAnalyzer({
+      provider: jsonProvider({ shouldRespond: true, confidence: 0.8, reason: 'Wants a human', intent: 'handoff', intentConfidence: 0.9 }, requests),
+      intents: DEFAULT_INTENTS,
+      minWords: 1
+    });
+    
+    const result = await analyzer.analyze('this is going nowhere, get me out of here', context('this is going nowhere, get me out of here'));
+    expect(result.intent).toEqual({ label: 'handoff', confidence: 0.9, source: 'ai' });
+    
+    const prompt = requests[0].messages.map(message => message.content).join('\n');
+    expect(prompt).toContain('- handoff: Asks to speak to a human instead of the assistant');
+    expect(prompt).toContain('"intent"');
+  });
+  
+  test('should fall back to keywords when the AI analyzer returns an unknown intent', async () => {
+    const analyzer = new TranscriptAnalyzer({
+      provider: jsonProvider({ shouldRespond: true, confidence: 0.8, reason: 'Upset', intent: 'rant' }),
+      intents: DEFAULT_INTENTS,
+      minWords: 1
+    });
+    
+    const result = await analyzer.analyze('the app is broken again', context('the app is broken again'));
+    expect(result.intent).toEqual({ label: 'complaint', confidence: 0.6, source: 'keywords' });
+  });
+});
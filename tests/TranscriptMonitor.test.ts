@@ -1,4 +1,14 @@
-import { TranscriptMonitor, SimpleStorage } from '../src';
+import {
+  TranscriptMonitor,
+  SimpleStorage,
+  LLMProvider,
+  BasicTracer,
+  InMemorySpanExporter,
+  VirtualClock,
+  AnalysisContext,
+  HeuristicEndOfTurnDetector,
+  DEFAULT_INTENTS
+} from '../src';
 
 describe('TranscriptMonitor', () => {
   let monitor: TranscriptMonitor;
@@ -107,4 +117,967 @@ describe('TranscriptMonitor', () => {
     expect(history[2].role).toBe('user');
     expect(history[3].role).toBe('assistant');
   });
-});
\ No newline at end of file
+});
+describe('TranscriptMonitor turn queue', () => {
+  const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+  
+  const createMonitor = (queuePolicy: 'sequential' | 'merge' | 'latest') => {
+    const generated: string[] = [];
+    const monitor = new TranscriptMonitor({
+      storage: new SimpleStorage(),
+      analyzer: {
+        maxSilenceMs: 1,
+        customAnalyzer: async () => ({ shouldRespond: true, confidence: 0.8, reason: 'Test analysis' })
+      },
+      generator: {
+        customGenerator: async (transcript) => {
+          await wait(200);
+          generated.push(transcript);
+          return `Test response to: ${transcript}`;
+        }
+      },
+      debounceMs: 20,
+      queuePolicy
+    });
+    
+    return { monitor, generated };
+  };
+  
+  const first = 'Can you check my order please?';
+  const second = 'It was placed on Monday morning.';
+  const third = 'The order number is 4521 I think.';
+  
+  // Sends the first transcript, then the rest while the first turn is still generating
+  const sendDuringTurn = async (monitor: TranscriptMonitor, transcripts: string[]) => {
+    await monitor.updateTranscript(transcripts[0]);
+    await wait(60);
+    for (const transcript of transcripts.slice(1)) {
+      await monitor.updateTranscript(transcript);
+      await wait(60);
+    }
+  };
+  
+  test('should process every queued turn in order', async () => {
+    const { monitor, generated } = createMonitor('sequential');
+    const queued = jest.fn();
+    monitor.on('turnQueued', queued);
+    
+    await sendDuringTurn(monitor, [first, second, third]);
+    await wait(700);
+    
+    expect(generated).toEqual([first, second, third]);
+    expect(queued).toHaveBeenCalledTimes(2);
+    expect(queued).toHaveBeenLastCalledWith({ transcript: third, queueLength: 2 });
+    monitor.stop();
+  });
+  
+  test('should merge pending turns into the next turn', async () => {
+    const { monitor, generated } = createMonitor('merge');
+    const merged = jest.fn();
+    monitor.on('turnMerged', merged);
+    
+    await sendDuringTurn(monitor, [first, second, third]);
+    await wait(500);
+    
+    expect(generated).toEqual([first, `${second} ${third}`]);
+    expect(merged).toHaveBeenCalledWith({ transcript: `${second} ${third}`, queueLength: 1 });
+    monitor.stop();
+  });
+  
+  test('should keep only the newest pending turn', async () => {
+    const { monitor, generated } = createMonitor('latest');
+    const dropped = jest.fn();
+    monitor.on('turnDropped', dropped);
+    
+    await sendDuringTurn(monitor, [first, second, third]);
+    await wait(500);
+    
+    expect(generated).toEqual([first, third]);
+    expect(dropped).toHaveBeenCalledWith({ transcript: second, reason: 'superseded' });
+    monitor.stop();
+  });
+});
+
+describe('TranscriptMonitor interruptions', () => {
+  const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+  
+  test('should cancel in-flight generation when the user barges in', async () => {
+    const monitor = new TranscriptMonitor({
+      storage: new SimpleStorage(),
+      analyzer: {
+        customAnalyzer: async () => ({ shouldRespond: true, confidence: 0.8, reason: 'Test analysis' })
+      },
+      generator: {
+        customGenerator: (transcript, history, options) => new Promise((resolve, reject) => {
+          const timeout = setTimeout(() => resolve(`Test response to: ${transcript}`), 300);
+          options?.signal?.addEventListener('abort', () => {
+            clearTimeout(timeout);
+            reject(options.signal!.reason);
+          });
+        })
+      },
+      debounceMs: 20,
+      interruptionMode: 'cancel'
+    });
+    
+    const cancelled = jest.fn();
+    const generated = jest.fn();
+    monitor.on('responseCancelled', cancelled);
+    monitor.on('responseGenerated', generated);
+    
+    await monitor.updateTranscript('What is the weather like today?');
+    await wait(100);
+    await monitor.updateTranscript('Actually, never mind that question.');
+    await wait(50);
+    
+    expect(cancelled).toHaveBeenCalledWith({
+      transcript: 'What is the weather like today?',
+      reason: 'barge-in',
+      stage: 'generation'
+    });
+    expect(generated).not.toHaveBeenCalled();
+    expect(monitor.getHistory()).toEqual([
+      expect.objectContaining({ role: 'user', content: 'What is the weather like today?' }),
+      expect.objectContaining({ role: 'assistant', content: '', interrupted: true })
+    ]);
+    
+    monitor.stop();
+  });
+});
+
+describe('TranscriptMonitor streaming', () => {
+  test('should emit deltas, sentences and the full response', async () => {
+    const monitor = new TranscriptMonitor({
+      storage: new SimpleStorage(),
+      analyzer: {
+        customAnalyzer: async () => ({ shouldRespond: true, confidence: 0.8, reason: 'Test analysis' })
+      },
+      generator: {
+        customStreamGenerator: async function* () {
+          yield 'It is sunny. ';
+          yield 'Bring sun';
+          yield 'glasses!';
+        }
+      },
+      debounceMs: 20,
+      streaming: true
+    });
+    
+    const deltas: string[] = [];
+    const sentences: string[] = [];
+    monitor.on('responseDelta', delta => deltas.push(delta));
+    monitor.on('responseSentence', sentence => sentences.push(sentence));
+    
+    const response = new Promise(resolve => monitor.once('responseGenerated', resolve));
+    await monitor.updateTranscript('What is the weather like today?');
+    
+    expect(await response).toBe('It is sunny. Bring sunglasses!');
+    expect(deltas).toEqual(['It is sunny. ', 'Bring sun', 'glasses!']);
+    expect(sentences).toEqual(['It is sunny.', 'Bring sunglasses!']);
+    
+    monitor.stop();
+  });
+});
+
+describe('TranscriptMonitor segments', () => {
+  const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+  
+  test('should analyze only finalized text since the last turn', async () => {
+    const contexts: any[] = [];
+    const monitor = new TranscriptMonitor({
+      storage: new SimpleStorage(),
+      analyzer: {
+        minWords: 1,
+        maxSilenceMs: 1,
+        customAnalyzer: async (transcript, context) => {
+          contexts.push(context);
+          return { shouldRespond: true, confidence: 0.8, reason: 'Test analysis' };
+        }
+      },
+      generator: {
+        customGenerator: async (transcript) => `Test response to: ${transcript}`
+      },
+      debounceMs: 20
+    });
+    
+    const changes: string[] = [];
+    monitor.on('transcriptChanged', transcript => changes.push(transcript));
+    
+    monitor.appendSegment({ id: 'a', text: 'Turn off', speaker: 'alice', isFinal: false });
+    await wait(50);
+    expect(contexts).toHaveLength(0);
+    
+    monitor.updateSegment('a', { text: 'Turn off the lights.', isFinal: true });
+    await wait(50);
+    
+    monitor.appendSegment({ id: 'b', text: 'And lock the door.', speaker: 'alice', isFinal: true });
+    await wait(50);
+    
+    expect(changes).toEqual(['Turn off', 'Turn off the lights.', 'And lock the door.']);
+    expect(contexts.map(context => context.newText)).toEqual(['Turn off the lights.', 'And lock the door.']);
+    expect(contexts[1].segments).toEqual([
+      { id: 'b', text: 'And lock the door.', speaker: 'alice', isFinal: true }
+    ]);
+    expect(monitor.getSegments()).toEqual([]);
+    
+    monitor.stop();
+  });
+  
+  test('should reject updates to unknown segments', () => {
+    const monitor = new TranscriptMonitor();
+    
+    expect(() => monitor.updateSegment('missing', { isFinal: true })).toThrow('Unknown transcript segment');
+  });
+});
+
+describe('TranscriptMonitor speakers', () => {
+  const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+  
+  const createMonitor = (prompts: string[]) => new TranscriptMonitor({
+    storage: new SimpleStorage(),
+    analyzer: {
+      minWords: 1,
+      maxSilenceMs: 1,
+      customAnalyzer: async () => ({ shouldRespond: true, confidence: 0.8, reason: 'Test analysis' })
+    },
+    generator: {
+      customGenerator: async (transcript) => {
+        prompts.push(transcript);
+        return 'Sure.';
+      }
+    },
+    debounceMs: 20,
+    speakerPolicy: { respondTo: ['host'], ignore: ['notetaker'] }
+  });
+  
+  test('should only respond to allowed speakers and label who said what', async () => {
+    const prompts: string[] = [];
+    const monitor = createMonitor(prompts);
+    const analyses: any[] = [];
+    monitor.on('analysisComplete', analysis => analyses.push(analysis));
+    
+    monitor.appendSegment({ id: '1', text: 'I think we should ship Friday.', speaker: 'guest', isFinal: true });
+    await wait(50);
+    monitor.appendSegment({ id: '2', text: 'Recording started.', speaker: 'notetaker', isFinal: true });
+    monitor.appendSegment({ id: '3', text: 'Ava, can you summarize?', speaker: 'host', isFinal: true });
+    await wait(50);
+    
+    expect(analyses[0]).toEqual({ shouldRespond: false, confidence: 1, reason: 'Not responding to speaker guest' });
+    expect(prompts).toEqual(['guest: I think we should ship Friday.\nhost: Ava, can you summarize?']);
+    expect(monitor.getHistory()).toEqual([
+      expect.objectContaining({ role: 'user', speaker: 'guest', content: 'I think we should ship Friday.' }),
+      expect.objectContaining({ role: 'user', speaker: 'host', content: 'Ava, can you summarize?' }),
+      expect.objectContaining({ role: 'assistant', content: 'Sure.' })
+    ]);
+    
+    monitor.stop();
+  });
+});
+
+describe('TranscriptMonitor history persistence', () => {
+  const createMonitor = (storage: SimpleStorage) => new TranscriptMonitor({
+    storage,
+    analyzer: {
+      customAnalyzer: async () => ({ shouldRespond: true, confidence: 0.8, reason: 'Test analysis' })
+    },
+    generator: {
+      customGenerator: async (transcript) => `Test response to: ${transcript}`
+    },
+    debounceMs: 20,
+    persistHistory: true
+  });
+  
+  test('should save history and restore it on start', async () => {
+    const storage = new SimpleStorage();
+    const first = createMonitor(storage);
+    await first.start();
+    
+    const response = new Promise(resolve => first.once('responseGenerated', resolve));
+    await first.updateTranscript('What is the weather like today?');
+    await response;
+    await new Promise(resolve => setImmediate(resolve));
+    first.stop();
+    
+    const saved = JSON.parse(await storage.get('history'));
+    expect(saved.version).toBe(1);
+    expect(saved.turns.turnCount).toBe(1);
+    
+    const second = createMonitor(storage);
+    const restored = jest.fn();
+    second.on('historyRestored', restored);
+    await second.start();
+    
+    expect(second.getHistory()).toEqual(first.getHistory());
+    expect(restored).toHaveBeenCalledWith(expect.objectContaining({ messages: 2, turnCount: 1 }));
+    
+    second.clearHistory();
+    await new Promise(resolve => setImmediate(resolve));
+    expect(await storage.get('history')).toBe('');
+    second.stop();
+  });
+  
+  test('should migrate history saved as a bare message array', async () => {
+    const storage = new SimpleStorage();
+    await storage.set('history', JSON.stringify([
+      { role: 'user', content: 'Hi', timestamp: 1 },
+      { role: 'assistant', content: 'Hello!', timestamp: 2 },
+      { role: 'robot', content: 'Invalid', timestamp: 3 }
+    ]));
+    
+    const monitor = createMonitor(storage);
+    await monitor.start();
+    
+    expect(monitor.getHistory().map(message => message.content)).toEqual(['Hi', 'Hello!']);
+    monitor.stop();
+  });
+  
+  test('should start fresh when saved history is corrupt', async () => {
+    const storage = new SimpleStorage();
+    await storage.set('history', '{not json');
+    
+    const monitor = createMonitor(storage);
+    const failed = jest.fn();
+    monitor.on('historyRestoreFailed', failed);
+    await monitor.start();
+    
+    expect(monitor.getHistory()).toEqual([]);
+    expect(failed).toHaveBeenCalledWith({ reason: 'Saved conversation is not valid JSON' });
+    monitor.stop();
+  });
+});
+
+describe('TranscriptMonitor history budget', () => {
+  test('should summarize turns that no longer fit the budget', async () => {
+    const received: any[] = [];
+    const monitor = new TranscriptMonitor({
+      storage: new SimpleStorage(),
+      analyzer: {
+        customAnalyzer: async () => ({ shouldRespond: true, confidence: 0.8, reason: 'Test analysis' })
+      },
+      generator: {
+        customGenerator: async (transcript, history, options) => {
+          received.push({ history: history.length, summary: options?.summary });
+          return 'Noted.';
+        }
+      },
+      history: {
+        maxTokens: 30,
+        summarizer: async (messages, previousSummary) => `${previousSummary}[${messages.length} folded]`
+      },
+      debounceMs: 20
+    });
+    
+    const summarized = jest.fn();
+    monitor.on('historySummarized', summarized);
+    
+    for (const transcript of [
+      'What is the capital city of France?',
+      'What is the capital city of Spain?',
+      'What is the capital city of Italy?'
+    ]) {
+      const response = new Promise(resolve => monitor.once('responseGenerated', resolve));
+      await monitor.updateTranscript(transcript);
+      await response;
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    
+    expect(summarized).toHaveBeenCalledWith({ folded: 2, summary: '[2 folded]' });
+    expect(received[2]).toEqual({ history: 2, summary: '[2 folded]' });
+    expect(monitor.getSummary()).toBe('[2 folded][2 folded]');
+    
+    monitor.stop();
+  });
+  
+  test('should report a failed summarization instead of a summary', async () => {
+    const monitor = new TranscriptMonitor({
+      storage: new SimpleStorage(),
+      analyzer: {
+        customAnalyzer: async () => ({ shouldRespond: true, confidence: 0.8, reason: 'Test analysis' })
+      },
+      generator: {
+        customGenerator: async () => 'Noted.'
+      },
+      history: {
+        maxTokens: 30,
+        summarizer: async () => {
+          throw new Error('Provider down');
+        }
+      },
+      debounceMs: 20
+    });
+    
+    const summarized = jest.fn();
+    const failed = jest.fn();
+    monitor.on('historySummarized', summarized);
+    monitor.on('historySummaryFailed', failed);
+    
+    for (const transcript of ['What is the capital city of France?', 'What is the capital city of Spain?']) {
+      const response = new Promise(resolve => monitor.once('responseGenerated', resolve));
+      await monitor.updateTranscript(transcript);
+      await response;
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    
+    expect(failed).toHaveBeenCalledWith({ folded: 2, error: new Error('Provider down') });
+    expect(summarized).not.toHaveBeenCalled();
+    expect(monitor.getHistory()).toHaveLength(2);
+    expect(monitor.getSummary()).toBe('');
+    
+    monitor.stop();
+  });
+  
+  test("should budget history for the generator's default model", async () => {
+    const received: number[] = [];
+    const monitor = new TranscriptMonitor({
+      storage: new SimpleStorage(),
+      analyzer: {
+        customAnalyzer: async () => ({ shouldRespond: true, confidence: 0.8, reason: 'Test analysis' })
+      },
+      generator: {
+        customGenerator: async (transcript, history) => {
+          received.push(history.length);
+          return 'Noted.';
+        }
+      },
+      history: { summarizer: async () => 'summary' },
+      debounceMs: 20
+    });
+    
+    const summarized = jest.fn();
+    monitor.on('historySummarized', summarized);
+    
+    // About 2,500 tokens per turn: over the 4,000 fallback budget after two turns, well within gpt-4o's 16,000
+    for (const topic of ['alpha', 'beta', 'gamma']) {
+      const response = new Promise(resolve => monitor.once('responseGenerated', resolve));
+      await monitor.updateTranscript(`${`${topic} `.repeat(10000 / (topic.length + 1))}done?`);
+      await response;
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    
+    expect(summarized).not.toHaveBeenCalled();
+    expect(received).toEqual([0, 2, 4]);
+    
+    monitor.stop();
+  });
+});
+
+describe('TranscriptMonitor tools', () => {
+  const originalFetch = global.fetch;
+  
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+  
+  test('should emit tool events and record tool calls in history', async () => {
+    global.fetch = jest.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify({
+        choices: [{
+          message: {
+            role: 'assistant',
+            content: null,
+            tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'lookup_order', arguments: '{"id":"42"}' } }]
+          }
+        }]
+      })))
+      .mockResolvedValueOnce(new Response(JSON.stringify({
+        choices: [{ message: { role: 'assistant', content: 'Order 42 ships tomorrow.' } }]
+      })));
+    
+    const monitor = new TranscriptMonitor({
+      storage: new SimpleStorage(),
+      analyzer: {
+        customAnalyzer: async () => ({ shouldRespond: true, confidence: 0.8, reason: 'Test analysis' })
+      },
+      generator: {
+        provider: 'openai',
+        apiKey: 'test-key',
+        tools: [{
+          name: 'lookup_order',
+          description: 'Looks up an order by ID',
+          parameters: { type: 'object', properties: { id: { type: 'string' } } },
+          handler: async ({ id }) => `Order ${id}: shipping tomorrow`
+        }]
+      },
+      debounceMs: 20
+    });
+    
+    const called: any[] = [];
+    const results: any[] = [];
+    monitor.on('toolCalled', call => called.push(call));
+    monitor.on('toolResult', result => results.push(result));
+    
+    const response = new Promise(resolve => monitor.once('responseGenerated', resolve));
+    await monitor.updateTranscript('Where is my order number 42?');
+    
+    expect(await response).toBe('Order 42 ships tomorrow.');
+    expect(called).toEqual([{ id: 'call_1', name: 'lookup_order', arguments: { id: '42' } }]);
+    expect(results).toEqual([{ callId: 'call_1', name: 'lookup_order', content: 'Order 42: shipping tomorrow' }]);
+    expect(monitor.getHistory().map(message => message.role)).toEqual(['user', 'tool', 'assistant']);
+    expect(monitor.getHistory()[1]).toMatchObject({
+      content: 'Order 42: shipping tomorrow',
+      tool: { name: 'lookup_order', callId: 'call_1', arguments: { id: '42' } }
+    });
+    
+    monitor.stop();
+  });
+});
+
+describe('TranscriptMonitor retries', () => {
+  test('should emit retryAttempt for failed generation attempts', async () => {
+    let calls = 0;
+    const monitor = new TranscriptMonitor({
+      storage: new SimpleStorage(),
+      analyzer: {
+        customAnalyzer: async () => ({ shouldRespond: true, confidence: 0.8, reason: 'Test analysis' })
+      },
+      generator: {
+        customGenerator: async () => {
+          if (++calls === 1) throw new Error('Temporary failure');
+          return 'Recovered';
+        }
+      },
+      debounceMs: 20,
+      retry: { baseDelayMs: 5, jitter: 'none' }
+    });
+    
+    const attempts: any[] = [];
+    monitor.on('retryAttempt', attempt => attempts.push(attempt));
+    
+    const response = new Promise(resolve => monitor.once('responseGenerated', resolve));
+    await monitor.updateTranscript('Can you summarize the meeting notes?');
+    
+    expect(await response).toBe('Recovered');
+    expect(attempts).toHaveLength(1);
+    expect(attempts[0]).toMatchObject({ stage: 'generation', attempt: 1, willRetry: true, delayMs: 5 });
+    expect(attempts[0].error.message).toBe('Temporary failure');
+    
+    monitor.stop();
+  });
+});
+
+describe('TranscriptMonitor usage', () => {
+  function createProvider(content: string, model: string, promptTokens: number, completionTokens: number) {
+    const provider = {
+      name: 'Fake',
+      capabilities: { json: true, streaming: false, tools: false },
+      chat: jest.fn(async (_request, options = {}) => {
+        const usage = { provider: 'Fake', model, promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+        options.onUsage?.(usage);
+        return { content, toolCalls: [], usage };
+      })
+    } satisfies LLMProvider;
+    return provider;
+  }
+  
+  const analysisJson = JSON.stringify({ shouldRespond: true, confidence: 0.7, reason: 'Model says respond' });
+  
+  test('should attach usage to events and total it per monitor', async () => {
+    const monitor = new TranscriptMonitor({
+      storage: new SimpleStorage(),
+      analyzer: { provider: createProvider(analysisJson, 'gpt-4o-mini', 1000, 100), maxSilenceMs: 1 },
+      generator: { provider: createProvider('Sure thing.', 'gpt-4o', 2000, 500) },
+      debounceMs: 20
+    });
+    
+    const analyses: any[] = [];
+    monitor.on('analysisComplete', analysis => analyses.push(analysis));
+    
+    const generated = new Promise<any[]>(resolve => monitor.once('responseGenerated', (...args) => resolve(args)));
+    await monitor.updateTranscript('I would like to go over the project plan');
+    const [response, details] = await generated;
+    
+    expect(response).toBe('Sure thing.');
+    expect(analyses[0].usage).toEqual({ calls: 1, promptTokens: 1000, completionTokens: 100, totalTokens: 1100, cost: expect.closeTo(0.00021, 8) });
+    expect(details.usage).toEqual({ calls: 1, promptTokens: 2000, completionTokens: 500, totalTokens: 2500, cost: expect.closeTo(0.01, 8) });
+    
+    const usage = monitor.getUsage();
+    expect(usage.totalTokens).toBe(3600);
+    expect(usage.cost).toBeCloseTo(0.01021, 8);
+    expect(usage.byModel['gpt-4o-mini'].calls).toBe(1);
+    expect(usage.byStage.generation.totalTokens).toBe(2500);
+    
+    monitor.stop();
+  });
+  
+  test('should use rule-based analysis once the budget is spent', async () => {
+    const analysisProvider = createProvider(analysisJson, 'gpt-4o-mini', 1000, 100);
+    const monitor = new TranscriptMonitor({
+      storage: new SimpleStorage(),
+      analyzer: { provider: analysisProvider, maxSilenceMs: 1 },
+      generator: { provider: createProvider('Sure thing.', 'gpt-4o', 2000, 500) },
+      debounceMs: 20,
+      usage: { budget: { maxTokens: 3000 } }
+    });
+    
+    const exceeded: any[] = [];
+    monitor.on('budgetExceeded', event => exceeded.push(event));
+    
+    const generated = new Promise(resolve => monitor.once('responseGenerated', resolve));
+    await monitor.updateTranscript('I would like to go over the project plan');
+    await generated;
+    
+    expect(exceeded).toHaveLength(1);
+    expect(exceeded[0]).toMatchObject({ action: 'rule-based', usage: { totalTokens: 3600 } });
+    
+    const analysis = new Promise<any>(resolve => monitor.once('analysisComplete', resolve));
+    await monitor.updateTranscript('I would like to go over the project plan. Then we can review the budget numbers.');
+    
+    expect((await analysis).reason).not.toBe('Model says respond');
+    expect(analysisProvider.chat).toHaveBeenCalledTimes(1);
+    expect(exceeded).toHaveLength(1);
+    
+    monitor.stop();
+  });
+  
+  test('should stop responding once the budget is spent with onExceeded stop', async () => {
+    const generator = createProvider('Sure thing.', 'gpt-4o', 2000, 500);
+    const monitor = new TranscriptMonitor({
+      storage: new SimpleStorage(),
+      analyzer: { customAnalyzer: async () => ({ shouldRespond: true, confidence: 0.8, reason: 'Test analysis' }) },
+      generator: { provider: generator },
+      debounceMs: 20,
+      usage: { budget: { maxCost: 0.005, onExceeded: 'stop' } }
+    });
+    
+    const generated = new Promise(resolve => monitor.once('responseGenerated', resolve));
+    await monitor.updateTranscript('Can you summarize the meeting notes?');
+    await generated;
+    
+    const analysis = new Promise<any>(resolve => monitor.once('analysisComplete', resolve));
+    await monitor.updateTranscript('Can you summarize the meeting notes? And the action items?');
+    
+    expect(await analysis).toEqual({ shouldRespond: false, confidence: 1, reason: 'Usage budget exceeded' });
+    expect(generator.chat).toHaveBeenCalledTimes(1);
+    
+    monitor.stop();
+  });
+});
+
+describe('TranscriptMonitor metrics', () => {
+  test('should time each stage and count outcomes', async () => {
+    let calls = 0;
+    const monitor = new TranscriptMonitor({
+      storage: new SimpleStorage(),
+      analyzer: {
+        customAnalyzer: async () => ({ shouldRespond: true, confidence: 0.8, reason: 'Test analysis' })
+      },
+      generator: {
+        customStreamGenerator: async function* () {
+          if (++calls === 1) throw new Error('Temporary failure');
+          yield 'Hello ';
+          yield 'there.';
+        }
+      },
+      debounceMs: 20,
+      streaming: true
+    });
+    
+    const errored = new Promise(resolve => monitor.once('error', resolve));
+    await monitor.updateTranscript('Can you summarize the meeting notes?');
+    await errored;
+    
+    const generated = new Promise(resolve => monitor.once('responseGenerated', resolve));
+    await monitor.updateTranscript('Can you summarize the meeting notes? Please?');
+    await generated;
+    
+    const { latency, turns } = monitor.getMetrics();
+    expect(turns).toEqual({ responded: 1, skipped: 0, errored: 1, cancelled: 0 });
+    expect(latency.debounceWait.count).toBe(2);
+    expect(latency.debounceWait.min).toBeGreaterThanOrEqual(15);
+    expect(latency.analysis.count).toBe(2);
+    expect(latency.generation.count).toBe(1);
+    expect(latency.timeToFirstToken.count).toBe(1);
+    
+    monitor.stop();
+  });
+  
+  test('should count retries and skipped turns', async () => {
+    let calls = 0;
+    const monitor = new TranscriptMonitor({
+      storage: new SimpleStorage(),
+      analyzer: {
+        customAnalyzer: async () => {
+          if (++calls === 1) throw new Error('Temporary failure');
+          return { shouldRespond: false, confidence: 0.8, reason: 'Not needed' };
+        },
+        maxSilenceMs: 1
+      },
+      debounceMs: 20,
+      retry: { baseDelayMs: 5, jitter: 'none' }
+    });
+    
+    const analyzed = new Promise(resolve => monitor.once('analysisComplete', resolve));
+    await monitor.updateTranscript('I was thinking about the plan for tomorrow');
+    await analyzed;
+    
+    const metrics = monitor.getMetrics();
+    expect(metrics.retries).toEqual({ analysis: 1, generation: 0 });
+    expect(metrics.turns.skipped).toBe(1);
+    
+    monitor.stop();
+  });
+});
+
+describe('TranscriptMonitor tracing', () => {
+  test('should trace each turn with nested stage and attempt spans', async () => {
+    let calls = 0;
+    const exporter = new InMemorySpanExporter();
+    const monitor = new TranscriptMonitor({
+      storage: new SimpleStorage(),
+      analyzer: {
+        customAnalyzer: async () => ({ shouldRespond: true, confidence: 0.8, reason: 'Test analysis' })
+      },
+      generator: {
+        customGenerator: async () => {
+          if (++calls === 1) throw new Error('Temporary failure');
+          return 'Recovered';
+        }
+      },
+      debounceMs: 20,
+      retry: { baseDelayMs: 5, jitter: 'none' },
+      tracer: new BasicTracer(exporter)
+    });
+    
+    const response = new Promise(resolve => monitor.once('responseGenerated', resolve));
+    await monitor.updateTranscript('Can you summarize the meeting notes?');
+    await response;
+    await new Promise(resolve => setImmediate(resolve));
+    
+    const spans = exporter.getFinishedSpans();
+    const byName = (name: string) => spans.filter(span => span.name === name);
+    const [turn] = byName('turn');
+    
+    expect(turn).toMatchObject({ status: { code: 'ok' }, attributes: { 'turn.outcome': 'responded', 'turn.words': 6 } });
+    expect(spans.every(span => span.traceId === turn.traceId)).toBe(true);
+    
+    const [debounce] = byName('debounce');
+    const [analysis] = byName('analysis');
+    const [generation] = byName('generation');
+    expect(debounce.parentSpanId).toBe(turn.spanId);
+    expect(debounce.startTime).toBe(turn.startTime);
+    expect(analysis).toMatchObject({
+      parentSpanId: turn.spanId,
+      attributes: { 'analysis.should_respond': true, 'analysis.confidence': 0.9, 'analysis.reason': 'Question detected' }
+    });
+    expect(byName('analysis.attempt')[0].parentSpanId).toBe(analysis.spanId);
+    // The question is answered by the rules before the custom analyzer runs
+    expect(byName('analysis.attempt')[0].attributes['analysis.method']).toBe('rules');
+    
+    const attempts = byName('generation.attempt');
+    expect(attempts.map(span => span.attributes.attempt)).toEqual([1, 2]);
+    expect(attempts.every(span => span.parentSpanId === generation.spanId)).toBe(true);
+    expect(attempts[0].status).toEqual({ code: 'error', message: 'Temporary failure' });
+    expect(attempts[1]).toMatchObject({ status: { code: 'ok' }, attributes: { 'generation.method': 'custom' } });
+    expect(generation.attributes['generation.response_length']).toBe(9);
+    
+    monitor.stop();
+  });
+  
+  test('should record errors on the turn span', async () => {
+    const exporter = new InMemorySpanExporter();
+    const monitor = new TranscriptMonitor({
+      storage: new SimpleStorage(),
+      analyzer: {
+        customAnalyzer: async () => ({ shouldRespond: true, confidence: 0.8, reason: 'Test analysis' })
+      },
+      generator: {
+        customGenerator: async () => { throw Object.assign(new Error('Bad request'), { retryable: false }); }
+      },
+      debounceMs: 20,
+      tracer: new BasicTracer(exporter)
+    });
+    monitor.on('error', () => {});
+    
+    const errored = new Promise(resolve => monitor.once('error', resolve));
+    await monitor.updateTranscript('Can you summarize the meeting notes?');
+    await errored;
+    await new Promise(resolve => setImmediate(resolve));
+    
+    const turn = exporter.getFinishedSpans().find(span => span.name === 'turn')!;
+    expect(turn.status).toEqual({ code: 'error', message: 'Bad request' });
+    expect(turn.attributes['turn.outcome']).toBe('errored');
+    
+    monitor.stop();
+  });
+});
+
+describe('TranscriptMonitor clock', () => {
+  test('should debounce and measure silence on the injected clock', async () => {
+    const clock = new VirtualClock(1000);
+    const contexts: AnalysisContext[] = [];
+    const monitor = new TranscriptMonitor({
+      storage: new SimpleStorage(),
+      analyzer: {
+        customAnalyzer: async (transcript, context) => {
+          contexts.push(context);
+          return { shouldRespond: false, confidence: 0.8, reason: 'Test analysis' };
+        }
+      },
+      debounceMs: 1500,
+      clock
+    });
+    const analyses: string[] = [];
+    monitor.on('analysisComplete', result => analyses.push(result.reason));
+    
+    await monitor.updateTranscript('I think we should ship');
+    await clock.advance(1000);
+    await monitor.updateTranscript('I think we should ship it on Friday');
+    await clock.advance(1499);
+    expect(analyses).toEqual([]);
+    
+    await clock.advance(1);
+    expect(analyses).toEqual(['Test analysis']);
+    expect(contexts[0].silenceDuration).toBe(1500);
+    expect(monitor.getMetrics().latency.debounceWait.sum).toBe(2500);
+    
+    monitor.stop();
+  });
+  
+  test('should back off polling on the injected clock', async () => {
+    const clock = new VirtualClock();
+    const polledAt: number[] = [];
+    const monitor = new TranscriptMonitor({
+      storage: {
+        get: async () => {
+          polledAt.push(clock.now());
+          return '';
+        },
+        set: async () => {}
+      },
+      pollingIntervalMs: 100,
+      maxPollingIntervalMs: 300,
+      clock
+    });
+    
+    await monitor.start();
+    await clock.advance(1000);
+    monitor.stop();
+    await clock.advance(1000);
+    
+    expect(polledAt).toEqual([0, 150, 375, 675, 975]);
+    expect(clock.pending).toBe(0);
+  });
+  
+  test('should analyze again once the end-of-turn silence threshold has passed', async () => {
+    const clock = new VirtualClock();
+    const monitor = new TranscriptMonitor({
+      storage: new SimpleStorage(),
+      analyzer: { provider: 'custom', endOfTurnDetector: new HeuristicEndOfTurnDetector({ baseSilenceMs: 2000 }) },
+      generator: { customGenerator: async () => 'Noted' },
+      debounceMs: 500,
+      clock
+    });
+    const reasons: string[] = [];
+    monitor.on('analysisComplete', result => reasons.push(result.reason));
+    
+    await monitor.updateTranscript('We should move the launch to next week');
+    await clock.advance(500);
+    expect(reasons).toEqual(['User may still be speaking (short silence)']);
+    
+    await clock.advance(1500);
+    expect(reasons).toEqual(['User may still be speaking (short silence)', 'Complete statement']);
+    
+    monitor.stop();
+  });
+  
+  test('should wait out retry backoff on the injected clock', async () => {
+    const clock = new VirtualClock();
+    let calls = 0;
+    const monitor = new TranscriptMonitor({
+      storage: new SimpleStorage(),
+      generator: {
+        customGenerator: async () => {
+          if (++calls === 1) throw new Error('Temporary failure');
+          return 'Recovered';
+        }
+      },
+      debounceMs: 100,
+      retry: { baseDelayMs: 5000, jitter: 'none' },
+      clock
+    });
+    const responses: string[] = [];
+    monitor.on('responseGenerated', response => responses.push(response));
+    
+    await monitor.updateTranscript('Can you summarize the meeting notes?');
+    await clock.advance(100);
+    expect(calls).toBe(1);
+    
+    await clock.advance(4999);
+    expect(responses).toEqual([]);
+    
+    await clock.advance(1);
+    expect(responses).toEqual(['Recovered']);
+    
+    monitor.stop();
+  });
+});
+
+describe('TranscriptMonitor intents', () => {
+  const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+  
+  const createMonitor = () => {
+    const generator = jest.fn(async (transcript: string) => `Test response to: ${transcript}`);
+    const monitor = new TranscriptMonitor({
+      storage: new SimpleStorage(),
+      analyzer: {
+        maxSilenceMs: 1,
+        intents: DEFAULT_INTENTS,
+        customAnalyzer: async () => ({ shouldRespond: true, confidence: 0.8, reason: 'Test analysis' })
+      },
+      generator: { customGenerator: generator },
+      debounceMs: 20
+    });
+    
+    return { monitor, generator };
+  };
+  
+  test('should let a handler answer turns with its intent', async () => {
+    const { monitor, generator } = createMonitor();
+    const handled = jest.fn();
+    const responses = jest.fn();
+    monitor.on('intentHandled', handled);
+    monitor.on('responseGenerated', responses);
+    monitor.onIntent('handoff', async ({ intent }) => `Connecting you with a colleague (${intent.source})`);
+    
+    await monitor.updateTranscript('Can I talk to a real person please');
+    await wait(100);
+    
+    expect(generator).not.toHaveBeenCalled();
+    expect(handled).toHaveBeenCalledWith({
+      intent: { label: 'handoff', confidence: 0.6, source: 'keywords' },
+      transcript: 'Can I talk to a real person please',
+      response: 'Connecting you with a colleague (keywords)'
+    });
+    expect(responses).toHaveBeenCalledWith('Connecting you with a colleague (keywords)', expect.anything());
+    expect(monitor.getHistory().map(message => message.role)).toEqual(['user', 'assistant']);
+    monitor.stop();
+  });
+  
+  test('should record only the user turn when a handler returns nothing', async () => {
+    const { monitor } = createMonitor();
+    const responses = jest.fn();
+    monitor.on('responseGenerated', responses);
+    monitor.onIntent('complaint', () => undefined);
+    
+    await monitor.updateTranscript('The export is broken again');
+    await wait(100);
+    
+    expect(responses).not.toHaveBeenCalled();
+    expect(monitor.getHistory()).toMatchObject([{ role: 'user', content: 'The export is broken again' }]);
+    monitor.stop();
+  });
+  
+  test('should generate responses once the handler is removed', async () => {
+    const { monitor, generator } = createMonitor();
+    const handler = jest.fn(() => 'Handled');
+    const remove = monitor.onIntent('handoff', handler);
+    remove();
+    
+    await monitor.updateTranscript('Can I talk to a real person please');
+    await wait(100);
+    
+    expect(handler).not.toHaveBeenCalled();
+    expect(generator).toHaveBeenCalled();
+    monitor.stop();
+  });
+});
@@ -0,0 +1,57 @@
+import { UsageTracker, calculateCost, getModelPrice } from '../src';
+
+describe('UsageTracker', () => {
+  const usage = (model: string | undefined, promptTokens: number, completionTokens: number) => ({
+    provider: 'OpenAI',
+    model,
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens
+  });
+  
+  test('should price models by their longest matching prefix', () => {
+    expect(getModelPrice('gpt-4o-mini-2024-07-18')).toEqual({ input: 0.15, output: 0.6 });
+    expect(getModelPrice('gpt-4o-2024-08-06')).toEqual({ input: 2.5, output: 10 });
+    expect(getModelPrice('llama3')).toBeUndefined();
+    
+    expect(calculateCost(usage('gpt-4o', 1_000_000, 100_000))).toBeCloseTo(3.5);
+    expect(calculateCost(usage('llama3', 1000, 1000))).toBe(0);
+  });
+  
+  test('should total usage by stage and model', () => {
+    const tracker = new UsageTracker();
+    
+    const call = tracker.record('generation', usage('gpt-4o', 2000, 500));
+    tracker.record('analysis', usage('gpt-4o-mini', 1000, 100));
+    tracker.record('analysis', usage('gpt-4o-mini', 1000, 100));
+    
+    expect(call).toEqual({ calls: 1, promptTokens: 2000, completionTokens: 500, totalTokens: 2500, cost: 0.01 });
+    
+    const totals = tracker.getTotals();
+    expect(totals).toMatchObject({ calls: 3, promptTokens: 4000, completionTokens: 700, totalTokens: 4700 });
+    expect(totals.cost).toBeCloseTo(0.01042);
+    expect(totals.byStage.analysis.calls).toBe(2);
+    expect(totals.byStage.summary.calls).toBe(0);
+    expect(Object.keys(totals.byModel)).toEqual(['gpt-4o', 'gpt-4o-mini']);
+  });
+  
+  test('should use custom prices and group unknown models by provider', () => {
+    const tracker = new UsageTracker({ 'my-finetune': { input: 3, output: 12 } });
+    
+    expect(tracker.record('generation', usage('my-finetune-v2', 1_000_000, 0)).cost).toBe(3);
+    tracker.record('generation', usage(undefined, 10, 10));
+    
+    expect(tracker.getTotals().byModel.OpenAI).toMatchObject({ calls: 1, totalTokens: 20, cost: 0 });
+  });
+  
+  test('should return copies and reset', () => {
+    const tracker = new UsageTracker();
+    tracker.record('analysis', usage('gpt-4o-mini', 100, 10));
+    
+    tracker.getTotals().byStage.analysis.calls = 99;
+    expect(tracker.getTotals().byStage.analysis.calls).toBe(1);
+    
+    tracker.reset();
+    expect(tracker.getTotals()).toMatchObject({ calls: 0, totalTokens: 0, cost: 0, byModel: {} });
+  });
+});
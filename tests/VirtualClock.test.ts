@@ -0,0 +1,50 @@
+import { VirtualClock } from '../src';
+
+describe('VirtualClock', () => {
+  test('should fire timers in order as time advances', async () => {
+    const clock = new VirtualClock(1000);
+    const fired: string[] = [];
+    
+    clock.setTimeout(() => fired.push('b'), 20);
+    clock.setTimeout(() => fired.push('a'), 10);
+    clock.setTimeout(() => fired.push('c'), 20);
+    const cancelled = clock.setTimeout(() => fired.push('cancelled'), 5);
+    clock.clearTimeout(cancelled);
+    
+    await clock.advance(15);
+    expect(fired).toEqual(['a']);
+    expect(clock.now()).toBe(1015);
+    
+    await clock.advance(5);
+    expect(fired).toEqual(['a', 'b', 'c']);
+    expect(clock.pending).toBe(0);
+  });
+  
+  test('should settle promises between timers', async () => {
+    const clock = new VirtualClock();
+    const fired: number[] = [];
+    
+    clock.setTimeout(async () => {
+      await Promise.resolve();
+      fired.push(clock.now());
+      clock.setTimeout(() => fired.push(clock.now()), 10);
+    }, 10);
+    
+    await clock.advance(25);
+    expect(fired).toEqual([10, 20]);
+  });
+  
+  test('should repeat intervals and stop runAll when they never end', async () => {
+    const clock = new VirtualClock();
+    let ticks = 0;
+    const id = clock.setInterval(() => ticks++, 10);
+    
+    await clock.advance(35);
+    expect(ticks).toBe(3);
+    
+    await expect(clock.runAll(5)).rejects.toThrow('Timers still pending after firing 5');
+    clock.clearInterval(id);
+    await clock.runAll();
+    expect(clock.pending).toBe(0);
+  });
+});
@@ -0,0 +1,50 @@
+import { WakeNameMatcher, stripWakeName } from '../src';
+
+describe('WakeNameMatcher', () => {
+  const matcher = new WakeNameMatcher('Ava', { aliases: ['Avi'] });
+  
+  test('should match whole words only', () => {
+    expect(matcher.match('ava, what time is it?')).toEqual({ name: 'Ava', text: 'ava', start: 0, end: 3, score: 1, method: 'exact' });
+    expect(matcher.match('I wrote it in Java and Lava')).toBeUndefined();
+    expect(matcher.match('Thanks Avi!')).toMatchObject({ name: 'Avi', text: 'Avi', method: 'alias', score: 1 });
+  });
+  
+  test('should match names that sound alike', () => {
+    expect(matcher.match('Eva, can you book the room?')).toMatchObject({ text: 'Eva', method: 'phonetic', score: 0.83 });
+    expect(matcher.match('Hey Aver, what is next?')).toMatchObject({ text: 'Aver', start: 4, method: 'phonetic', score: 0.75 });
+    expect(matcher.match('It is over, we have everything')).toBeUndefined();
+    expect(new WakeNameMatcher('Ava', { phonetic: false }).match('Eva, hello')).toBeUndefined();
+  });
+  
+  test('should match near misspellings within the edit distance', () => {
+    const jarvis = new WakeNameMatcher('Jarvis', { phonetic: false });
+    
+    expect(jarvis.match('Jarvus, lights on')).toMatchObject({ method: 'fuzzy', score: 0.83 });
+    expect(new WakeNameMatcher('Jarvis').match('Jarvus, lights on')).toMatchObject({ method: 'phonetic', score: 0.92 });
+    expect(jarvis.match('Travis, lights on')).toBeUndefined();
+    expect(new WakeNameMatcher('Jarvis', { maxEditDistance: 0, phonetic: false }).match('Jarvus, lights on')).toBeUndefined();
+  });
+  
+  test('should match multi-word names and prefer the best match', () => {
+    const assistant = new WakeNameMatcher('Meeting Bot', { aliases: ['Bot'] });
+    
+    expect(assistant.matchAll('Bot, ask meeting bot to stop')).toEqual([
+      expect.objectContaining({ name: 'Bot', start: 0 }),
+      expect.objectContaining({ name: 'Meeting Bot', text: 'meeting bot', method: 'exact' })
+    ]);
+    expect(new WakeNameMatcher('Ava').match('Eva or Ava?')).toMatchObject({ text: 'Ava', start: 7 });
+  });
+});
+
+describe('stripWakeName', () => {
+  const matcher = new WakeNameMatcher('Ava');
+  const strip = (transcript: string) => stripWakeName(transcript, matcher.match(transcript)!);
+  
+  test('should remove the name and the punctuation around it', () => {
+    expect(strip('Eva, can you book the room?')).toBe('can you book the room?');
+    expect(strip('Can you book the room, Ava?')).toBe('Can you book the room?');
+    expect(strip('Thanks, Ava. That helps')).toBe('Thanks. That helps');
+    expect(strip('Ava! Stop the timer')).toBe('Stop the timer');
+    expect(strip('So Ava what is next')).toBe('So what is next');
+  });
+});
@@ -0,0 +1,65 @@
+import { parseSSE, SentenceChunker } from '../src/streaming';
+
+const streamOf = (...chunks: string[]) => new Response(chunks.join('')).body!;
+
+const chunkedStreamOf = (...chunks: string[]) => new ReadableStream<Uint8Array>({
+  start(controller) {
+    const encoder = new TextEncoder();
+    chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+    controller.close();
+  }
+});
+
+describe('parseSSE', () => {
+  test('should parse events with types and data', async () => {
+    const events = [];
+    for await (const event of parseSSE(streamOf(
+      'event: content_block_delta\ndata: {"text":"Hi"}\n\n',
+      ': keep-alive\n\n',
+      'data: [DONE]\n\n'
+    ))) {
+      events.push(event);
+    }
+    
+    expect(events).toEqual([
+      { event: 'content_block_delta', data: '{"text":"Hi"}' },
+      { event: undefined, data: '[DONE]' }
+    ]);
+  });
+  
+  test('should reassemble events split across chunks', async () => {
+    const events = [];
+    for await (const event of parseSSE(chunkedStreamOf('data: {"a"', ':1}\r\n', '\r\ndata: last'))) {
+      events.push(event.data);
+    }
+    
+    expect(events).toEqual(['{"a":1}', 'last']);
+  });
+});
+
+describe('SentenceChunker', () => {
+  test('should emit sentences as they complete', () => {
+    const chunker = new SentenceChunker();
+    
+    expect(chunker.push('Sure. Dr. Smith is ')).toEqual(['Sure.']);
+    expect(chunker.push('in today! Is there')).toEqual(['Dr. Smith is in today!']);
+    expect(chunker.push(' anything else?')).toEqual([]);
+    expect(chunker.flush()).toBe('Is there anything else?');
+  });
+  
+  test('should end a sentence on "no" unless a number follows', () => {
+    const chunker = new SentenceChunker();
+    
+    expect(chunker.push('I said no. Then we left. ')).toEqual(['I said no.', 'Then we left.']);
+    expect(chunker.push('See item No. ')).toEqual([]);
+    expect(chunker.push('5 on the list. Thanks')).toEqual(['See item No. 5 on the list.']);
+    expect(chunker.flush()).toBe('Thanks');
+  });
+  
+  test('should split full-width CJK punctuation', () => {
+    const chunker = new SentenceChunker();
+    
+    expect(chunker.push('你好。今天天气很好！还有')).toEqual(['你好。', '今天天气很好！']);
+    expect(chunker.flush()).toBe('还有');
+  });
+});